@@ -266,6 +266,7 @@ class SearchManager: ObservableObject {
     
     func openMemory(_ result: SearchResult) {
         print("🚀 Opening memory: \(result.titleSnippet)")
+        recordOpen(result)
         
         // Try to open the original source
         if let urlHost = result.urlHost, !urlHost.isEmpty {
@@ -288,6 +289,24 @@ class SearchManager: ObservableObject {
         }
     }
     
+    /// Tell the search API a memory was opened; opened memories are the last to go
+    /// when storage is over quota
+    private func recordOpen(_ result: SearchResult) {
+        guard !result.id.hasPrefix("mock-"),
+              let id = result.id.addingPercentEncoding(withAllowedCharacters: .urlPathAllowed),
+              let url = URL(string: "\(searchAPIURL)/memories/\(id)/open") else {
+            return
+        }
+        
+        var request = URLRequest(url: url)
+        request.httpMethod = "POST"
+        URLSession.shared.dataTask(with: request) { _, _, error in
+            if let error = error {
+                print("⚠️ Failed to record open: \(error.localizedDescription)")
+            }
+        }.resume()
+    }
+    
     func copyToClipboard(_ text: String) {
         let pasteboard = NSPasteboard.general
         pasteboard.clearContents()
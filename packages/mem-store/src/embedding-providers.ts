@@ -0,0 +1,162 @@
+/**
+ * Embedding Providers
+ * Pluggable text → vector backends, selected with EMBEDDING_PROVIDER. The ingest bridge
+ * embeds documents and the search API embeds queries through the same providers, so
+ * both land in the same vector space.
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+/**
+ * Everything needed to rebuild the provider that produced a set of vectors
+ */
+export interface EmbeddingModelSpec {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;       // Identifies the vector space; vectors from different models don't mix
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+  /** Chroma embedding-function shape, so a provider can be handed to a collection directly */
+  generate(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * OpenAI embeddings API (requires OPENAI_API_KEY and network access)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly maxBatchSize = 100; // OpenAI allows up to 2048 inputs per request
+  readonly dimensions: number;
+  private client: OpenAI;
+
+  constructor(apiKey: string, readonly model: string = 'text-embedding-3-large') {
+    this.client = new OpenAI({ apiKey });
+    this.dimensions = model === 'text-embedding-3-large' ? 3072 : 1536;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float',
+    });
+    return response.data.map(item => item.embedding);
+  }
+
+  generate(texts: string[]): Promise<number[][]> {
+    return this.embed(texts);
+  }
+}
+
+/**
+ * Deterministic hashed n-gram vectorizer that runs on CPU with no model files or network.
+ *
+ * Word unigrams, word bigrams and character trigrams are hashed into a fixed number of
+ * signed buckets (the "hashing trick"), weighted by log term frequency and L2-normalized,
+ * so cosine similarity measures lexical overlap, including partial-word and typo matches.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly maxBatchSize = 1000;
+  readonly model: string;
+
+  // Relative weight of each feature family
+  private readonly WORD_WEIGHT = 1.0;
+  private readonly BIGRAM_WEIGHT = 0.7;
+  private readonly TRIGRAM_WEIGHT = 0.4;
+
+  constructor(readonly dimensions: number = 768) {
+    this.model = `local-hash-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  generate(texts: string[]): Promise<number[][]> {
+    return this.embed(texts);
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    const addFeature = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    words.forEach((word, i) => {
+      addFeature(`w:${word}`, this.WORD_WEIGHT);
+      if (i > 0) {
+        addFeature(`b:${words[i - 1]} ${word}`, this.BIGRAM_WEIGHT);
+      }
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, this.TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of counts) {
+      const hash = createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimensions;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(weight));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+/**
+ * Build the provider selected by EMBEDDING_PROVIDER. Defaults to OpenAI when an API
+ * key is configured and to the local provider otherwise, so the service can start
+ * on machines without network access.
+ */
+export function createEmbeddingProvider(
+  name: string | undefined = process.env.EMBEDDING_PROVIDER
+): EmbeddingProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const selected = name || (apiKey ? 'openai' : 'local');
+
+  switch (selected) {
+    case 'openai':
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required for EMBEDDING_PROVIDER=openai');
+      }
+      return new OpenAIEmbeddingProvider(apiKey, process.env.OPENAI_EMBEDDING_MODEL || undefined);
+    case 'local':
+      return new LocalHashEmbeddingProvider(parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '768'));
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${selected}" (expected openai or local)`);
+  }
+}
+
+/**
+ * Build the provider recorded for an embedding collection, so queries and new
+ * documents are embedded with the same model as the vectors already stored
+ */
+export function createProviderForSpec(spec: EmbeddingModelSpec): EmbeddingProvider {
+  switch (spec.provider) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(`OPENAI_API_KEY environment variable is required for embedding model ${spec.model}`);
+      }
+      return new OpenAIEmbeddingProvider(apiKey, spec.model);
+    }
+    case 'local':
+      return new LocalHashEmbeddingProvider(spec.dimensions);
+    default:
+      throw new Error(`Unknown embedding provider "${spec.provider}" for model ${spec.model}`);
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Encryption at Rest
+ * One master key protects everything stored: the SQLite files (SQLCipher, so the FTS5
+ * index, sessions, entities and the embedded vector store too), documents and text
+ * metadata in Chroma when it holds the vectors, and thumbnail files (AES-256-GCM).
+ * The key comes from, in order:
+ * - MEMORY_KEY_FILE: a file holding the key as 64 hex characters (Linux, tests)
+ * - MEMORY_KEY_KEYCHAIN: the service name of a macOS Keychain item holding the same
+ * - MEMORY_PASSPHRASE: a passphrase, stretched with scrypt and the salt in ENCRYPTION_SALT_PATH
+ * Without any of them nothing is encrypted. Both services load the key through this
+ * module, so the reader always derives the same keys and reads the same formats as the
+ * writer.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+/**
+ * Where a master key comes from (one of the three)
+ */
+export interface KeySource {
+  keyFile?: string;
+  keychain?: string;      // Keychain item service name
+  passphrase?: string;
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const FINGERPRINT_BYTES = 4;
+const FILE_MAGIC = Buffer.from('PMENC1');
+const STRING_PREFIX = 'enc1:';
+const KEYCHAIN_ACCOUNT = 'photographic-memory';
+const DEFAULT_SALT_PATH = './data/encryption.salt';
+
+const loaded = new Map<string, MemoryCipher>(); // By key source, so a passphrase is stretched once
+
+export class MemoryCipher {
+  readonly fingerprint: string; // Identifies the key in everything it encrypts (hex)
+  private contentKey: Buffer;
+  private databaseKey: Buffer;
+
+  /**
+   * @param previous Ciphers whose data this one can still decrypt (during key rotation)
+   */
+  constructor(private masterKey: Buffer, private previous: MemoryCipher[] = []) {
+    if (masterKey.length !== KEY_BYTES) {
+      throw new Error(`Encryption key must be ${KEY_BYTES} bytes`);
+    }
+    this.contentKey = derive(masterKey, 'content');
+    this.databaseKey = derive(masterKey, 'sqlite');
+    this.fingerprint = derive(masterKey, 'fingerprint').subarray(0, FINGERPRINT_BYTES).toString('hex');
+  }
+
+  /**
+   * The cipher configured by MEMORY_KEY_FILE, MEMORY_KEY_KEYCHAIN or MEMORY_PASSPHRASE,
+   * or null when encryption is off
+   */
+  static load(saltPath: string = process.env.ENCRYPTION_SALT_PATH || DEFAULT_SALT_PATH): MemoryCipher | null {
+    const source: KeySource = {
+      keyFile: process.env.MEMORY_KEY_FILE || undefined,
+      keychain: process.env.MEMORY_KEY_KEYCHAIN || undefined,
+      passphrase: process.env.MEMORY_PASSPHRASE || undefined
+    };
+    if (!source.keyFile && !source.keychain && !source.passphrase) {
+      return null;
+    }
+    return MemoryCipher.fromSource(source, saltPath);
+  }
+
+  /**
+   * The cipher for a key source. A passphrase's salt is created on first use.
+   */
+  static fromSource(source: KeySource, saltPath: string = process.env.ENCRYPTION_SALT_PATH || DEFAULT_SALT_PATH): MemoryCipher {
+    const cacheKey = JSON.stringify([source.keyFile, source.keychain, source.passphrase, saltPath]);
+    let cipher = loaded.get(cacheKey);
+    if (!cipher) {
+      cipher = new MemoryCipher(readMasterKey(source, saltPath));
+      loaded.set(cacheKey, cipher);
+    }
+    return cipher;
+  }
+
+  /**
+   * A new random master key, as stored in a key file or Keychain item
+   */
+  static generateKey(): string {
+    return crypto.randomBytes(KEY_BYTES).toString('hex');
+  }
+
+  /**
+   * Store a new key in the macOS Keychain
+   */
+  static storeInKeychain(service: string, keyHex: string): void {
+    execFileSync('security', ['add-generic-password', '-s', service, '-a', KEYCHAIN_ACCOUNT, '-w', keyHex, '-U']);
+  }
+
+  /**
+   * This cipher, also able to decrypt what `previous` encrypted
+   */
+  withPrevious(previous: MemoryCipher | null): MemoryCipher {
+    return new MemoryCipher(this.masterKey, previous ? [previous] : []);
+  }
+
+  /**
+   * Value for `PRAGMA key` / `PRAGMA rekey`: a raw SQLCipher key, so SQLCipher skips
+   * its own key derivation
+   */
+  sqliteKeyPragma(): string {
+    return `"x'${this.databaseKey.toString('hex')}'"`;
+  }
+
+  encryptBuffer(plaintext: Buffer): Buffer {
+    const { iv, tag, ciphertext } = this.seal(plaintext);
+    return Buffer.concat([FILE_MAGIC, Buffer.from(this.fingerprint, 'hex'), iv, tag, ciphertext]);
+  }
+
+  /**
+   * Decrypt a file's contents; plaintext (from before encryption was turned on) is
+   * returned as it is
+   */
+  decryptBuffer(data: Buffer): Buffer {
+    if (!isEncryptedBuffer(data)) {
+      return data;
+    }
+    let offset = FILE_MAGIC.length;
+    const fingerprint = data.subarray(offset, offset += FINGERPRINT_BYTES).toString('hex');
+    const iv = data.subarray(offset, offset += IV_BYTES);
+    const tag = data.subarray(offset, offset += TAG_BYTES);
+    return this.keyFor(fingerprint).open(iv, tag, data.subarray(offset));
+  }
+
+  encryptString(plaintext: string): string {
+    const { iv, tag, ciphertext } = this.seal(Buffer.from(plaintext, 'utf8'));
+    return `${STRING_PREFIX}${this.fingerprint}:${Buffer.concat([iv, tag, ciphertext]).toString('base64')}`;
+  }
+
+  /**
+   * Decrypt a stored string; plaintext is returned as it is
+   */
+  decryptString(value: string): string {
+    if (!isEncryptedString(value)) {
+      return value;
+    }
+    const [fingerprint, payload] = value.slice(STRING_PREFIX.length).split(':');
+    const data = Buffer.from(payload, 'base64');
+    return this.keyFor(fingerprint)
+      .open(data.subarray(0, IV_BYTES), data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES), data.subarray(IV_BYTES + TAG_BYTES))
+      .toString('utf8');
+  }
+
+  /**
+   * Whether a file's contents or a stored string are already encrypted with this key
+   */
+  owns(value: Buffer | string): boolean {
+    if (typeof value === 'string') {
+      return isEncryptedString(value) && value.startsWith(`${STRING_PREFIX}${this.fingerprint}:`);
+    }
+    return isEncryptedBuffer(value)
+      && value.subarray(FILE_MAGIC.length, FILE_MAGIC.length + FINGERPRINT_BYTES).toString('hex') === this.fingerprint;
+  }
+
+  private seal(plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.contentKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, tag: cipher.getAuthTag(), ciphertext };
+  }
+
+  private open(iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.contentKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  private keyFor(fingerprint: string): MemoryCipher {
+    const cipher = [this, ...this.previous].find(candidate => candidate.fingerprint === fingerprint);
+    if (!cipher) {
+      throw new Error(`Data is encrypted with another key (fingerprint ${fingerprint}, ours is ${this.fingerprint})`);
+    }
+    return cipher;
+  }
+}
+
+export function isEncryptedBuffer(data: Buffer): boolean {
+  return data.length >= FILE_MAGIC.length && data.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC);
+}
+
+export function isEncryptedString(value: string): boolean {
+  return value.startsWith(STRING_PREFIX);
+}
+
+function readMasterKey(source: KeySource, saltPath: string): Buffer {
+  if (source.keyFile) {
+    return parseKey(fs.readFileSync(source.keyFile, 'utf8'), source.keyFile);
+  }
+  if (source.keychain) {
+    const stored = execFileSync('security', ['find-generic-password', '-s', source.keychain, '-a', KEYCHAIN_ACCOUNT, '-w'], { encoding: 'utf8' });
+    return parseKey(stored, `Keychain item ${source.keychain}`);
+  }
+  if (source.passphrase) {
+    return crypto.scryptSync(source.passphrase, readSalt(saltPath), KEY_BYTES, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 });
+  }
+  throw new Error('No encryption key source given');
+}
+
+function parseKey(value: string, origin: string): Buffer {
+  const hex = value.trim();
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`${origin} must hold a ${KEY_BYTES}-byte key as ${KEY_BYTES * 2} hex characters`);
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * The passphrase salt isn't secret, but losing it loses the data: it is created once
+ * and then only read
+ */
+function readSalt(saltPath: string): Buffer {
+  if (!fs.existsSync(saltPath)) {
+    fs.mkdirSync(path.dirname(saltPath), { recursive: true });
+    fs.writeFileSync(saltPath, crypto.randomBytes(16).toString('hex'), { flag: 'wx' });
+  }
+  return Buffer.from(fs.readFileSync(saltPath, 'utf8').trim(), 'hex');
+}
+
+function derive(masterKey: Buffer, purpose: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', masterKey, Buffer.alloc(0), `photographic-memory/${purpose}`, KEY_BYTES));
+}
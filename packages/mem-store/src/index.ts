@@ -0,0 +1,6 @@
+export * from './embedding-providers';
+export * from './encryption';
+export * from './logger';
+export * from './migrations';
+export * from './topic-taxonomy';
+export * from './vector-store';
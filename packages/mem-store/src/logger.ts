@@ -0,0 +1,45 @@
+/**
+ * Logging
+ * The shared modules log through the logger of the service using them, installed at
+ * startup with useLogger, so their lines carry that service's name and transports.
+ * Until one is installed they write to the console.
+ */
+
+export interface Logger {
+  debug(message: string, ...meta: any[]): unknown;
+  info(message: string, ...meta: any[]): unknown;
+  warn(message: string, ...meta: any[]): unknown;
+  error(message: string, ...meta: any[]): unknown;
+}
+
+let factory: (module: string) => Logger = () => console;
+const modules = new Map<string, Logger>();
+
+/**
+ * Log through the service's loggers: `create` returns one for a module name
+ */
+export function useLogger(create: (module: string) => Logger): void {
+  factory = create;
+  modules.clear();
+}
+
+/**
+ * A module's logger; which service logger it writes to is looked up per line, so
+ * module-level loggers pick up useLogger calls made after they were created
+ */
+export function createLogger(module: string): Logger {
+  const target = () => {
+    let logger = modules.get(module);
+    if (!logger) {
+      logger = factory(module);
+      modules.set(module, logger);
+    }
+    return logger;
+  };
+  return {
+    debug: (message, ...meta) => target().debug(message, ...meta),
+    info: (message, ...meta) => target().info(message, ...meta),
+    warn: (message, ...meta) => target().warn(message, ...meta),
+    error: (message, ...meta) => target().error(message, ...meta)
+  };
+}
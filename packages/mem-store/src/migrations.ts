@@ -0,0 +1,447 @@
+/**
+ * Schema Migrations
+ * Numbered up-migrations, each applied in its own transaction and recorded in the
+ * schema_version table. Both services migrate the database at startup with this
+ * module, so whichever starts first upgrades it and the other finds nothing to do.
+ * Before the first migration touches an existing database it is copied to
+ * sqlite/backups/.
+ *
+ * Add a migration for every schema change; never edit one that has shipped.
+ */
+
+import * as sqlite3 from '@journeyapps/sqlcipher';
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+const logger = createLogger('migrations');
+
+/**
+ * The connection a migration runs on, inside its transaction
+ */
+export interface MigrationContext {
+  run(sql: string, params?: any[]): Promise<void>;
+  all<T = any>(sql: string, params?: any[]): Promise<T[]>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: MigrationContext): Promise<void>;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: string[];          // "<version>_<name>" of each migration applied
+  backupPath: string | null;  // Copy of the database from before the first one
+}
+
+// FTS5 columns every index must have; an older index is rebuilt to add them
+const REQUIRED_FTS_COLUMNS = ['asr_text', 'ui_text'];
+
+const BUSY_TIMEOUT_MS = 10000; // The other service may be migrating at the same moment
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: 'baseline', up: baseline },
+  { version: 2, name: 'fts_insert_rowid', up: ftsInsertRowid },
+  { version: 3, name: 'consistency_status', up: consistencyStatus },
+  { version: 4, name: 'pending_deletions', up: pendingDeletions }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export class SchemaMigrator {
+  private context: MigrationContext;
+
+  constructor(
+    private db: sqlite3.Database,
+    private dbPath: string,
+    private migrations: Migration[] = MIGRATIONS
+  ) {
+    this.context = {
+      run: (sql, params = []) => new Promise((resolve, reject) => {
+        this.db.run(sql, params, (err) => (err ? reject(err) : resolve()));
+      }),
+      all: (sql, params = []) => new Promise((resolve, reject) => {
+        this.db.all(sql, params, (err, rows: any[]) => (err ? reject(err) : resolve(rows)));
+      })
+    };
+  }
+
+  /**
+   * Schema version of the database: the last migration applied, 0 before any
+   */
+  async getVersion(): Promise<number> {
+    const table = await this.context.all("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+    if (table.length === 0) {
+      return 0;
+    }
+    const rows = await this.context.all<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_version');
+    return rows[0]?.version ?? 0;
+  }
+
+  /**
+   * Apply every pending migration in order. A database from a newer build is refused
+   * rather than used with a schema this one doesn't know.
+   */
+  async migrate(): Promise<MigrationResult> {
+    this.db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+
+    const latest = this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+    const from = await this.getVersion();
+    const result: MigrationResult = { from, to: from, applied: [], backupPath: null };
+    if (from > latest) {
+      throw new Error(`${this.dbPath} is at schema version ${from}, newer than this build supports (${latest}); update the services`);
+    }
+
+    for (const migration of this.migrations) {
+      if (migration.version <= result.to) continue;
+
+      // IMMEDIATE takes the write lock up front, so two services can't both apply it
+      await this.context.run('BEGIN IMMEDIATE');
+      try {
+        const current = await this.getVersion();
+        if (current >= migration.version) {
+          await this.context.run('COMMIT');
+          result.to = current;
+          continue;
+        }
+
+        if (result.backupPath === null && current === from && await this.hasData()) {
+          result.backupPath = this.backup(from);
+        }
+
+        await this.context.run(`
+          CREATE TABLE IF NOT EXISTS schema_version (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at INTEGER NOT NULL
+          )
+        `);
+        await migration.up(this.context);
+        await this.context.run(
+          'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, Date.now()]
+        );
+        await this.context.run('COMMIT');
+      } catch (error) {
+        await this.context.run('ROLLBACK').catch(() => undefined);
+        throw new Error(`Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      result.to = migration.version;
+      result.applied.push(`${migration.version}_${migration.name}`);
+      logger.info('Applied migration', { version: migration.version, name: migration.name });
+    }
+
+    if (result.applied.length > 0) {
+      logger.info('Database schema migrated', { ...result });
+    }
+    return result;
+  }
+
+  /**
+   * Whether the database holds anything worth backing up (a new one doesn't)
+   */
+  private async hasData(): Promise<boolean> {
+    const rows = await this.context.all("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories'");
+    return rows.length > 0;
+  }
+
+  /**
+   * Copy the database file (encrypted, if it is). Called holding the write lock, so
+   * every committed change is in the file and nothing else writes while it's copied.
+   */
+  private backup(version: number): string {
+    const backupDir = path.join(path.dirname(this.dbPath), 'backups');
+    fs.mkdirSync(backupDir, { recursive: true });
+    const backupPath = path.join(backupDir, `${path.basename(this.dbPath, '.db')}-v${version}-${Date.now()}.db`);
+    fs.copyFileSync(this.dbPath, backupPath);
+    logger.info('Backed up database before migrating', { backupPath, version });
+    return backupPath;
+  }
+}
+
+/**
+ * 1: the schema as it stood when versioning was introduced. Databases from before then
+ * (version 0) can be from any earlier release, so every step checks what's there.
+ */
+async function baseline(db: MigrationContext): Promise<void> {
+  // Create main memories table
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS memories (
+      id TEXT PRIMARY KEY,
+      ts INTEGER NOT NULL,
+      session_id TEXT,
+      app TEXT NOT NULL,
+      window_title TEXT,
+      url TEXT,
+      url_host TEXT,
+      media_path TEXT,
+      thumb_path TEXT,
+      ocr_text TEXT NOT NULL,
+      asr_text TEXT,
+      entities TEXT, -- JSON array
+      topics TEXT,   -- JSON array
+      video_processed INTEGER DEFAULT 0,
+      video_kept INTEGER DEFAULT 1,
+      similarity_score REAL DEFAULT 0.0,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+
+  // Columns added after the original schema
+  await ensureColumns(db, 'memories', {
+    linked_memory_id: 'TEXT', // Audio memories: the screen memory captured at the same moment
+    ui_text: 'TEXT',
+    text_source: "TEXT DEFAULT 'ocr'",
+    redactions: 'TEXT', // JSON object: redacted values by type
+    last_seen_ts: 'INTEGER', // Near-duplicate captures (see ingest/near-duplicates.ts)
+    duplicate_count: 'INTEGER DEFAULT 0',
+    text_simhash: 'TEXT',
+    renditions: 'TEXT', // JSON object: image files by rendition name (see media/renditions.ts)
+    ocr_boxes: 'TEXT',  // JSON array: OCR words' positions (see screenpipe/ocr-boxes.ts)
+    open_count: 'INTEGER DEFAULT 0', // Times opened from search (set by search-api)
+    last_opened_ts: 'INTEGER'
+  });
+
+  // FTS5 tables can't be altered; recreate one built before a column was indexed
+  const ftsSql = await schemaSql(db, 'memories_fts');
+  const rebuildFts = !!ftsSql && REQUIRED_FTS_COLUMNS.some(column => !ftsSql.includes(column));
+  if (rebuildFts) {
+    logger.info('Recreating FTS5 index to add columns', { columns: REQUIRED_FTS_COLUMNS });
+    await db.run('DROP TRIGGER IF EXISTS memories_fts_insert');
+    await db.run('DROP TRIGGER IF EXISTS memories_fts_delete');
+    await db.run('DROP TRIGGER IF EXISTS memories_fts_update');
+    await db.run('DROP TABLE memories_fts');
+  }
+
+  // Create FTS5 virtual table for full-text search
+  await db.run(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+      id UNINDEXED,
+      ocr_text,
+      window_title,
+      asr_text,
+      ui_text,
+      app UNINDEXED,
+      url_host UNINDEXED,
+      content='memories',
+      content_rowid='rowid'
+    )
+  `);
+
+  // Create indexes for performance
+  await db.run('CREATE INDEX IF NOT EXISTS idx_memories_ts ON memories(ts DESC)');
+  await db.run('CREATE INDEX IF NOT EXISTS idx_memories_app_ts ON memories(app, ts DESC)');
+  await db.run('CREATE INDEX IF NOT EXISTS idx_memories_url_host_ts ON memories(url_host, ts DESC)');
+  await db.run('CREATE INDEX IF NOT EXISTS idx_memories_session ON memories(session_id)');
+
+  // Create triggers to keep FTS5 in sync
+  await db.run(`
+    CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+      INSERT INTO memories_fts(id, ocr_text, window_title, asr_text, ui_text, app, url_host)
+      VALUES (new.id, new.ocr_text, new.window_title, new.asr_text, new.ui_text, new.app, new.url_host);
+    END
+  `);
+
+  // External-content FTS5 rows have to be removed with the 'delete' command; a plain
+  // DELETE on the FTS table leaves the index pointing at missing rows
+  let replacedTriggers = false;
+  for (const trigger of ['memories_fts_delete', 'memories_fts_update']) {
+    const triggerSql = await schemaSql(db, trigger);
+    if (triggerSql && triggerSql.includes('DELETE FROM memories_fts')) {
+      logger.info('Replacing FTS5 trigger', { trigger });
+      await db.run(`DROP TRIGGER ${trigger}`);
+      replacedTriggers = true;
+    }
+  }
+
+  await db.run(`
+    CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+      INSERT INTO memories_fts(memories_fts, rowid, id, ocr_text, window_title, asr_text, ui_text, app, url_host)
+      VALUES ('delete', old.rowid, old.id, old.ocr_text, old.window_title, old.asr_text, old.ui_text, old.app, old.url_host);
+    END
+  `);
+
+  // Only text changes touch the index; bookkeeping updates (last_seen_ts…) don't
+  await db.run(`
+    CREATE TRIGGER IF NOT EXISTS memories_fts_update
+    AFTER UPDATE OF id, ocr_text, window_title, asr_text, ui_text, app, url_host ON memories BEGIN
+      INSERT INTO memories_fts(memories_fts, rowid, id, ocr_text, window_title, asr_text, ui_text, app, url_host)
+      VALUES ('delete', old.rowid, old.id, old.ocr_text, old.window_title, old.asr_text, old.ui_text, old.app, old.url_host);
+      INSERT INTO memories_fts(rowid, id, ocr_text, window_title, asr_text, ui_text, app, url_host)
+      VALUES (new.rowid, new.id, new.ocr_text, new.window_title, new.asr_text, new.ui_text, new.app, new.url_host);
+    END
+  `);
+
+  if (rebuildFts || replacedTriggers) {
+    await db.run("INSERT INTO memories_fts(memories_fts) VALUES('rebuild')");
+  }
+
+  // Ingestion checkpoints, one row per Screenpipe content type
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS ingest_cursors (
+      source TEXT PRIMARY KEY,
+      last_timestamp INTEGER NOT NULL,
+      last_frame_id TEXT,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+
+  // Dead-letter queue for events that failed ingestion
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS failed_events (
+      event_id TEXT PRIMARY KEY,
+      event_json TEXT NOT NULL,
+      stage TEXT NOT NULL,
+      error TEXT,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      partial_json TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      first_failed_at INTEGER NOT NULL,
+      last_failed_at INTEGER NOT NULL,
+      next_retry_at INTEGER
+    )
+  `);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_failed_events_retry ON failed_events(status, next_retry_at)');
+
+  // One vector collection per embedding model; exactly one is active at a time
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS embedding_collections (
+      name TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      dimensions INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'building',
+      last_rowid INTEGER NOT NULL DEFAULT 0,
+      embedded_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      activated_at INTEGER
+    )
+  `);
+
+  // Runs of consecutive memories in the same app/site (see ingest/sessionizer.ts)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      start_ts INTEGER NOT NULL,
+      end_ts INTEGER NOT NULL,
+      app TEXT NOT NULL,
+      url_host TEXT,
+      title TEXT,
+      memory_count INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_end ON sessions(end_ts DESC)');
+
+  // Entities extracted from each memory (see ingest/entity-extractor.ts), for lookup by value
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS memory_entities (
+      memory_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      value TEXT NOT NULL,
+      norm TEXT NOT NULL, -- lowercased value
+      ts INTEGER NOT NULL,
+      PRIMARY KEY (memory_id, type, norm)
+    )
+  `);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_memory_entities_norm ON memory_entities(norm, type)');
+
+  // Perceptual hashes of recently kept frames, so video dedup survives restarts
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS frame_hashes (
+      memory_id TEXT PRIMARY KEY,
+      frame_key TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      dhash TEXT NOT NULL,
+      phash TEXT NOT NULL
+    )
+  `);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_frame_hashes_key_ts ON frame_hashes(frame_key, ts DESC)');
+
+  // Captures folded into an earlier memory with near-identical text
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS memory_duplicates (
+      id TEXT PRIMARY KEY,
+      canonical_id TEXT NOT NULL,
+      ts INTEGER NOT NULL
+    )
+  `);
+  await db.run('CREATE INDEX IF NOT EXISTS idx_memory_duplicates_canonical ON memory_duplicates(canonical_id)');
+
+  // Latest storage usage measurement, for search-api's /stats (see database/quota-manager.ts)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS storage_status (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      status_json TEXT NOT NULL,
+      measured_at INTEGER NOT NULL
+    )
+  `);
+}
+
+/**
+ * 2: the insert trigger gave FTS5 rows rowids of their own, so after deletes they could
+ * point at the wrong memory. Index rows now take the memory's rowid, and the index is
+ * rebuilt to fix rows indexed before.
+ */
+async function ftsInsertRowid(db: MigrationContext): Promise<void> {
+  await db.run('DROP TRIGGER IF EXISTS memories_fts_insert');
+  await db.run(`
+    CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+      INSERT INTO memories_fts(rowid, id, ocr_text, window_title, asr_text, ui_text, app, url_host)
+      VALUES (new.rowid, new.id, new.ocr_text, new.window_title, new.asr_text, new.ui_text, new.app, new.url_host);
+    END
+  `);
+  await db.run("INSERT INTO memories_fts(memories_fts) VALUES('rebuild')");
+}
+
+/**
+ * 3: the latest SQLite/vector store consistency check, for search-api's /health (see
+ * embeddings/consistency-job.ts in the ingest bridge)
+ */
+async function consistencyStatus(db: MigrationContext): Promise<void> {
+  await db.run(`
+    CREATE TABLE consistency_status (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      report_json TEXT NOT NULL,
+      checked_at INTEGER NOT NULL
+    )
+  `);
+}
+
+/**
+ * 4: vectors and files a purge still has to delete, recorded in the transaction that
+ * deletes their memories so a failure or crash after it can't leave them behind (see
+ * database/memory-purger.ts in the ingest bridge)
+ */
+async function pendingDeletions(db: MigrationContext): Promise<void> {
+  await db.run(`
+    CREATE TABLE pending_deletions (
+      kind TEXT NOT NULL CHECK (kind IN ('vector', 'file')),
+      target TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (kind, target)
+    )
+  `);
+}
+
+/**
+ * Add any missing columns to an existing table
+ */
+async function ensureColumns(db: MigrationContext, table: string, columns: { [name: string]: string }): Promise<void> {
+  const existing = (await db.all<{ name: string }>(`PRAGMA table_info(${table})`)).map(row => row.name);
+
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.includes(name)) {
+      await db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+      logger.info('Added column', { table, column: name });
+    }
+  }
+}
+
+async function schemaSql(db: MigrationContext, name: string): Promise<string | null> {
+  const rows = await db.all<{ sql: string }>('SELECT sql FROM sqlite_master WHERE name = ?', [name]);
+  return rows[0]?.sql ?? null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Topic Taxonomy
+ * The fixed set of categories memories are classified into, with the apps, sites and
+ * keywords that signal each one. Replace it with TOPIC_TAXONOMY_PATH (same JSON shape).
+ * The ingest bridge classifies memories and the search API reads query topics with it.
+ */
+
+import fs from 'fs';
+
+export interface TopicRule {
+  apps?: string[];     // App names, matched case-insensitively as substrings
+  hosts?: string[];    // URL hosts, matched as the host or a parent domain
+  keywords?: string[]; // Whole words or phrases in the memory text
+}
+
+export type TopicTaxonomy = { [topic: string]: TopicRule };
+
+export const DEFAULT_TAXONOMY: TopicTaxonomy = {
+  shopping: {
+    hosts: ['amazon.com', 'ebay.com', 'etsy.com', 'walmart.com', 'target.com', 'bestbuy.com', 'ikea.com', 'aliexpress.com'],
+    keywords: ['add to cart', 'buy now', 'checkout', 'price', 'in stock', 'free shipping', 'order', 'wishlist', 'gift', 'deal']
+  },
+  coding: {
+    apps: ['Code', 'Cursor', 'Xcode', 'IntelliJ', 'PyCharm', 'WebStorm', 'Terminal', 'iTerm', 'Warp', 'Vim'],
+    hosts: ['github.com', 'gitlab.com', 'stackoverflow.com', 'npmjs.com', 'developer.mozilla.org', 'pypi.org'],
+    keywords: ['function', 'const', 'import', 'class', 'commit', 'pull request', 'compile', 'stack trace', 'npm', 'git']
+  },
+  gaming: {
+    apps: ['Apex', 'Steam', 'Epic Games', 'Battle.net', 'Minecraft', 'Fortnite', 'League of Legends', 'Valorant'],
+    hosts: ['twitch.tv', 'steampowered.com', 'ign.com'],
+    keywords: ['kills', 'damage', 'victory', 'defeat', 'respawn', 'squad', 'match', 'level up', 'leaderboard']
+  },
+  communication: {
+    apps: ['Slack', 'Discord', 'Messages', 'Mail', 'Outlook', 'Teams', 'Zoom', 'WhatsApp', 'Telegram', 'Signal'],
+    hosts: ['mail.google.com', 'outlook.live.com', 'slack.com', 'discord.com', 'web.whatsapp.com'],
+    keywords: ['reply', 'inbox', 'sent', 'message', 'meeting', 'call', 'thread', 'dm', 'subject']
+  },
+  reading: {
+    apps: ['Books', 'Kindle', 'Preview', 'Notion', 'Obsidian'],
+    hosts: ['medium.com', 'substack.com', 'wikipedia.org', 'nytimes.com', 'news.ycombinator.com', 'arxiv.org'],
+    keywords: ['article', 'chapter', 'min read', 'abstract', 'newsletter', 'blog']
+  },
+  video: {
+    apps: ['QuickTime', 'VLC', 'IINA', 'Netflix'],
+    hosts: ['youtube.com', 'netflix.com', 'vimeo.com', 'hulu.com', 'disneyplus.com', 'primevideo.com'],
+    keywords: ['views', 'subscribe', 'watch', 'episode', 'season', 'playlist', 'trailer']
+  },
+  finance: {
+    apps: ['Robinhood', 'Excel', 'Numbers'],
+    hosts: ['chase.com', 'paypal.com', 'robinhood.com', 'coinbase.com', 'bankofamerica.com', 'mint.com', 'fidelity.com'],
+    keywords: ['balance', 'invoice', 'payment', 'transaction', 'budget', 'portfolio', 'tax', 'bank', 'statement', 'expense']
+  },
+  music: {
+    apps: ['Spotify', 'Music', 'SoundCloud'],
+    hosts: ['spotify.com', 'music.apple.com', 'soundcloud.com'],
+    keywords: ['album', 'artist', 'track', 'lyrics']
+  },
+  travel: {
+    hosts: ['booking.com', 'airbnb.com', 'expedia.com', 'kayak.com', 'maps.google.com', 'tripadvisor.com'],
+    keywords: ['flight', 'hotel', 'check-in', 'boarding pass', 'itinerary', 'reservation', 'departure']
+  },
+  social: {
+    hosts: ['twitter.com', 'x.com', 'facebook.com', 'instagram.com', 'linkedin.com', 'reddit.com', 'tiktok.com'],
+    keywords: ['followers', 'likes', 'retweet', 'comments', 'upvote', 'post']
+  }
+};
+
+/**
+ * The taxonomy at TOPIC_TAXONOMY_PATH, or the default one
+ */
+export function loadTaxonomy(filePath: string | undefined = process.env.TOPIC_TAXONOMY_PATH): TopicTaxonomy {
+  if (!filePath) {
+    return DEFAULT_TAXONOMY;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as TopicTaxonomy;
+}
@@ -0,0 +1,1106 @@
+/**
+ * Vector Store
+ * Where embeddings are kept and searched. The embedded store (the default) keeps them
+ * in vectors.db beside memories.db, under the same SQLCipher key, and answers a query
+ * by an exact cosine scan of the collection (narrowed by time and app first), so no
+ * second server is needed. The scan runs over an in-memory copy of the collection
+ * (VectorMatrix), loaded at the first query and brought up to date from a change log
+ * that every write to vectors.db appends to, including the other service's. VECTOR_STORE=chroma keeps them in a Chroma server at
+ * CHROMA_URL instead. Both services open the store through createVectorStore, so they
+ * always agree on where vectors live.
+ *
+ * An embedded collection can store its vectors compactly (VectorStorage): a byte
+ * (int8) or a bit (binary) per dimension instead of four, and only the first N
+ * dimensions (Matryoshka truncation). Queries stay float: int8 vectors are scored
+ * against the float query directly, and binary ones are ranked by Hamming distance,
+ * then the best candidates are rescored against the float query.
+ *
+ * Scale: the in-memory copy takes the stored size of the collection (bytesPerVector
+ * per vector, e.g. 6 KB for 1536 float dimensions), and every query touches all of it.
+ * That suits a few hundred thousand vectors at full precision; past that, store them
+ * as int8 or binary (a quarter and a thirty-second of the memory and scan) or use Chroma.
+ */
+
+import * as sqlite3 from '@journeyapps/sqlcipher';
+import { ChromaClient, Collection, IncludeEnum, Where } from 'chromadb';
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+const logger = createLogger('vector-store');
+
+/**
+ * What the embedded store needs of a MemoryCipher (encryption.ts) to open and
+ * re-encrypt vectors.db
+ */
+export interface DatabaseKey {
+  readonly fingerprint: string;
+  sqliteKeyPragma(): string;
+}
+
+export type VectorBackend = 'embedded' | 'chroma';
+
+export type VectorMetadata = { [key: string]: string | number | boolean };
+
+export interface VectorRecord {
+  id: string;
+  embedding: number[];
+  document: string;
+  metadata: VectorMetadata; // ts and app are what queries filter on
+}
+
+export interface StoredVector {
+  id: string;
+  document: string | null;
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch extends StoredVector {
+  distance: number; // Cosine distance: 0 is identical
+}
+
+export interface VectorFilter {
+  from?: number; // ts range, inclusive
+  to?: number;
+  apps?: string[];
+}
+
+export type VectorQuantization = 'none' | 'int8' | 'binary';
+
+/**
+ * How an embedded collection keeps its vectors, fixed when it is created
+ */
+export interface VectorStorage {
+  quantization: VectorQuantization;
+  dimensions: number | null; // Leading dimensions kept; null keeps them all
+}
+
+export const FULL_PRECISION: VectorStorage = { quantization: 'none', dimensions: null };
+
+/**
+ * Storage for new collections, from VECTOR_QUANTIZATION (none|int8|binary) and
+ * VECTOR_TRUNCATE_DIMENSIONS. Truncation only suits models trained for it
+ * (Matryoshka), such as OpenAI's text-embedding-3 models.
+ */
+export function vectorStorageFromEnv(): VectorStorage {
+  const quantization = process.env.VECTOR_QUANTIZATION || 'none';
+  if (quantization !== 'none' && quantization !== 'int8' && quantization !== 'binary') {
+    throw new Error(`Unknown VECTOR_QUANTIZATION: ${quantization} (expected none, int8 or binary)`);
+  }
+
+  const dimensions = process.env.VECTOR_TRUNCATE_DIMENSIONS ? parseInt(process.env.VECTOR_TRUNCATE_DIMENSIONS) : null;
+  if (dimensions !== null && !(dimensions > 0)) {
+    throw new Error(`VECTOR_TRUNCATE_DIMENSIONS must be a positive number, got ${process.env.VECTOR_TRUNCATE_DIMENSIONS}`);
+  }
+  return { quantization, dimensions };
+}
+
+/**
+ * Bytes one vector of a `dimensions`-dimensional model takes with `storage`
+ */
+export function bytesPerVector(storage: VectorStorage, dimensions: number): number {
+  const stored = Math.min(storage.dimensions ?? dimensions, dimensions);
+  switch (storage.quantization) {
+    case 'none': return stored * 4;
+    case 'int8': return stored + 4; // Plus a float32 scale
+    case 'binary': return Math.ceil(stored / 8);
+  }
+}
+
+export interface VectorCollection {
+  readonly name: string;
+  readonly storage: VectorStorage;
+  count(): Promise<number>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(embedding: number[], limit: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+  list(offset: number, limit: number): Promise<StoredVector[]>;
+  // A page with the vectors too, to copy a collection to another store
+  listRecords(offset: number, limit: number): Promise<VectorRecord[]>;
+  listIds(offset: number, limit: number): Promise<string[]>;
+  findIds(ids: string[]): Promise<Set<string>>;
+  // Replace documents and metadata, keeping the vectors
+  update(entries: StoredVector[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export interface VectorStore {
+  readonly backend: VectorBackend;
+  // Connect (and for the embedded store, unlock); fails if the store can't be read
+  open(): Promise<void>;
+  listCollections(): Promise<string[]>;
+  getCollection(name: string): Promise<VectorCollection | null>;
+  // `storage` applies only when the collection is created
+  getOrCreateCollection(name: string, metadata: VectorMetadata, storage?: VectorStorage): Promise<VectorCollection>;
+  // Re-encrypt with another key (key rotation)
+  rekey(next: DatabaseKey): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * The store chosen with VECTOR_STORE (embedded|chroma)
+ */
+export function createVectorStore(
+  cipher: DatabaseKey | null,
+  sqliteDir: string = './data/sqlite'
+): VectorStore {
+  const backend = process.env.VECTOR_STORE || 'embedded';
+  switch (backend) {
+    case 'embedded':
+      return new EmbeddedVectorStore(sqliteDir, cipher);
+    case 'chroma':
+      return new ChromaVectorStore(process.env.CHROMA_URL || 'http://localhost:8000');
+    default:
+      throw new Error(`Unknown VECTOR_STORE: ${backend} (expected embedded or chroma)`);
+  }
+}
+
+const EMBEDDED_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS vector_collections (
+    name TEXT PRIMARY KEY,
+    dimensions INTEGER,
+    metadata TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    quantization TEXT NOT NULL DEFAULT 'none',
+    stored_dimensions INTEGER
+  )`,
+  // Embeddings are stored unit-length (see encodeVector), so cosine similarity is a dot product
+  `CREATE TABLE IF NOT EXISTS vectors (
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    app TEXT NOT NULL,
+    embedding BLOB NOT NULL,
+    document TEXT,
+    metadata TEXT NOT NULL,
+    PRIMARY KEY (collection, id)
+  ) WITHOUT ROWID`,
+  'CREATE INDEX IF NOT EXISTS idx_vectors_ts ON vectors(collection, ts)',
+  // Every write to a vector, so a VectorMatrix can catch up without reloading
+  `CREATE TABLE IF NOT EXISTS vector_changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL
+  )`,
+  `CREATE TRIGGER IF NOT EXISTS vectors_inserted AFTER INSERT ON vectors BEGIN
+    INSERT INTO vector_changes (collection, id) VALUES (new.collection, new.id);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS vectors_updated AFTER UPDATE OF ts, app, embedding ON vectors BEGIN
+    INSERT INTO vector_changes (collection, id) VALUES (new.collection, new.id);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS vectors_deleted AFTER DELETE ON vectors BEGIN
+    INSERT INTO vector_changes (collection, id) VALUES (old.collection, old.id);
+  END`
+];
+
+// Columns added after the first release of the embedded store
+const EMBEDDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: 'vector_collections', column: 'quantization', definition: "TEXT NOT NULL DEFAULT 'none'" },
+  { table: 'vector_collections', column: 'stored_dimensions', definition: 'INTEGER' }
+];
+
+// Binary search rescores this many candidates per result against the float query
+const BINARY_RESCORE_FACTOR = 10;
+
+// Changes kept in vector_changes; a matrix further behind than this is reloaded
+const CHANGE_LOG_SIZE = 100000;
+
+/**
+ * Copy every entry of one collection into another, e.g. from Chroma into the embedded
+ * store. Entries are upserted, so an interrupted copy can be rerun. Returns the count.
+ */
+export async function copyCollection(source: VectorCollection, target: VectorCollection, pageSize: number = 500): Promise<number> {
+  let copied = 0;
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await source.listRecords(offset, pageSize);
+    if (page.length === 0) break;
+    await target.upsert(page);
+    copied += page.length;
+  }
+  logger.info('Copied vector collection', { collection: source.name, copied });
+  return copied;
+}
+
+const BUSY_TIMEOUT_MS = 10000;
+const WRITE_CHUNK_SIZE = 500;
+
+export class EmbeddedVectorStore implements VectorStore {
+  readonly backend = 'embedded';
+  private db: sqlite3.Database | null = null;
+  private opening: Promise<void> | null = null;
+  private dbPath: string;
+  private matrices = new Map<string, VectorMatrix>();
+  private syncing = new Map<string, Promise<VectorMatrix>>();
+
+  constructor(private sqliteDir: string = './data/sqlite', private cipher: DatabaseKey | null = null) {
+    this.dbPath = path.join(sqliteDir, 'vectors.db');
+  }
+
+  open(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.openDatabase().catch(error => {
+        this.opening = null;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  private async openDatabase(): Promise<void> {
+    if (!fs.existsSync(this.sqliteDir)) {
+      fs.mkdirSync(this.sqliteDir, { recursive: true });
+    }
+
+    const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const opened = new sqlite3.Database(this.dbPath, (err) => (err ? reject(err) : resolve(opened)));
+    });
+    db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    this.db = db;
+
+    try {
+      if (this.cipher) {
+        await this.run(`PRAGMA key = ${this.cipher.sqliteKeyPragma()}`);
+      }
+      await this.run('SELECT COUNT(*) FROM sqlite_master');
+    } catch (error: any) {
+      this.db = null;
+      await new Promise<void>(resolve => db.close(() => resolve()));
+      if (error.code !== 'SQLITE_NOTADB') throw error;
+      throw new Error(this.cipher
+        ? `${this.dbPath} can't be read with encryption key ${this.cipher.fingerprint}`
+        : `${this.dbPath} is encrypted; set MEMORY_KEY_FILE, MEMORY_KEY_KEYCHAIN or MEMORY_PASSPHRASE`);
+    }
+
+    for (const sql of EMBEDDED_SCHEMA) {
+      await this.run(sql);
+    }
+    for (const { table, column, definition } of EMBEDDED_COLUMNS) {
+      const columns = await this.all(`PRAGMA table_info(${table})`);
+      if (!columns.some(row => row.name === column)) {
+        await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+    logger.info('Embedded vector store opened', { dbPath: this.dbPath, encrypted: !!this.cipher });
+  }
+
+  async listCollections(): Promise<string[]> {
+    await this.open();
+    const rows = await this.all('SELECT name FROM vector_collections ORDER BY name');
+    return rows.map(row => row.name);
+  }
+
+  async getCollection(name: string): Promise<VectorCollection | null> {
+    await this.open();
+    const [row] = await this.all(
+      'SELECT dimensions, quantization, stored_dimensions FROM vector_collections WHERE name = ?',
+      [name]
+    );
+    return row
+      ? new EmbeddedCollection(this, name, row.dimensions, { quantization: row.quantization, dimensions: row.stored_dimensions })
+      : null;
+  }
+
+  async getOrCreateCollection(name: string, metadata: VectorMetadata, storage: VectorStorage = FULL_PRECISION): Promise<VectorCollection> {
+    const existing = await this.getCollection(name);
+    if (existing) {
+      return existing;
+    }
+
+    const dimensions = typeof metadata.embedding_dim === 'number' ? metadata.embedding_dim : null;
+    const stored = clampStorage(storage, dimensions);
+    await this.run(
+      'INSERT OR IGNORE INTO vector_collections (name, dimensions, metadata, created_at, quantization, stored_dimensions) VALUES (?, ?, ?, ?, ?, ?)',
+      [name, dimensions, JSON.stringify(metadata), Date.now(), stored.quantization, stored.dimensions]
+    );
+    logger.info('Created embedded vector collection', { name, dimensions, storage: stored });
+    return (await this.getCollection(name))!;
+  }
+
+  /**
+   * Rewrite a collection's vectors with more compact storage, in one transaction, then
+   * return the freed pages to the disk. Precision that was never stored can't be
+   * regained, so storage can only shrink. Returns the vectors rewritten (none when the
+   * storage already matches) and their bytes before and after.
+   */
+  async recode(name: string, storage: VectorStorage): Promise<{ vectors: number; bytesBefore: number; bytesAfter: number }> {
+    const collection = await this.getCollection(name) as EmbeddedCollection | null;
+    if (!collection) {
+      throw new Error(`Unknown vector collection: ${name}`);
+    }
+
+    const source = collection.storage;
+    const target = clampStorage(storage, collection.dimensions);
+    const sourceDims = source.dimensions ?? collection.dimensions ?? Infinity;
+    const targetDims = target.dimensions ?? collection.dimensions ?? Infinity;
+    if (QUANTIZATION_PRECISION[target.quantization] > QUANTIZATION_PRECISION[source.quantization] || targetDims > sourceDims) {
+      throw new Error(`${name} is stored as ${describeStorage(source)}; it can't be rewritten as ${describeStorage(target)}`);
+    }
+
+    const [{ bytes: bytesBefore }] = await this.all(
+      'SELECT COALESCE(SUM(LENGTH(embedding)), 0) AS bytes FROM vectors WHERE collection = ?',
+      [name]
+    );
+    if (target.quantization === source.quantization && target.dimensions === source.dimensions) {
+      return { vectors: 0, bytesBefore, bytesAfter: bytesBefore };
+    }
+
+    let vectors = 0;
+    await this.run('BEGIN IMMEDIATE');
+    try {
+      for (let offset = 0; ; offset += WRITE_CHUNK_SIZE) {
+        const rows = await this.all(
+          'SELECT id, embedding FROM vectors WHERE collection = ? ORDER BY id LIMIT ? OFFSET ?',
+          [name, WRITE_CHUNK_SIZE, offset]
+        );
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          const recoded = encodeVector(decodeVector(row.embedding, source, collection.dimensions), target);
+          await this.run('UPDATE vectors SET embedding = ? WHERE collection = ? AND id = ?', [recoded, name, row.id]);
+        }
+        vectors += rows.length;
+      }
+      await this.run(
+        'UPDATE vector_collections SET quantization = ?, stored_dimensions = ? WHERE name = ?',
+        [target.quantization, target.dimensions, name]
+      );
+      await this.run('COMMIT');
+    } catch (error) {
+      await this.run('ROLLBACK');
+      throw error;
+    }
+    this.matrices.delete(name);
+    await this.trimChangeLog();
+
+    const [{ bytes: bytesAfter }] = await this.all(
+      'SELECT COALESCE(SUM(LENGTH(embedding)), 0) AS bytes FROM vectors WHERE collection = ?',
+      [name]
+    );
+    await this.run('VACUUM');
+    logger.info('Recoded vector collection', { name, from: describeStorage(source), to: describeStorage(target), vectors, bytesBefore, bytesAfter });
+    return { vectors, bytesBefore, bytesAfter };
+  }
+
+  /**
+   * Same as the database manager's rekey: PRAGMA rekey for an encrypted file, an
+   * encrypted export swapped in for a plaintext one. A file already on `next` is left
+   * alone, so an interrupted rotation can be rerun.
+   */
+  async rekey(next: DatabaseKey): Promise<void> {
+    await this.open();
+    if (this.cipher?.fingerprint === next.fingerprint) {
+      return;
+    }
+
+    if (this.cipher) {
+      await this.run(`PRAGMA rekey = ${next.sqliteKeyPragma()}`);
+      this.cipher = next;
+      logger.info('Vector store re-encrypted', { key: next.fingerprint });
+      return;
+    }
+
+    const encryptedPath = `${this.dbPath}.encrypting`;
+    fs.rmSync(encryptedPath, { force: true });
+    await this.run(`ATTACH DATABASE ? AS encrypted KEY ${next.sqliteKeyPragma()}`, [encryptedPath]);
+    await this.run("SELECT sqlcipher_export('encrypted')");
+    await this.run('DETACH DATABASE encrypted');
+
+    await this.close();
+    fs.renameSync(encryptedPath, this.dbPath);
+    this.cipher = next;
+    await this.open();
+    logger.info('Vector store encrypted', { key: next.fingerprint });
+  }
+
+  /**
+   * A collection's vectors in memory, caught up with every write logged since the last
+   * call. Loading one collection drops the others: a service queries only its active one.
+   */
+  matrix(name: string, storage: VectorStorage): Promise<VectorMatrix> {
+    let sync = this.syncing.get(name);
+    if (!sync) {
+      sync = this.syncMatrix(name, storage).finally(() => this.syncing.delete(name));
+      this.syncing.set(name, sync);
+    }
+    return sync;
+  }
+
+  private async syncMatrix(name: string, storage: VectorStorage): Promise<VectorMatrix> {
+    const [log] = await this.all('SELECT MIN(seq) AS first, MAX(seq) AS last FROM vector_changes');
+    const last: number = log.last ?? 0;
+    const current = this.matrices.get(name);
+
+    const stale = !current
+      || current.storage.quantization !== storage.quantization
+      || current.storage.dimensions !== storage.dimensions
+      || (log.first !== null && log.first > current.changeSeq + 1); // Changes trimmed before it saw them
+    if (stale) {
+      const matrix = new VectorMatrix(storage);
+      matrix.changeSeq = last;
+      await this.each(
+        'SELECT id, ts, app, embedding FROM vectors WHERE collection = ?',
+        [name],
+        row => matrix.set(row.id, row.ts, row.app, row.embedding)
+      );
+      this.matrices.clear();
+      this.matrices.set(name, matrix);
+      logger.info('Loaded vector collection into memory', { name, vectors: matrix.size, bytes: matrix.bytes });
+      return matrix;
+    }
+
+    if (last === current.changeSeq) {
+      return current;
+    }
+    const changed = await this.all(
+      'SELECT DISTINCT id FROM vector_changes WHERE collection = ? AND seq > ? AND seq <= ?',
+      [name, current.changeSeq, last]
+    );
+    for (let i = 0; i < changed.length; i += WRITE_CHUNK_SIZE) {
+      const ids: string[] = changed.slice(i, i + WRITE_CHUNK_SIZE).map(row => row.id);
+      const rows = await this.all(
+        `SELECT id, ts, app, embedding FROM vectors WHERE collection = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+        [name, ...ids]
+      );
+      const present = new Set<string>();
+      for (const row of rows) {
+        current.set(row.id, row.ts, row.app, row.embedding);
+        present.add(row.id);
+      }
+      ids.filter(id => !present.has(id)).forEach(id => current.remove(id));
+    }
+    current.changeSeq = last;
+    return current;
+  }
+
+  /**
+   * Keep the newest CHANGE_LOG_SIZE changes; matrices further behind reload instead
+   */
+  async trimChangeLog(): Promise<void> {
+    await this.run(
+      'DELETE FROM vector_changes WHERE seq <= (SELECT MAX(seq) FROM vector_changes) - ?',
+      [CHANGE_LOG_SIZE]
+    );
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    this.opening = null;
+    this.matrices.clear();
+    if (db) {
+      await new Promise<void>((resolve, reject) => db.close(err => (err ? reject(err) : resolve())));
+    }
+  }
+
+  run(sql: string, params: any[] = []): Promise<void> {
+    if (!this.db) throw new Error('Vector store not opened');
+    return new Promise((resolve, reject) => {
+      this.db!.run(sql, params, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  all(sql: string, params: any[] = []): Promise<any[]> {
+    if (!this.db) throw new Error('Vector store not opened');
+    return new Promise((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows: any[]) => (err ? reject(err) : resolve(rows)));
+    });
+  }
+
+  /**
+   * Visit rows one at a time, so loading a matrix never holds every row object at once
+   */
+  each(sql: string, params: any[], visit: (row: any) => void): Promise<void> {
+    if (!this.db) throw new Error('Vector store not opened');
+    return new Promise((resolve, reject) => {
+      let failure: Error | null = null;
+      this.db!.each(sql, params, (err, row) => {
+        if (err) {
+          failure = err;
+        } else if (!failure) {
+          visit(row);
+        }
+      }, (err) => (err || failure ? reject(err || failure) : resolve()));
+    });
+  }
+}
+
+class EmbeddedCollection implements VectorCollection {
+  constructor(
+    private store: EmbeddedVectorStore,
+    readonly name: string,
+    public dimensions: number | null,
+    readonly storage: VectorStorage
+  ) {}
+
+  async count(): Promise<number> {
+    const [row] = await this.store.all('SELECT COUNT(*) AS count FROM vectors WHERE collection = ?', [this.name]);
+    return row.count;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.checkDimensions(record.embedding, record.id);
+    }
+    if (this.dimensions === null && this.storage.dimensions === null && records.length > 0) {
+      // Created without embedding_dim: record it, since binary codes can't say how many
+      // of their bits are padding
+      this.dimensions = records[0].embedding.length;
+      await this.store.run(
+        'UPDATE vector_collections SET dimensions = ? WHERE name = ? AND dimensions IS NULL',
+        [this.dimensions, this.name]
+      );
+    }
+
+    for (let i = 0; i < records.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = records.slice(i, i + WRITE_CHUNK_SIZE);
+      await this.store.run(`
+        INSERT INTO vectors (collection, id, ts, app, embedding, document, metadata)
+        VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}
+        ON CONFLICT(collection, id) DO UPDATE SET
+          ts = excluded.ts, app = excluded.app, embedding = excluded.embedding,
+          document = excluded.document, metadata = excluded.metadata
+      `, chunk.flatMap(record => [
+        this.name,
+        record.id,
+        Number(record.metadata.ts) || 0,
+        String(record.metadata.app ?? ''),
+        encodeVector(record.embedding, this.storage),
+        record.document,
+        JSON.stringify(record.metadata)
+      ]));
+    }
+    await this.store.trimChangeLog();
+  }
+
+  async query(embedding: number[], limit: number, filter: VectorFilter = {}): Promise<VectorMatch[]> {
+    this.checkDimensions(embedding, 'query');
+    if (limit <= 0) {
+      return [];
+    }
+    const target = prepareVector(embedding, this.storage.dimensions);
+    const matrix = await this.store.matrix(this.name, this.storage);
+    const best = matrix.search(target, limit, filter);
+
+    const stored = new Map((await this.get(best.map(match => match.id))).map(entry => [entry.id, entry]));
+    return best
+      .filter(match => stored.has(match.id))
+      .map(match => ({ ...stored.get(match.id)!, distance: 1 - match.similarity }));
+  }
+
+  async list(offset: number, limit: number): Promise<StoredVector[]> {
+    const rows = await this.store.all(
+      'SELECT id, document, metadata FROM vectors WHERE collection = ? ORDER BY id LIMIT ? OFFSET ?',
+      [this.name, limit, offset]
+    );
+    return rows.map(toStoredVector);
+  }
+
+  async listRecords(offset: number, limit: number): Promise<VectorRecord[]> {
+    const rows = await this.store.all(
+      'SELECT id, embedding, document, metadata FROM vectors WHERE collection = ? ORDER BY id LIMIT ? OFFSET ?',
+      [this.name, limit, offset]
+    );
+    return rows.map(row => ({
+      ...toStoredVector(row),
+      embedding: Array.from(decodeVector(row.embedding, this.storage, this.dimensions)),
+      document: row.document ?? ''
+    }));
+  }
+
+  async listIds(offset: number, limit: number): Promise<string[]> {
+    const rows = await this.store.all(
+      'SELECT id FROM vectors WHERE collection = ? ORDER BY id LIMIT ? OFFSET ?',
+      [this.name, limit, offset]
+    );
+    return rows.map(row => row.id);
+  }
+
+  async findIds(ids: string[]): Promise<Set<string>> {
+    const found = new Set<string>();
+    for (let i = 0; i < ids.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + WRITE_CHUNK_SIZE);
+      const rows = await this.store.all(
+        `SELECT id FROM vectors WHERE collection = ? AND id IN (${chunk.map(() => '?').join(', ')})`,
+        [this.name, ...chunk]
+      );
+      rows.forEach(row => found.add(row.id));
+    }
+    return found;
+  }
+
+  async update(entries: StoredVector[]): Promise<void> {
+    for (const entry of entries) {
+      await this.store.run(
+        'UPDATE vectors SET document = ?, metadata = ? WHERE collection = ? AND id = ?',
+        [entry.document, JSON.stringify(entry.metadata), this.name, entry.id]
+      );
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + WRITE_CHUNK_SIZE);
+      await this.store.run(
+        `DELETE FROM vectors WHERE collection = ? AND id IN (${chunk.map(() => '?').join(', ')})`,
+        [this.name, ...chunk]
+      );
+    }
+    await this.store.trimChangeLog();
+  }
+
+  private async get(ids: string[]): Promise<StoredVector[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const rows = await this.store.all(
+      `SELECT id, document, metadata FROM vectors WHERE collection = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+      [this.name, ...ids]
+    );
+    return rows.map(toStoredVector);
+  }
+
+  /**
+   * The model's dimensions, or just the stored ones (vectors copied from a truncated
+   * collection)
+   */
+  private checkDimensions(embedding: number[], label: string): void {
+    if (this.dimensions !== null && embedding.length !== this.dimensions && embedding.length !== this.storage.dimensions) {
+      throw new Error(`Embedding for ${label} has ${embedding.length} dimensions; collection ${this.name} holds ${this.dimensions}`);
+    }
+  }
+}
+
+/**
+ * One collection's vectors in memory: a row per vector in a typed-array matrix, kept as
+ * stored (float32, int8 codes with their scale, or sign bits), with the ts and app that
+ * queries filter on. Removing a row moves the last one into its place.
+ */
+class VectorMatrix {
+  changeSeq = 0;               // Last vector_changes entry applied
+  private ids: string[] = [];
+  private apps: string[] = [];
+  private rows = new Map<string, number>();
+  private ts = new Float64Array(0);
+  private scales = new Float32Array(0); // Brings int8 codes to unit length; 1 otherwise
+  private values: Float32Array | Int8Array | Uint8Array;
+  private width = 0;           // Values per row, known from the first vector
+
+  constructor(readonly storage: VectorStorage) {
+    this.values = this.allocate(0);
+  }
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  get bytes(): number {
+    return this.size * this.width * this.values.BYTES_PER_ELEMENT;
+  }
+
+  set(id: string, ts: number, app: string, encoded: Buffer): void {
+    const { values, scale } = this.unpack(encoded);
+    if (this.width === 0) {
+      this.width = values.length;
+    } else if (values.length !== this.width) {
+      throw new Error(`Vector ${id} has ${values.length} stored values; the rest of its collection ${this.width}`);
+    }
+
+    let row = this.rows.get(id);
+    if (row === undefined) {
+      row = this.ids.length;
+      this.reserve(row + 1);
+      this.ids.push(id);
+      this.apps.push(app);
+      this.rows.set(id, row);
+    } else {
+      this.apps[row] = app;
+    }
+    this.ts[row] = ts;
+    this.scales[row] = scale;
+    this.values.set(values, row * this.width);
+  }
+
+  remove(id: string): void {
+    const row = this.rows.get(id);
+    if (row === undefined) return;
+
+    const last = this.ids.length - 1;
+    if (row !== last) {
+      this.ids[row] = this.ids[last];
+      this.apps[row] = this.apps[last];
+      this.ts[row] = this.ts[last];
+      this.scales[row] = this.scales[last];
+      this.values.copyWithin(row * this.width, last * this.width, (last + 1) * this.width);
+      this.rows.set(this.ids[row], row);
+    }
+    this.ids.pop();
+    this.apps.pop();
+    this.rows.delete(id);
+  }
+
+  /**
+   * The `limit` rows most similar to a float query (unit length, stored dimensions)
+   * among those passing the filter
+   */
+  search(query: Float32Array, limit: number, filter: VectorFilter): { id: string; similarity: number }[] {
+    const from = filter.from ?? -Infinity;
+    const to = filter.to ?? Infinity;
+    const apps = filter.apps && filter.apps.length > 0 ? new Set(filter.apps) : null;
+
+    const best: { row: number; similarity: number }[] = [];
+    if (this.storage.quantization === 'binary') {
+      // Nearest by Hamming distance first, then rescore those against the float query
+      const bits = encodeVector(query, { quantization: 'binary', dimensions: null });
+      const candidates: { row: number; similarity: number }[] = [];
+      for (let row = 0; row < this.ids.length; row++) {
+        if (this.ts[row] < from || this.ts[row] > to || (apps && !apps.has(this.apps[row]))) continue;
+        keepBest(candidates, limit * BINARY_RESCORE_FACTOR, { row, similarity: -this.hammingDistance(bits, row) });
+      }
+      for (const candidate of candidates) {
+        keepBest(best, limit, { row: candidate.row, similarity: this.score(query, candidate.row) });
+      }
+    } else {
+      for (let row = 0; row < this.ids.length; row++) {
+        if (this.ts[row] < from || this.ts[row] > to || (apps && !apps.has(this.apps[row]))) continue;
+        keepBest(best, limit, { row, similarity: this.score(query, row) });
+      }
+    }
+    return best.map(({ row, similarity }) => ({ id: this.ids[row], similarity }));
+  }
+
+  /**
+   * Cosine similarity of the query with a row, without decoding it
+   */
+  private score(query: Float32Array, row: number): number {
+    const values = this.values;
+    const offset = row * this.width;
+    let sum = 0;
+
+    if (this.storage.quantization === 'binary') {
+      for (let i = 0; i < query.length; i++) {
+        sum += values[offset + (i >> 3)] & (0x80 >> (i & 7)) ? query[i] : -query[i];
+      }
+      return sum / Math.sqrt(query.length);
+    }
+
+    for (let i = 0; i < query.length; i++) sum += query[i] * values[offset + i];
+    return sum * this.scales[row];
+  }
+
+  private hammingDistance(bits: Buffer, row: number): number {
+    const offset = row * this.width;
+    let distance = 0;
+    for (let i = 0; i < bits.length; i++) distance += POPCOUNT[bits[i] ^ this.values[offset + i]];
+    return distance;
+  }
+
+  private unpack(encoded: Buffer): { values: Float32Array | Int8Array | Uint8Array; scale: number } {
+    switch (this.storage.quantization) {
+      case 'int8':
+        return { values: new Int8Array(encoded.buffer, encoded.byteOffset + 4, encoded.length - 4), scale: encoded.readFloatLE(0) };
+      case 'binary':
+        return { values: encoded, scale: 1 };
+      default:
+        return { values: unpackVector(encoded), scale: 1 };
+    }
+  }
+
+  /**
+   * Room for `rows` rows, doubling the capacity when it runs out
+   */
+  private reserve(rows: number): void {
+    const capacity = this.ts.length;
+    if (rows <= capacity) return;
+
+    const next = Math.max(rows, capacity * 2, 1024);
+    const ts = new Float64Array(next);
+    ts.set(this.ts);
+    const scales = new Float32Array(next);
+    scales.set(this.scales);
+    const values = this.allocate(next * this.width);
+    values.set(this.values as any);
+    this.ts = ts;
+    this.scales = scales;
+    this.values = values;
+  }
+
+  private allocate(length: number): Float32Array | Int8Array | Uint8Array {
+    switch (this.storage.quantization) {
+      case 'int8':
+        return new Int8Array(length);
+      case 'binary':
+        return new Uint8Array(length);
+      default:
+        return new Float32Array(length);
+    }
+  }
+}
+
+function toStoredVector(row: any): StoredVector {
+  return { id: row.id, document: row.document, metadata: JSON.parse(row.metadata) };
+}
+
+const QUANTIZATION_PRECISION: Record<VectorQuantization, number> = { none: 2, int8: 1, binary: 0 };
+
+// Set bits in each byte value, for Hamming distances
+const POPCOUNT = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let bits = 0;
+  for (let value = byte; value; value >>= 1) bits += value & 1;
+  return bits;
+});
+
+function clampStorage(storage: VectorStorage, dimensions: number | null): VectorStorage {
+  const truncated = storage.dimensions !== null && (dimensions === null || storage.dimensions < dimensions);
+  return { quantization: storage.quantization, dimensions: truncated ? storage.dimensions : null };
+}
+
+function describeStorage(storage: VectorStorage): string {
+  return storage.dimensions === null ? storage.quantization : `${storage.quantization}, ${storage.dimensions} dimensions`;
+}
+
+/**
+ * Insert into a list kept in descending similarity, at most `limit` long
+ */
+function keepBest<T extends { similarity: number }>(best: T[], limit: number, item: T): void {
+  if (best.length === limit && item.similarity <= best[best.length - 1].similarity) return;
+
+  let index = best.length;
+  while (index > 0 && best[index - 1].similarity < item.similarity) index--;
+  best.splice(index, 0, item);
+  if (best.length > limit) best.pop();
+}
+
+/**
+ * The leading `dimensions` of a vector (all of them for null), at unit length
+ */
+function prepareVector(embedding: ArrayLike<number>, dimensions: number | null): Float32Array {
+  const length = dimensions === null ? embedding.length : Math.min(dimensions, embedding.length);
+  return normalize(Float32Array.from({ length }, (_, i) => embedding[i]));
+}
+
+/**
+ * Encode a vector for storage:
+ * - none: float32 per dimension
+ * - int8: a float32 factor, then a signed byte per dimension; codes times the factor
+ *   are unit length
+ * - binary: one sign bit per dimension, most significant bit first
+ */
+function encodeVector(embedding: ArrayLike<number>, storage: VectorStorage): Buffer {
+  const vector = prepareVector(embedding, storage.dimensions);
+
+  if (storage.quantization === 'int8') {
+    const max = vector.reduce((largest, value) => Math.max(largest, Math.abs(value)), 0);
+    const codes = Int8Array.from(vector, value => (max > 0 ? Math.round(value / max * 127) : 0));
+    const norm = Math.sqrt(codes.reduce((sum, code) => sum + code * code, 0));
+    const encoded = Buffer.alloc(4 + codes.length);
+    encoded.writeFloatLE(norm > 0 ? 1 / norm : 0, 0);
+    Buffer.from(codes.buffer).copy(encoded, 4);
+    return encoded;
+  }
+
+  if (storage.quantization === 'binary') {
+    const encoded = Buffer.alloc(Math.ceil(vector.length / 8));
+    for (let i = 0; i < vector.length; i++) {
+      if (vector[i] > 0) encoded[i >> 3] |= 0x80 >> (i & 7);
+    }
+    return encoded;
+  }
+
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * A stored vector back at unit length (approximately, when quantized). `dimensions` is
+ * the collection's, for binary codes, whose last byte may be padding.
+ */
+function decodeVector(encoded: Buffer, storage: VectorStorage, dimensions: number | null): Float32Array {
+  if (storage.quantization === 'int8') {
+    const factor = encoded.readFloatLE(0);
+    return Float32Array.from(new Int8Array(encoded.buffer, encoded.byteOffset + 4, encoded.length - 4), code => code * factor);
+  }
+
+  if (storage.quantization === 'binary') {
+    // Binary codes don't record the dimension count; collections without one in
+    // vector_collections (created without embedding_dim) take whatever fills the bytes
+    const stored = storage.dimensions ?? dimensions;
+    const length = stored === null ? encoded.length * 8 : Math.min(stored, encoded.length * 8);
+    const magnitude = 1 / Math.sqrt(length);
+    return Float32Array.from({ length }, (_, i) => (encoded[i >> 3] & (0x80 >> (i & 7)) ? magnitude : -magnitude));
+  }
+
+  return unpackVector(encoded);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function unpackVector(blob: Buffer): Float32Array {
+  // Float32Array needs 4-byte alignment, which a Buffer slice doesn't promise
+  const bytes = blob.byteOffset % 4 === 0 ? blob : Buffer.from(blob);
+  return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+}
+
+// Vectors are always passed in; Chroma never embeds anything itself
+const NO_EMBEDDING_FUNCTION = { generate: async (): Promise<number[][]> => [] };
+
+export class ChromaVectorStore implements VectorStore {
+  readonly backend = 'chroma';
+  private client: ChromaClient;
+
+  constructor(url: string = 'http://localhost:8000') {
+    this.client = new ChromaClient({ path: url });
+  }
+
+  async open(): Promise<void> {
+    await this.client.heartbeat();
+  }
+
+  listCollections(): Promise<string[]> {
+    return this.client.listCollections();
+  }
+
+  /**
+   * Listing first means an unreachable Chroma fails instead of looking empty
+   */
+  async getCollection(name: string): Promise<VectorCollection | null> {
+    const names = await this.listCollections();
+    if (!names.includes(name)) {
+      return null;
+    }
+    return new ChromaCollection(await this.client.getCollection({ name, embeddingFunction: NO_EMBEDDING_FUNCTION }));
+  }
+
+  async getOrCreateCollection(name: string, metadata: VectorMetadata, storage: VectorStorage = FULL_PRECISION): Promise<VectorCollection> {
+    if (storage.quantization !== 'none' || storage.dimensions !== null) {
+      logger.warn('Chroma keeps full-precision vectors; VECTOR_QUANTIZATION and VECTOR_TRUNCATE_DIMENSIONS only apply to the embedded store', { name });
+    }
+    const collection = await this.client.getOrCreateCollection({
+      name,
+      metadata: {
+        'hnsw:space': 'cosine',
+        'hnsw:construction_ef': 200,
+        'hnsw:M': 16,
+        ...metadata
+      },
+      embeddingFunction: NO_EMBEDDING_FUNCTION
+    });
+    return new ChromaCollection(collection);
+  }
+
+  /**
+   * Chroma's documents and text metadata are sealed value by value, which the
+   * embeddings service re-encrypts; there is no file key to change
+   */
+  async rekey(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+class ChromaCollection implements VectorCollection {
+  readonly name: string;
+  readonly storage = FULL_PRECISION;
+
+  constructor(private collection: Collection) {
+    this.name = collection.name;
+  }
+
+  count(): Promise<number> {
+    return this.collection.count();
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    await this.collection.upsert({
+      ids: records.map(record => record.id),
+      embeddings: records.map(record => record.embedding),
+      metadatas: records.map(record => record.metadata),
+      documents: records.map(record => record.document)
+    });
+  }
+
+  async query(embedding: number[], limit: number, filter: VectorFilter = {}): Promise<VectorMatch[]> {
+    const results = await this.collection.query({
+      queryEmbeddings: [embedding],
+      nResults: limit,
+      where: chromaWhere(filter),
+      include: [IncludeEnum.Metadatas, IncludeEnum.Documents, IncludeEnum.Distances]
+    });
+
+    const ids = results.ids[0] || [];
+    return ids.map((id, i) => ({
+      id,
+      distance: results.distances?.[0]?.[i] ?? 1,
+      document: results.documents?.[0]?.[i] ?? null,
+      metadata: (results.metadatas?.[0]?.[i] || {}) as VectorMetadata
+    }));
+  }
+
+  async list(offset: number, limit: number): Promise<StoredVector[]> {
+    const page = await this.collection.get({ offset, limit, include: [IncludeEnum.Documents, IncludeEnum.Metadatas] });
+    return page.ids.map((id, i) => ({
+      id,
+      document: page.documents?.[i] ?? null,
+      metadata: (page.metadatas?.[i] || {}) as VectorMetadata
+    }));
+  }
+
+  async listRecords(offset: number, limit: number): Promise<VectorRecord[]> {
+    const page = await this.collection.get({
+      offset,
+      limit,
+      include: [IncludeEnum.Embeddings, IncludeEnum.Documents, IncludeEnum.Metadatas]
+    });
+    return page.ids.map((id, i) => ({
+      id,
+      embedding: page.embeddings?.[i] || [],
+      document: page.documents?.[i] ?? '',
+      metadata: (page.metadatas?.[i] || {}) as VectorMetadata
+    }));
+  }
+
+  async listIds(offset: number, limit: number): Promise<string[]> {
+    const page = await this.collection.get({ offset, limit, include: [] });
+    return page.ids;
+  }
+
+  async findIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const found = await this.collection.get({ ids, include: [] });
+    return new Set(found.ids);
+  }
+
+  async update(entries: StoredVector[]): Promise<void> {
+    await this.collection.update({
+      ids: entries.map(entry => entry.id),
+      documents: entries.map(entry => entry.document ?? ''),
+      metadatas: entries.map(entry => entry.metadata)
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.collection.delete({ ids });
+  }
+}
+
+function chromaWhere(filter: VectorFilter): Where | undefined {
+  const conditions: Where[] = [];
+  if (filter.from !== undefined) {
+    conditions.push({ ts: { $gte: filter.from } });
+  }
+  if (filter.to !== undefined) {
+    conditions.push({ ts: { $lte: filter.to } });
+  }
+  if (filter.apps && filter.apps.length > 0) {
+    conditions.push({ app: { $in: filter.apps } });
+  }
+  // Chroma takes one field per clause; several are joined with $and
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
@@ -0,0 +1,588 @@
+#!/usr/bin/env tsx
+/**
+ * Ingest Bridge maintenance commands
+ * 
+ * Usage:
+ *   pnpm cli dead-letters list [pending|dead] [--limit N]
+ *   pnpm cli dead-letters retry <eventId...|--all>
+ *   pnpm cli dead-letters discard <eventId...|--all-dead>
+ *   pnpm cli embeddings status
+ *   pnpm cli embeddings reembed [--provider openai|local]
+ *   pnpm cli vectors status
+ *   pnpm cli vectors import-chroma [--url <chroma url>]
+ *   pnpm cli vectors compact [--collection <name>]
+ *   pnpm cli exclusions apply [--dry-run]
+ *   pnpm cli retention run [--dry-run]
+ *   pnpm cli storage status
+ *   pnpm cli storage enforce
+ *   pnpm cli consistency check [--repair]
+ *   pnpm cli fts verify-index
+ *   pnpm cli fts rebuild
+ *   pnpm cli encryption init --key-file <path> | --keychain <service>
+ *   pnpm cli encryption status
+ *   pnpm cli encryption rotate --new-key-file <path> | --new-keychain <service>
+ */
+
+import fs from 'fs';
+import {
+  ChromaVectorStore,
+  EmbeddedVectorStore,
+  MemoryCipher,
+  bytesPerVector,
+  copyCollection,
+  createEmbeddingProvider,
+  createVectorStore,
+  vectorStorageFromEnv
+} from '@photographic-memory/mem-store';
+import { IngestBridge } from './index';
+import { DatabaseManager } from './database/manager';
+import { DeadLetterQueue } from './ingest/dead-letter-queue';
+import { ReembedJob } from './embeddings/reembed-job';
+import { ExclusionRules } from './ingest/exclusion-rules';
+import { MemoryPurger } from './database/memory-purger';
+import { QuotaManager } from './database/quota-manager';
+import { ConsistencyJob } from './embeddings/consistency-job';
+import { EmbeddingsService } from './embeddings/service';
+import { RetentionJob } from './database/retention-job';
+import { RetentionPolicy } from './database/retention-policy';
+import { KeyRotation } from './security/key-rotation';
+
+type Command = (args: string[]) => Promise<void>;
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function withDatabase<T>(fn: (databaseManager: DatabaseManager) => Promise<T>): Promise<T> {
+  const databaseManager = new DatabaseManager();
+  await databaseManager.initialize();
+  try {
+    return await fn(databaseManager);
+  } finally {
+    await databaseManager.close();
+  }
+}
+
+const deadLetterCommands: { [name: string]: Command } = {
+  async list(args) {
+    const status = args.find(arg => arg === 'pending' || arg === 'dead') as 'pending' | 'dead' | undefined;
+    const limit = parseInt(readFlag(args, '--limit') || '50');
+
+    await withDatabase(async databaseManager => {
+      const queue = new DeadLetterQueue(databaseManager);
+      const [failed, counts] = await Promise.all([queue.list(status, limit), queue.getStats()]);
+
+      console.log(`Dead letters: ${counts.pending} pending, ${counts.dead} dead\n`);
+      for (const entry of failed) {
+        const next = entry.nextRetryAt ? new Date(entry.nextRetryAt).toISOString() : '-';
+        console.log(`${entry.eventId}  ${entry.status.padEnd(7)} stage=${entry.stage} attempts=${entry.attempts} next=${next}`);
+        console.log(`    ${entry.event.app} @ ${new Date(entry.event.timestamp).toISOString()}: ${entry.error}`);
+      }
+    });
+  },
+
+  async retry(args) {
+    const all = args.includes('--all');
+    const eventIds = args.filter(arg => !arg.startsWith('--'));
+    if (!all && eventIds.length === 0) {
+      throw new Error('Pass one or more event ids, or --all');
+    }
+
+    const bridge = new IngestBridge();
+    await bridge.initialize();
+    const results = await bridge.retryDeadLetters(all ? undefined : eventIds);
+
+    for (const result of results) {
+      console.log(`${result.success ? '✅' : '❌'} ${result.eventId}`);
+    }
+    console.log(`\nRetried ${results.length}, succeeded ${results.filter(r => r.success).length}`);
+  },
+
+  async discard(args) {
+    await withDatabase(async databaseManager => {
+      const queue = new DeadLetterQueue(databaseManager);
+      const eventIds = args.includes('--all-dead')
+        ? (await queue.list('dead', Number.MAX_SAFE_INTEGER)).map(entry => entry.eventId)
+        : args.filter(arg => !arg.startsWith('--'));
+
+      if (eventIds.length === 0) {
+        throw new Error('Pass one or more event ids, or --all-dead');
+      }
+
+      let discarded = 0;
+      for (const eventId of eventIds) {
+        if (await queue.discard(eventId)) discarded++;
+      }
+      console.log(`Discarded ${discarded} dead letter(s)`);
+    });
+  }
+};
+
+const embeddingCommands: { [name: string]: Command } = {
+  async status() {
+    await withDatabase(async databaseManager => {
+      const collections = await databaseManager.listEmbeddingCollections();
+      if (collections.length === 0) {
+        console.log('No embedding collections registered yet (the ingest bridge registers one on start)');
+      }
+
+      for (const row of collections) {
+        const remaining = row.status === 'building'
+          ? ` remaining=${await databaseManager.countMemoriesAfterRowid(row.last_rowid)}`
+          : '';
+        console.log(`${row.name}  ${row.status.padEnd(8)} ${row.provider}/${row.model} dim=${row.dimensions} embedded=${row.embedded_count}${remaining}`);
+      }
+    });
+  },
+
+  /**
+   * Re-embed every memory with the configured (or given) provider, then cut over.
+   * Ctrl+C stops after the current batch; running the command again resumes.
+   */
+  async reembed(args) {
+    const target = createEmbeddingProvider(readFlag(args, '--provider'));
+
+    await withDatabase(async databaseManager => {
+      const job = new ReembedJob(databaseManager);
+      const row = await job.prepare(target);
+      if (!row) {
+        console.log(`${target.model} is already the active embedding model`);
+        return;
+      }
+
+      process.once('SIGINT', () => {
+        console.log('\nStopping after the current batch...');
+        job.stop();
+      });
+
+      const outcome = await job.start(row.name, progress => {
+        console.log(`${progress.collection}: embedded ${progress.embedded}, ${progress.remaining} remaining`);
+      });
+
+      console.log(outcome === 'completed'
+        ? `✅ ${row.name} is now the active embedding collection`
+        : `Stopped; run the command again to resume ${row.name}`);
+    });
+  }
+};
+
+const vectorCommands: { [name: string]: Command } = {
+  async status() {
+    await withDatabase(async databaseManager => {
+      const store = createVectorStore(MemoryCipher.load());
+      try {
+        await store.open();
+        console.log(`Vector store: ${store.backend}`);
+        for (const row of await databaseManager.listEmbeddingCollections()) {
+          const collection = await store.getCollection(row.name);
+          if (!collection) {
+            console.log(`${row.name}  ${row.status.padEnd(8)} vectors=0`);
+            continue;
+          }
+          const { quantization, dimensions } = collection.storage;
+          const bytes = bytesPerVector(collection.storage, row.dimensions);
+          console.log(`${row.name}  ${row.status.padEnd(8)} vectors=${await collection.count()} storage=${quantization} dim=${dimensions ?? row.dimensions} bytes/vector=${bytes}`);
+        }
+      } finally {
+        await store.close();
+      }
+    });
+  },
+
+  /**
+   * Copy every registered collection from a Chroma server into the embedded store, for
+   * vectors written before Chroma became optional. Rerunning it only overwrites.
+   */
+  async 'import-chroma'(args) {
+    const url = readFlag(args, '--url') || process.env.CHROMA_URL || 'http://localhost:8000';
+
+    await withDatabase(async databaseManager => {
+      const source = new ChromaVectorStore(url);
+      const target = new EmbeddedVectorStore(undefined, MemoryCipher.load());
+      try {
+        await source.open();
+        await target.open();
+        for (const row of await databaseManager.listEmbeddingCollections()) {
+          const from = await source.getCollection(row.name);
+          if (!from) {
+            console.log(`${row.name}: not in Chroma, skipped`);
+            continue;
+          }
+          const to = await target.getOrCreateCollection(row.name, {
+            embedding_provider: row.provider,
+            embedding_model: row.model,
+            embedding_dim: row.dimensions
+          }, vectorStorageFromEnv());
+          console.log(`${row.name}: copied ${await copyCollection(from, to)} vectors`);
+        }
+      } finally {
+        await target.close();
+      }
+    });
+  },
+
+  /**
+   * Rewrite embedded collections (every registered one, or just --collection) with the
+   * configured VECTOR_QUANTIZATION and VECTOR_TRUNCATE_DIMENSIONS, which otherwise only
+   * apply to new collections. Storage can only shrink: dropped precision is gone.
+   */
+  async compact(args) {
+    const storage = vectorStorageFromEnv();
+    const only = readFlag(args, '--collection');
+
+    await withDatabase(async databaseManager => {
+      const store = new EmbeddedVectorStore(undefined, MemoryCipher.load());
+      try {
+        await store.open();
+        const rows = (await databaseManager.listEmbeddingCollections()).filter(row => !only || row.name === only);
+        if (only && rows.length === 0) {
+          throw new Error(`Unknown embedding collection: ${only}`);
+        }
+
+        for (const row of rows) {
+          if (!(await store.getCollection(row.name))) {
+            console.log(`${row.name}: not in the embedded store, skipped`);
+            continue;
+          }
+          const result = await store.recode(row.name, storage);
+          const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+          console.log(result.vectors === 0
+            ? `${row.name}: already stored as configured`
+            : `✅ ${row.name}: rewrote ${result.vectors} vectors, ${mb(result.bytesBefore)} -> ${mb(result.bytesAfter)}`);
+        }
+      } finally {
+        await store.close();
+      }
+    });
+  }
+};
+
+const exclusionCommands: { [name: string]: Command } = {
+  /**
+   * Delete stored memories that match the current exclusion rules, e.g. after adding
+   * a rule for an app that was already captured
+   */
+  async apply(args) {
+    const dryRun = args.includes('--dry-run');
+    const filePath = process.env.EXCLUSION_RULES_PATH;
+    if (!filePath) {
+      throw new Error('EXCLUSION_RULES_PATH is not set');
+    }
+    const rules = new ExclusionRules(filePath);
+    if (rules.getStats().rules === 0) {
+      console.log(`No exclusion rules in ${filePath}`);
+      return;
+    }
+
+    await withDatabase(async databaseManager => {
+      const matches: string[] = [];
+      const byRule: { [rule: string]: number } = {};
+      let afterRowid = 0;
+
+      for (;;) {
+        const page = await databaseManager.getMemoriesAfterRowid(afterRowid, 500);
+        if (page.length === 0) break;
+
+        for (const { memory } of page) {
+          const rule = rules.match(memory);
+          if (rule) {
+            matches.push(memory.id);
+            byRule[rule] = (byRule[rule] || 0) + 1;
+          }
+        }
+        afterRowid = page[page.length - 1].rowid;
+      }
+
+      for (const [rule, count] of Object.entries(byRule)) {
+        console.log(`${rule}: ${count} memories`);
+      }
+      if (dryRun || matches.length === 0) {
+        console.log(`${matches.length} memories match${dryRun ? ' (dry run, nothing deleted)' : ''}`);
+        return;
+      }
+
+      const purger = new MemoryPurger(databaseManager);
+      let thumbnails = 0;
+      for (let i = 0; i < matches.length; i += 500) {
+        const result = await purger.purge(matches.slice(i, i + 500));
+        thumbnails += result.thumbnails;
+      }
+      console.log(`✅ Deleted ${matches.length} memories and ${thumbnails} thumbnails`);
+    });
+  }
+};
+
+const retentionCommands: { [name: string]: Command } = {
+  /**
+   * Apply the retention policy now instead of waiting for the scheduled run
+   */
+  async run(args) {
+    const dryRun = args.includes('--dry-run');
+    const policy = RetentionPolicy.load();
+    if (policy.shortestLimitDays() === null) {
+      console.log('No retention limits configured (set RETENTION_RULES_PATH); everything is kept');
+      return;
+    }
+
+    await withDatabase(async databaseManager => {
+      const report = await new RetentionJob(databaseManager, new MemoryPurger(databaseManager), policy).run({ dryRun });
+
+      for (const [rule, counts] of Object.entries(report.byRule)) {
+        console.log(`${rule}: ${counts.memories} memories, ${counts.thumbnails} thumbnails`);
+      }
+      if (dryRun) {
+        console.log(`${report.memories} memories and ${report.thumbnails} thumbnails expired (dry run, nothing deleted)`);
+        return;
+      }
+      console.log(`✅ Deleted ${report.memories} memories and the thumbnails of ${report.thumbnails} more (${report.files} files)`);
+    });
+  }
+};
+
+const storageCommands: { [name: string]: Command } = {
+  async status() {
+    await withDatabase(async databaseManager => {
+      const status = await new QuotaManager(databaseManager).measure();
+      const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+      for (const [category, usage] of Object.entries(status.categories)) {
+        console.log(`${category.padEnd(10)} ${mb(usage.bytes).padStart(10)}  ${usage.files} files`);
+      }
+      console.log(`\nTotal ${mb(status.usedBytes)} of ${status.quotaBytes === null ? 'unlimited (STORAGE_QUOTA_MB not set)' : mb(status.quotaBytes)}`);
+    });
+  },
+
+  /**
+   * Evict down to the quota now instead of waiting for the scheduled check
+   */
+  async enforce() {
+    await withDatabase(async databaseManager => {
+      const report = await new QuotaManager(databaseManager).enforce();
+      if (!report) {
+        console.log('Within quota, nothing evicted');
+        return;
+      }
+      console.log(`✅ Deleted ${report.media} duplicate-frame media files, the thumbnails of ${report.thumbnails} memories and ${report.memories} memories (~${(report.freedBytes / (1024 * 1024)).toFixed(1)}MB)`);
+    });
+  }
+};
+
+const consistencyCommands: { [name: string]: Command } = {
+  /**
+   * Compare SQLite with the active vector collection now; --repair embeds missing
+   * memories and deletes orphaned vectors
+   */
+  async check(args) {
+    const repair = args.includes('--repair');
+
+    await withDatabase(async databaseManager => {
+      const embeddings = new EmbeddingsService();
+      await embeddings.initialize({ databaseManager });
+      const report = await new ConsistencyJob(databaseManager, embeddings).run({ repair }).finally(() => embeddings.close());
+
+      console.log(`${report.collection}: ${report.memories} memories, ${report.vectors} vectors`);
+      console.log(`Memories without a vector: ${report.missing}, vectors without a memory: ${report.orphaned}`);
+      if (report.repaired) {
+        console.log(`✅ Embedded ${report.repaired.embedded} memories and deleted ${report.repaired.deleted} orphaned vectors`);
+      } else if (report.missing > 0 || report.orphaned > 0) {
+        console.log('Run again with --repair to fix them');
+      }
+    });
+  }
+};
+
+const ftsCommands: { [name: string]: Command } = {
+  /**
+   * Check the FTS5 index against the memories table; fails when they differ
+   */
+  async 'verify-index'() {
+    await withDatabase(async databaseManager => {
+      const report = await databaseManager.verifyFtsIndex();
+      console.log(`Memories: ${report.memories}, indexed: ${report.indexed}`);
+      console.log(`Missing from the index: ${report.missing}, orphaned index rows: ${report.orphaned}`);
+      console.log(`Indexed text matches memories: ${report.contentMatches ? 'yes' : 'no'}`);
+      if (!report.consistent) {
+        throw new Error('The FTS5 index is out of sync; run `pnpm cli fts rebuild`');
+      }
+      console.log('✅ The FTS5 index is in sync');
+    });
+  },
+
+  /**
+   * Regenerate the index from the memories table; the services can keep running
+   */
+  async rebuild() {
+    await withDatabase(async databaseManager => {
+      const startedAt = Date.now();
+      await databaseManager.rebuildFtsIndex();
+      const report = await databaseManager.verifyFtsIndex();
+      console.log(`✅ Rebuilt the FTS5 index over ${report.indexed} memories in ${Date.now() - startedAt}ms`);
+    });
+  }
+};
+
+function describeKeySource(): string {
+  if (process.env.MEMORY_KEY_FILE) return `key file ${process.env.MEMORY_KEY_FILE}`;
+  if (process.env.MEMORY_KEY_KEYCHAIN) return `Keychain item ${process.env.MEMORY_KEY_KEYCHAIN}`;
+  if (process.env.MEMORY_PASSPHRASE) return 'passphrase (MEMORY_PASSPHRASE)';
+  return 'none';
+}
+
+const encryptionCommands: { [name: string]: Command } = {
+  /**
+   * Create a new random key in a file (readable only by you) or a Keychain item
+   */
+  async init(args) {
+    const keyFile = readFlag(args, '--key-file');
+    const keychain = readFlag(args, '--keychain');
+    if (!keyFile && !keychain) {
+      throw new Error('Pass --key-file <path> or --keychain <service>');
+    }
+
+    const key = MemoryCipher.generateKey();
+    if (keyFile) {
+      fs.writeFileSync(keyFile, `${key}\n`, { mode: 0o600, flag: 'wx' }); // Never overwrite a key
+      console.log(`✅ Wrote a new key to ${keyFile}`);
+      console.log(`Set MEMORY_KEY_FILE=${keyFile}, or run \`pnpm cli encryption rotate --new-key-file ${keyFile}\` to encrypt existing data`);
+    } else {
+      MemoryCipher.storeInKeychain(keychain!, key);
+      console.log(`✅ Stored a new key in Keychain item ${keychain}`);
+      console.log(`Set MEMORY_KEY_KEYCHAIN=${keychain}, or run \`pnpm cli encryption rotate --new-keychain ${keychain}\` to encrypt existing data`);
+    }
+    console.log(`Key fingerprint: ${new MemoryCipher(Buffer.from(key, 'hex')).fingerprint}. Back the key up: without it nothing can be read.`);
+  },
+
+  async status() {
+    const cipher = MemoryCipher.load();
+    console.log(`Key source: ${describeKeySource()}`);
+    console.log(cipher ? `Key fingerprint: ${cipher.fingerprint}` : 'Encryption is off');
+
+    // Opening the database checks the key
+    await withDatabase(async databaseManager => {
+      console.log(`Database: readable (${(await databaseManager.getStats()).totalMemories} memories)`);
+    });
+  },
+
+  /**
+   * Re-encrypt everything with a new key (or encrypt plaintext data). The current key
+   * comes from the usual environment; stop the services first.
+   */
+  async rotate(args) {
+    const keyFile = readFlag(args, '--new-key-file');
+    const keychain = readFlag(args, '--new-keychain');
+    const passphrase = process.env.MEMORY_NEW_PASSPHRASE;
+    if (!keyFile && !keychain && !passphrase) {
+      throw new Error('Pass --new-key-file <path> or --new-keychain <service>, or set MEMORY_NEW_PASSPHRASE');
+    }
+
+    const current = MemoryCipher.load();
+    const next = MemoryCipher.fromSource({ keyFile, keychain, passphrase });
+    if (current && current.fingerprint === next.fingerprint) {
+      throw new Error(`Everything is already encrypted with key ${next.fingerprint}`);
+    }
+
+    await withDatabase(async databaseManager => {
+      const report = await new KeyRotation(databaseManager, current).rotate(next);
+      console.log(`✅ Re-encrypted the database, ${report.vectors} vector entries and ${report.thumbnails} thumbnail files with key ${report.key}`);
+    });
+    const setting = keyFile ? `MEMORY_KEY_FILE=${keyFile}` : keychain ? `MEMORY_KEY_KEYCHAIN=${keychain}` : 'MEMORY_PASSPHRASE to the new passphrase';
+    console.log(`Set ${setting} before starting the services again`);
+  }
+};
+
+const commands: { [name: string]: Command } = {
+  async 'dead-letters'([sub, ...args]) {
+    const command = deadLetterCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown dead-letters command: ${sub ?? '(none)'} (expected list, retry or discard)`);
+    }
+    await command(args);
+  },
+
+  async embeddings([sub, ...args]) {
+    const command = embeddingCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown embeddings command: ${sub ?? '(none)'} (expected status or reembed)`);
+    }
+    await command(args);
+  },
+
+  async vectors([sub, ...args]) {
+    const command = vectorCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown vectors command: ${sub ?? '(none)'} (expected status, import-chroma or compact)`);
+    }
+    await command(args);
+  },
+
+  async exclusions([sub, ...args]) {
+    const command = exclusionCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown exclusions command: ${sub ?? '(none)'} (expected apply)`);
+    }
+    await command(args);
+  },
+
+  async retention([sub, ...args]) {
+    const command = retentionCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown retention command: ${sub ?? '(none)'} (expected run)`);
+    }
+    await command(args);
+  },
+
+  async storage([sub, ...args]) {
+    const command = storageCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown storage command: ${sub ?? '(none)'} (expected status or enforce)`);
+    }
+    await command(args);
+  },
+
+  async consistency([sub, ...args]) {
+    const command = consistencyCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown consistency command: ${sub ?? '(none)'} (expected check)`);
+    }
+    await command(args);
+  },
+
+  async fts([sub, ...args]) {
+    const command = ftsCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown fts command: ${sub ?? '(none)'} (expected verify-index or rebuild)`);
+    }
+    await command(args);
+  },
+
+  async encryption([sub, ...args]) {
+    const command = encryptionCommands[sub];
+    if (!command) {
+      throw new Error(`Unknown encryption command: ${sub ?? '(none)'} (expected init, status or rotate)`);
+    }
+    await command(args);
+  }
+};
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+  const command = commands[name];
+
+  if (!command) {
+    console.error(`Usage: pnpm cli <${Object.keys(commands).join('|')}> ...`);
+    process.exit(1);
+  }
+
+  try {
+    await command(args);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
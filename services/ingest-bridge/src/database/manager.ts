@@ -1,9 +1,11 @@
-import * as sqlite3 from 'sqlite3';
+import * as sqlite3 from '@journeyapps/sqlcipher';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
+import { MemoryCipher, SchemaMigrator } from '@photographic-memory/mem-store';
 import { logger } from '../utils/logger';
-import { MemoryObjectWithEmbedding } from '../types/memory';
+import { MemoryObjectWithEmbedding, RenditionManifest } from '../types/memory';
+import { IngestCursor } from '../screenpipe/client';
 
 interface DatabaseRow {
   id: string;
@@ -22,6 +24,100 @@ interface DatabaseRow {
   video_processed: number; // SQLite boolean (0/1)
   video_kept: number;      // SQLite boolean (0/1)
   similarity_score: number;
+  linked_memory_id: string | null;
+  ui_text: string | null;
+  text_source: string | null;
+  redactions: string | null;   // JSON string
+  renditions: string | null;   // JSON RenditionManifest
+  ocr_boxes: string | null;    // JSON OcrBox[]
+}
+
+// Columns written by storeMemoryObjects, in parameter order
+const MEMORY_COLUMNS = [
+  'id', 'ts', 'session_id', 'app', 'window_title', 'url', 'url_host',
+  'media_path', 'thumb_path', 'ocr_text', 'asr_text', 'entities', 'topics',
+  'video_processed', 'video_kept', 'similarity_score', 'linked_memory_id',
+  'ui_text', 'text_source', 'redactions', 'last_seen_ts', 'duplicate_count', 'text_simhash',
+  'renditions', 'ocr_boxes'
+];
+
+// Columns that only grow while a memory is stored. A retry of an older capture (e.g.
+// from the dead-letter queue) must not roll back dwell or duplicates recorded since.
+const MEMORY_MERGED_COLUMNS: Record<string, string> = {
+  last_seen_ts: 'MAX(COALESCE(memories.last_seen_ts, memories.ts), COALESCE(excluded.last_seen_ts, excluded.ts))',
+  duplicate_count: 'MAX(COALESCE(memories.duplicate_count, 0), COALESCE(excluded.duplicate_count, 0))'
+};
+
+// Assignments that overwrite a stored memory when it is stored again
+const MEMORY_UPSERT_SET = MEMORY_COLUMNS
+  .filter(column => column !== 'id')
+  .map(column => `${column} = ${MEMORY_MERGED_COLUMNS[column] || `excluded.${column}`}`)
+  .join(', ');
+
+// How much a memory is worth keeping when storage is over quota (see
+// database/quota-manager.ts): opens from search weigh most, then near-duplicate
+// captures and minutes on screen (dwell), each capped
+const IMPORTANCE_SQL = `(MIN(COALESCE(open_count, 0), 5) * 20
+  + MIN(COALESCE(duplicate_count, 0), 20)
+  + MIN((COALESCE(last_seen_ts, ts) - ts) / 60000, 30))`;
+
+export interface FailedEventRow {
+  event_id: string;
+  event_json: string;          // Raw ScreenpipeEvent
+  stage: string;               // IngestStage that threw
+  error: string;
+  attempts: number;
+  partial_json: string | null; // Memory object built before the failure
+  status: string;              // 'pending' | 'dead'
+  first_failed_at: number;
+  last_failed_at: number;
+  next_retry_at: number | null;
+}
+
+export interface EmbeddingCollectionRow {
+  name: string;            // Vector collection name
+  provider: string;        // EmbeddingProvider name
+  model: string;
+  dimensions: number;
+  status: string;          // 'building' | 'active' | 'retired'
+  last_rowid: number;      // Re-embed progress: memories up to this rowid are in the collection
+  embedded_count: number;
+  created_at: number;
+  activated_at: number | null;
+}
+
+export interface SessionRow {
+  id: string;
+  start_ts: number;
+  end_ts: number;
+  app: string;
+  url_host: string | null;
+  title: string | null;    // First window title seen in the session
+  memory_count: number;
+}
+
+export interface FrameHashRow {
+  memory_id: string;
+  frame_key: string;       // App and window title the frame belongs to
+  ts: number;
+  dhash: string;
+  phash: string;
+}
+
+// What a purge still has to delete outside SQLite: a memory's vectors (target is the
+// memory id) or a thumbnail/rendition file (target is its path)
+export type PendingDeletionKind = 'vector' | 'file';
+
+/**
+ * How the FTS5 index compares with the memories table
+ */
+export interface FtsIndexReport {
+  memories: number;
+  indexed: number;          // Rows in the index
+  missing: number;          // Memories the index has no row for
+  orphaned: number;         // Index rows whose memory is gone (or has another rowid)
+  contentMatches: boolean;  // FTS5's integrity check against the memories' current text
+  consistent: boolean;
 }
 
 export class DatabaseManager {
@@ -29,11 +125,13 @@ export class DatabaseManager {
   private dbPath: string;
   private dataDir: string;
   private isInitialized: boolean = false;
+  private writeQueue: Promise<unknown> = Promise.resolve(); // Writes and transactions run one at a time
+  private readonly INSERT_CHUNK_SIZE = 500; // Rows per INSERT, well under SQLite's bound-parameter limit
 
-  constructor(dataDir: string = './data/sqlite') {
+  constructor(dataDir: string = './data/sqlite', private cipher: MemoryCipher | null = MemoryCipher.load()) {
     this.dataDir = dataDir;
     this.dbPath = path.join(dataDir, 'memories.db');
-    logger.info('DatabaseManager initialized', { dbPath: this.dbPath });
+    logger.info('DatabaseManager initialized', { dbPath: this.dbPath, encrypted: !!this.cipher });
   }
 
   async initialize(): Promise<void> {
@@ -55,131 +153,792 @@ export class DatabaseManager {
     }
   }
 
-  private async initializeDatabase(): Promise<void> {
+  private async initializeDatabase(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db = new sqlite3.Database(this.dbPath, (err) => {
+        if (err) {
+          logger.error('Failed to open database:', err);
+          reject(err);
+          return;
+        }
+
+        logger.info('SQLite database opened successfully');
+        
+        // Bring the schema up to date
+        this.unlock()
+          .then(() => new SchemaMigrator(this.db!, this.dbPath).migrate())
+          .then(() => resolve())
+          .catch(reject);
+      });
+    });
+  }
+
+  /**
+   * SQLCipher needs the key before anything else reads the file. Reading the schema
+   * checks it, so a wrong or missing key fails at startup rather than mid-ingest.
+   */
+  private async unlock(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const run = (sql: string) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, (err) => (err ? reject(err) : resolve()));
+    });
+    if (this.cipher) {
+      await run(`PRAGMA key = ${this.cipher.sqliteKeyPragma()}`);
+    }
+
+    try {
+      await run('SELECT COUNT(*) FROM sqlite_master');
+    } catch (error: any) {
+      if (error.code !== 'SQLITE_NOTADB') throw error;
+      throw new Error(this.cipher
+        ? `${this.dbPath} can't be read with encryption key ${this.cipher.fingerprint}: it is plaintext (encrypt it with \`pnpm cli encryption rotate\`) or encrypted with another key`
+        : `${this.dbPath} is encrypted; set MEMORY_KEY_FILE, MEMORY_KEY_KEYCHAIN or MEMORY_PASSPHRASE`);
+    }
+  }
+
+  /**
+   * Run `work` once the writes queued before it have finished. The manager has a single
+   * connection: a write issued while a transaction is open would become part of it and
+   * be rolled back with it, so every write method goes through this queue.
+   */
+  private write<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Run `work` in one IMMEDIATE transaction, committed when it resolves and rolled back
+   * when it throws. It is queued with all other writes; `work` must not call the
+   * manager's write methods or start another transaction, which would wait on it.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const run = (sql: string) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, (err) => (err ? reject(err) : resolve()));
+    });
+    return this.write(async () => {
+      await run('BEGIN IMMEDIATE');
+      try {
+        const value = await work();
+        await run('COMMIT');
+        return value;
+      } catch (error) {
+        await run('ROLLBACK').catch(rollbackError => logger.error('Failed to roll back transaction:', rollbackError));
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Re-encrypt the database with another key, or encrypt a plaintext one (key
+   * rotation). The manager stays open, on the new key.
+   */
+  async rekey(next: MemoryCipher): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const run = (sql: string, params: any[] = []) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, params, (err) => (err ? reject(err) : resolve()));
+    });
+
+    await this.write(async () => {
+      if (this.cipher) {
+        await run(`PRAGMA rekey = ${next.sqliteKeyPragma()}`);
+        this.cipher = next;
+        logger.info('Database re-encrypted', { key: next.fingerprint });
+        return;
+      }
+
+      // A plaintext file can't be rekeyed: export into an encrypted copy and swap it in
+      const encryptedPath = `${this.dbPath}.encrypting`;
+      fs.rmSync(encryptedPath, { force: true });
+      await run(`ATTACH DATABASE ? AS encrypted KEY ${next.sqliteKeyPragma()}`, [encryptedPath]);
+      await run("SELECT sqlcipher_export('encrypted')");
+      await run('DETACH DATABASE encrypted');
+
+      await this.close();
+      fs.renameSync(encryptedPath, this.dbPath);
+      this.cipher = next;
+      await this.initializeDatabase();
+      logger.info('Database encrypted', { key: next.fingerprint });
+    });
+  }
+
+  async eventExists(eventId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      // Near-duplicates were ingested too, as links to their canonical memory
+      this.db!.get(`
+        SELECT 1 FROM memories WHERE id = ?
+        UNION ALL SELECT 1 FROM memory_duplicates WHERE id = ?
+      `, [eventId, eventId], (err, result) => {
+        if (err) {
+          logger.error('Failed to check if event exists:', err);
+          resolve(false);
+        } else {
+          resolve(!!result);
+        }
+      });
+    });
+  }
+
+  /**
+   * Load the persisted ingestion cursor for a Screenpipe content type
+   */
+  async getIngestCursor(source: string): Promise<IngestCursor | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        'SELECT last_timestamp, last_frame_id FROM ingest_cursors WHERE source = ?',
+        [source],
+        (err, row: any) => {
+          if (err) {
+            logger.error('Failed to load ingest cursor:', err);
+            reject(err);
+          } else {
+            resolve(row ? { lastTimestamp: row.last_timestamp, lastFrameId: row.last_frame_id } : null);
+          }
+        }
+      );
+    });
+  }
+
+  async saveIngestCursor(source: string, cursor: IngestCursor): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(`
+        INSERT INTO ingest_cursors (source, last_timestamp, last_frame_id, updated_at)
+        VALUES (?, ?, ?, strftime('%s', 'now'))
+        ON CONFLICT(source) DO UPDATE SET
+          last_timestamp = excluded.last_timestamp,
+          last_frame_id = excluded.last_frame_id,
+          updated_at = excluded.updated_at
+      `, [source, cursor.lastTimestamp, cursor.lastFrameId], (err) => {
+        if (err) {
+          logger.error('Failed to save ingest cursor:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  async getFailedEvent(eventId: string): Promise<FailedEventRow | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get('SELECT * FROM failed_events WHERE event_id = ?', [eventId], (err, row) => {
+        if (err) {
+          logger.error('Failed to get failed event:', err);
+          reject(err);
+        } else {
+          resolve((row as FailedEventRow) || null);
+        }
+      });
+    });
+  }
+
+  async upsertFailedEvent(row: FailedEventRow): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(`
+        INSERT INTO failed_events (
+          event_id, event_json, stage, error, attempts, partial_json,
+          status, first_failed_at, last_failed_at, next_retry_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(event_id) DO UPDATE SET
+          event_json = excluded.event_json,
+          stage = excluded.stage,
+          error = excluded.error,
+          attempts = excluded.attempts,
+          partial_json = excluded.partial_json,
+          status = excluded.status,
+          last_failed_at = excluded.last_failed_at,
+          next_retry_at = excluded.next_retry_at
+      `, [
+        row.event_id, row.event_json, row.stage, row.error, row.attempts, row.partial_json,
+        row.status, row.first_failed_at, row.last_failed_at, row.next_retry_at
+      ], (err) => {
+        if (err) {
+          logger.error('Failed to store failed event:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  async listFailedEvents(status?: string, limit: number = 50): Promise<FailedEventRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT * FROM failed_events';
+    const params: any[] = [];
+    if (status) {
+      query += ' WHERE status = ?';
+      params.push(status);
+    }
+    query += ' ORDER BY last_failed_at DESC LIMIT ?';
+    params.push(limit);
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(query, params, (err, rows) => {
+        if (err) {
+          logger.error('Failed to list failed events:', err);
+          reject(err);
+        } else {
+          resolve(rows as FailedEventRow[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Pending failures whose backoff has elapsed, oldest schedule first
+   */
+  async getDueFailedEvents(now: number, limit: number): Promise<FailedEventRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT * FROM failed_events
+        WHERE status = 'pending' AND next_retry_at <= ?
+        ORDER BY next_retry_at ASC
+        LIMIT ?
+      `, [now, limit], (err, rows) => {
+        if (err) {
+          logger.error('Failed to get due failed events:', err);
+          reject(err);
+        } else {
+          resolve(rows as FailedEventRow[]);
+        }
+      });
+    });
+  }
+
+  async deleteFailedEvent(eventId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<boolean>((resolve, reject) => {
+      this.db!.run('DELETE FROM failed_events WHERE event_id = ?', [eventId], function(err) {
+        if (err) {
+          logger.error('Failed to delete failed event:', err);
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    }));
+  }
+
+  async getFailedEventCounts(): Promise<{ pending: number; dead: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all('SELECT status, COUNT(*) as count FROM failed_events GROUP BY status', [], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to count failed events:', err);
+          reject(err);
+        } else {
+          const counts = { pending: 0, dead: 0 };
+          for (const row of rows) {
+            if (row.status === 'pending' || row.status === 'dead') {
+              counts[row.status as 'pending' | 'dead'] = row.count;
+            }
+          }
+          resolve(counts);
+        }
+      });
+    });
+  }
+
+  /**
+   * Find the screen memory captured closest to a timestamp, within ±windowMs
+   */
+  async findNearestScreenMemory(ts: number, windowMs: number): Promise<MemoryObjectWithEmbedding | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(`
+        SELECT * FROM memories
+        WHERE ts BETWEEN ? AND ? AND ocr_text != ''
+        ORDER BY ABS(ts - ?)
+        LIMIT 1
+      `, [ts - windowMs, ts + windowMs, ts], (err, row) => {
+        if (err) {
+          logger.error('Failed to find nearest screen memory:', err);
+          reject(err);
+        } else {
+          resolve(row ? this.rowToMemoryObject(row) : null);
+        }
+      });
+    });
+  }
+
+  async getEmbeddingCollection(name: string): Promise<EmbeddingCollectionRow | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get('SELECT * FROM embedding_collections WHERE name = ?', [name], (err, row) => {
+        if (err) {
+          logger.error('Failed to get embedding collection:', err);
+          reject(err);
+        } else {
+          resolve((row as EmbeddingCollectionRow) || null);
+        }
+      });
+    });
+  }
+
+  async getActiveEmbeddingCollection(): Promise<EmbeddingCollectionRow | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get("SELECT * FROM embedding_collections WHERE status = 'active'", [], (err, row) => {
+        if (err) {
+          logger.error('Failed to get active embedding collection:', err);
+          reject(err);
+        } else {
+          resolve((row as EmbeddingCollectionRow) || null);
+        }
+      });
+    });
+  }
+
+  async listEmbeddingCollections(): Promise<EmbeddingCollectionRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all('SELECT * FROM embedding_collections ORDER BY created_at', [], (err, rows) => {
+        if (err) {
+          logger.error('Failed to list embedding collections:', err);
+          reject(err);
+        } else {
+          resolve(rows as EmbeddingCollectionRow[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Register a collection, or reset an existing one to the given status and progress
+   */
+  async saveEmbeddingCollection(row: EmbeddingCollectionRow): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(`
+        INSERT INTO embedding_collections (
+          name, provider, model, dimensions, status, last_rowid, embedded_count, created_at, activated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(name) DO UPDATE SET
+          status = excluded.status,
+          last_rowid = excluded.last_rowid,
+          embedded_count = excluded.embedded_count,
+          activated_at = excluded.activated_at
+      `, [
+        row.name,
+        row.provider,
+        row.model,
+        row.dimensions,
+        row.status,
+        row.last_rowid,
+        row.embedded_count,
+        row.created_at,
+        row.activated_at
+      ], (err) => {
+        if (err) {
+          logger.error('Failed to save embedding collection:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  async updateEmbeddingCollectionProgress(name: string, lastRowid: number, embeddedCount: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        'UPDATE embedding_collections SET last_rowid = ?, embedded_count = ? WHERE name = ?',
+        [lastRowid, embeddedCount, name],
+        (err) => {
+          if (err) {
+            logger.error('Failed to update embedding collection progress:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        }
+      );
+    }));
+  }
+
+  async setEmbeddingCollectionStatus(name: string, status: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run('UPDATE embedding_collections SET status = ? WHERE name = ?', [status, name], (err) => {
+        if (err) {
+          logger.error('Failed to set embedding collection status:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  /**
+   * Make a collection the active one and retire the previous active collection.
+   * A single UPDATE, so readers never see zero or two active collections.
+   */
+  async activateEmbeddingCollection(name: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(`
+        UPDATE embedding_collections SET
+          status = CASE WHEN name = ? THEN 'active' ELSE 'retired' END,
+          activated_at = CASE WHEN name = ? THEN ? ELSE activated_at END
+        WHERE (name = ? OR status = 'active')
+          AND EXISTS (SELECT 1 FROM embedding_collections WHERE name = ?)
+      `, [name, name, Date.now(), name, name], function(err) {
+        if (err) {
+          logger.error('Failed to activate embedding collection:', err);
+          reject(err);
+        } else if (this.changes === 0) {
+          reject(new Error(`Unknown embedding collection: ${name}`));
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  /**
+   * The session that ends last, i.e. the one new memories may continue
+   */
+  async getLatestSession(): Promise<SessionRow | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get('SELECT * FROM sessions ORDER BY end_ts DESC LIMIT 1', [], (err, row) => {
+        if (err) {
+          logger.error('Failed to get latest session:', err);
+          reject(err);
+        } else {
+          resolve((row as SessionRow) || null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Sessions of the same app and site that span a timestamp, allowing gapMs at either
+   * end, latest first (used to place memories that arrive out of order)
+   */
+  async findSessionsAt(app: string, urlHost: string | null, ts: number, gapMs: number): Promise<SessionRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT * FROM sessions
+        WHERE app = ? AND url_host IS ? AND start_ts - ? <= ? AND end_ts + ? >= ?
+        ORDER BY end_ts DESC
+      `, [app, urlHost, gapMs, ts, gapMs, ts], (err, rows: SessionRow[]) => {
+        if (err) {
+          logger.error('Failed to find sessions:', err);
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  /**
+   * Insert or extend sessions. Runs after their memories are stored (in the same
+   * transaction): memory_count is recounted from the memories table so retried events
+   * aren't counted twice.
+   */
+  private async saveSessions(sessions: SessionRow[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const session of sessions) {
+      await new Promise<void>((resolve, reject) => {
+        this.db!.run(`
+          INSERT INTO sessions (id, start_ts, end_ts, app, url_host, title, memory_count)
+          VALUES (?, ?, ?, ?, ?, ?, (SELECT COUNT(*) FROM memories WHERE session_id = ?))
+          ON CONFLICT(id) DO UPDATE SET
+            start_ts = MIN(sessions.start_ts, excluded.start_ts),
+            end_ts = MAX(sessions.end_ts, excluded.end_ts),
+            title = COALESCE(sessions.title, excluded.title),
+            memory_count = excluded.memory_count
+        `, [
+          session.id,
+          session.start_ts,
+          session.end_ts,
+          session.app,
+          session.url_host,
+          session.title,
+          session.id
+        ], (err) => {
+          if (err) {
+            logger.error('Failed to save session:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        });
+      });
+    }
+  }
+
+  /**
+   * Most recent kept frames of an app/window since a timestamp, newest first
+   */
+  async getRecentFrameHashes(frameKey: string, sinceTs: number, limit: number): Promise<FrameHashRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        'SELECT * FROM frame_hashes WHERE frame_key = ? AND ts >= ? ORDER BY ts DESC LIMIT ?',
+        [frameKey, sinceTs, limit],
+        (err, rows: FrameHashRow[]) => {
+          if (err) {
+            logger.error('Failed to load frame hashes:', err);
+            reject(err);
+          } else {
+            resolve(rows);
+          }
+        }
+      );
+    });
+  }
+
+  async saveFrameHash(row: FrameHashRow): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        'INSERT OR REPLACE INTO frame_hashes (memory_id, frame_key, ts, dhash, phash) VALUES (?, ?, ?, ?, ?)',
+        [row.memory_id, row.frame_key, row.ts, row.dhash, row.phash],
+        (err) => {
+          if (err) {
+            logger.error('Failed to save frame hash:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        }
+      );
+    }));
+  }
+
+  /**
+   * Drop frame hashes too old to be compared against
+   */
+  async pruneFrameHashes(beforeTs: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<number>((resolve, reject) => {
+      this.db!.run('DELETE FROM frame_hashes WHERE ts < ?', [beforeTs], function(err) {
+        if (err) {
+          logger.error('Failed to prune frame hashes:', err);
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    }));
+  }
+
+  /**
+   * Memories of an app/window last seen since a timestamp that have a text SimHash, newest first
+   */
+  async getRecentTextHashes(
+    app: string,
+    windowTitle: string | null,
+    seenSinceTs: number,
+    limit: number
+  ): Promise<{ id: string; ts: number; last_seen_ts: number; text_simhash: string }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT id, ts, COALESCE(last_seen_ts, ts) AS last_seen_ts, text_simhash FROM memories
+        WHERE app = ? AND window_title IS ? AND COALESCE(last_seen_ts, ts) >= ? AND text_simhash IS NOT NULL
+        ORDER BY ts DESC
+        LIMIT ?
+      `, [app, windowTitle, seenSinceTs, limit], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to load text hashes:', err);
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  /**
+   * Link a near-duplicate capture to its canonical memory and extend the time the
+   * canonical memory (and its session) was on screen
+   */
+  async recordNearDuplicate(id: string, canonicalId: string, ts: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, params, (err) => {
+        if (err) {
+          logger.error('Failed to record near-duplicate:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    await this.write(async () => {
+      await run('INSERT OR IGNORE INTO memory_duplicates (id, canonical_id, ts) VALUES (?, ?, ?)', [id, canonicalId, ts]);
+      await run(`
+        UPDATE memories SET
+          last_seen_ts = MAX(COALESCE(last_seen_ts, ts), ?),
+          duplicate_count = (SELECT COUNT(*) FROM memory_duplicates WHERE canonical_id = ?)
+        WHERE id = ?
+      `, [ts, canonicalId, canonicalId]);
+      await run(`
+        UPDATE sessions SET end_ts = MAX(end_ts, ?)
+        WHERE id = (SELECT session_id FROM memories WHERE id = ?)
+      `, [ts, canonicalId]);
+    });
+  }
+
+  /**
+   * Page through memories in insertion order (used by the re-embed job)
+   */
+  async getMemoriesAfterRowid(
+    afterRowid: number,
+    limit: number
+  ): Promise<{ rowid: number; memory: MemoryObjectWithEmbedding }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        'SELECT rowid AS memory_rowid, * FROM memories WHERE rowid > ? ORDER BY rowid LIMIT ?',
+        [afterRowid, limit],
+        (err, rows: any[]) => {
+          if (err) {
+            logger.error('Failed to page memories by rowid:', err);
+            reject(err);
+          } else {
+            resolve(rows.map(row => ({ rowid: row.memory_rowid, memory: this.rowToMemoryObject(row) })));
+          }
+        }
+      );
+    });
+  }
+
+  async countMemoriesAfterRowid(afterRowid: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
     return new Promise((resolve, reject) => {
-      this.db = new sqlite3.Database(this.dbPath, (err) => {
+      this.db!.get('SELECT COUNT(*) as count FROM memories WHERE rowid > ?', [afterRowid], (err, row: any) => {
         if (err) {
-          logger.error('Failed to open database:', err);
+          logger.error('Failed to count memories:', err);
           reject(err);
-          return;
+        } else {
+          resolve(row.count);
         }
-
-        logger.info('SQLite database opened successfully');
-        
-        // Create tables and indexes
-        this.createTables()
-          .then(() => resolve())
-          .catch(reject);
       });
     });
   }
 
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  async storeMemoryObject(memoryObject: MemoryObjectWithEmbedding): Promise<void> {
+    return this.storeMemoryObjects([memoryObject]);
+  }
 
-    const runAsync = promisify(this.db.run.bind(this.db));
+  /**
+   * Store a batch of memory objects with the sessions they were assigned to
+   * 
+   * Memories are written in multi-row INSERTs of up to INSERT_CHUNK_SIZE rows. The
+   * memories, their FTS5 entries and entity rows, and the sessions are written in one
+   * transaction: either all of it lands or none does.
+   */
+  async storeMemoryObjects(memoryObjects: MemoryObjectWithEmbedding[], sessions: SessionRow[] = []): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    try {
-      // Create main memories table
-      await runAsync(`
-        CREATE TABLE IF NOT EXISTS memories (
-          id TEXT PRIMARY KEY,
-          ts INTEGER NOT NULL,
-          session_id TEXT,
-          app TEXT NOT NULL,
-          window_title TEXT,
-          url TEXT,
-          url_host TEXT,
-          media_path TEXT,
-          thumb_path TEXT,
-          ocr_text TEXT NOT NULL,
-          asr_text TEXT,
-          entities TEXT, -- JSON array
-          topics TEXT,   -- JSON array
-          video_processed INTEGER DEFAULT 0,
-          video_kept INTEGER DEFAULT 1,
-          similarity_score REAL DEFAULT 0.0,
-          created_at INTEGER DEFAULT (strftime('%s', 'now'))
-        )
-      `);
-
-      // Create FTS5 virtual table for full-text search
-      await runAsync(`
-        CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
-          id UNINDEXED,
-          ocr_text,
-          window_title,
-          app UNINDEXED,
-          url_host UNINDEXED,
-          content='memories',
-          content_rowid='rowid'
-        )
-      `);
-
-      // Create indexes for performance
-      await runAsync('CREATE INDEX IF NOT EXISTS idx_memories_ts ON memories(ts DESC)');
-      await runAsync('CREATE INDEX IF NOT EXISTS idx_memories_app_ts ON memories(app, ts DESC)');
-      await runAsync('CREATE INDEX IF NOT EXISTS idx_memories_url_host_ts ON memories(url_host, ts DESC)');
-      await runAsync('CREATE INDEX IF NOT EXISTS idx_memories_session ON memories(session_id)');
-
-      // Create triggers to keep FTS5 in sync
-      await runAsync(`
-        CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
-          INSERT INTO memories_fts(id, ocr_text, window_title, app, url_host)
-          VALUES (new.id, new.ocr_text, new.window_title, new.app, new.url_host);
-        END
-      `);
-
-      await runAsync(`
-        CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
-          DELETE FROM memories_fts WHERE id = old.id;
-        END
-      `);
-
-      await runAsync(`
-        CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE ON memories BEGIN
-          DELETE FROM memories_fts WHERE id = old.id;
-          INSERT INTO memories_fts(id, ocr_text, window_title, app, url_host)
-          VALUES (new.id, new.ocr_text, new.window_title, new.app, new.url_host);
-        END
-      `);
-
-      logger.info('Database tables and indexes created successfully');
-    } catch (error) {
-      logger.error('Failed to create database tables:', error);
-      throw error;
-    }
+    await this.transaction(async () => {
+      for (let i = 0; i < memoryObjects.length; i += this.INSERT_CHUNK_SIZE) {
+        const chunk = memoryObjects.slice(i, i + this.INSERT_CHUNK_SIZE);
+        await this.insertMemoryRows(chunk);
+        await this.replaceEntityRows(chunk);
+      }
+      await this.saveSessions(sessions);
+    });
   }
 
-  async eventExists(eventId: string): Promise<boolean> {
-    if (!this.db) throw new Error('Database not initialized');
+  /**
+   * Index each memory's "type:value" entities in memory_entities, replacing any
+   * rows from an earlier write of the same memory
+   */
+  private async replaceEntityRows(memoryObjects: MemoryObjectWithEmbedding[]): Promise<void> {
+    if (memoryObjects.length === 0) return;
 
-    return new Promise((resolve, reject) => {
-      this.db!.get('SELECT 1 FROM memories WHERE id = ?', [eventId], (err, result) => {
+    const rows = memoryObjects.flatMap(memoryObject =>
+      (memoryObject.entities || []).flatMap(entity => {
+        const separator = entity.indexOf(':');
+        if (separator <= 0) return [];
+        const value = entity.slice(separator + 1);
+        return [[memoryObject.id, entity.slice(0, separator), value, value.toLowerCase(), memoryObject.ts]];
+      })
+    );
+
+    const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, params, (err) => {
         if (err) {
-          logger.error('Failed to check if event exists:', err);
-          resolve(false);
+          logger.error('Failed to store memory entities:', err);
+          reject(err);
         } else {
-          resolve(!!result);
+          resolve();
         }
       });
     });
+
+    await run(
+      `DELETE FROM memory_entities WHERE memory_id IN (${memoryObjects.map(() => '?').join(', ')})`,
+      memoryObjects.map(memoryObject => memoryObject.id)
+    );
+    for (let i = 0; i < rows.length; i += this.INSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + this.INSERT_CHUNK_SIZE);
+      await run(
+        `INSERT OR IGNORE INTO memory_entities (memory_id, type, value, norm, ts) VALUES ${chunk.map(() => '(?, ?, ?, ?, ?)').join(', ')}`,
+        chunk.flat()
+      );
+    }
   }
 
-  async storeMemoryObject(memoryObject: MemoryObjectWithEmbedding): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  private async insertMemoryRows(memoryObjects: MemoryObjectWithEmbedding[]): Promise<void> {
+    if (memoryObjects.length === 0) return;
 
     return new Promise((resolve, reject) => {
-      logger.debug('Storing memory object', { 
-        id: memoryObject.id, 
-        app: memoryObject.app,
-        textLength: memoryObject.ocr_text?.length || 0,
-        hasEmbedding: !!memoryObject.embedding,
-        videoProcessed: memoryObject.video_processed
+      logger.debug('Storing memory objects', { 
+        count: memoryObjects.length,
+        ids: memoryObjects.map(m => m.id).slice(0, 5)
       });
 
       // Prepare data for insertion
-      const params = [
+      const params = memoryObjects.flatMap(memoryObject => [
         memoryObject.id,
         memoryObject.ts,
         memoryObject.session_id || null,
@@ -195,32 +954,454 @@ export class DatabaseManager {
         memoryObject.topics ? JSON.stringify(memoryObject.topics) : null,
         memoryObject.video_processed ? 1 : 0,
         memoryObject.video_kept !== false ? 1 : 0, // Default to true
-        memoryObject.similarity_score || 0.0
-      ];
+        memoryObject.similarity_score || 0.0,
+        memoryObject.linked_memory_id || null,
+        memoryObject.ui_text || null,
+        memoryObject.text_source || 'ocr',
+        memoryObject.redactions && Object.keys(memoryObject.redactions).length > 0
+          ? JSON.stringify(memoryObject.redactions)
+          : null,
+        memoryObject.last_seen_ts || null,
+        memoryObject.duplicate_count || 0,
+        memoryObject.text_simhash || null,
+        memoryObject.renditions ? JSON.stringify(memoryObject.renditions) : null,
+        memoryObject.ocr_boxes && memoryObject.ocr_boxes.length > 0 ? JSON.stringify(memoryObject.ocr_boxes) : null
+      ]);
+      const placeholders = memoryObjects
+        .map(() => `(${MEMORY_COLUMNS.map(() => '?').join(', ')})`)
+        .join(', ');
 
-      // Insert into main table (triggers will handle FTS5)
+      // Insert into main table (triggers will handle FTS5). An existing memory is updated
+      // in place: REPLACE would delete it without the delete trigger firing, orphaning
+      // its FTS5 row, and would reset what search-api records (open_count)
       this.db!.run(`
-        INSERT OR REPLACE INTO memories (
-          id, ts, session_id, app, window_title, url, url_host,
-          media_path, thumb_path, ocr_text, asr_text, entities, topics,
-          video_processed, video_kept, similarity_score
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO memories (${MEMORY_COLUMNS.join(', ')}) VALUES ${placeholders}
+        ON CONFLICT(id) DO UPDATE SET ${MEMORY_UPSERT_SET}
       `, params, function(err) {
         if (err) {
-          logger.error('Failed to store memory object:', err);
+          logger.error('Failed to store memory objects:', err);
+          reject(err);
+        } else {
+          logger.debug('Memory objects stored successfully', { 
+            count: memoryObjects.length,
+            newest: new Date(Math.max(...memoryObjects.map(m => m.ts))).toISOString()
+          });
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete memories with their entity rows (the FTS5 trigger drops their index entries)
+   * and shrink or remove the sessions they belonged to, in one transaction. The same
+   * transaction records their vectors, and the thumbnail and rendition files no remaining
+   * memory points at, as pending deletions for the purger.
+   */
+  async deleteMemories(ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (ids.length === 0) return;
+
+    const all = (sql: string, params: any[]) => new Promise<any[]>((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+    const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+    const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+    const renditionFiles = new Map<string, string[]>(); // By thumb_path
+    try {
+      return await this.transaction(async () => {
+        for (let i = 0; i < ids.length; i += this.INSERT_CHUNK_SIZE) {
+          const chunk = ids.slice(i, i + this.INSERT_CHUNK_SIZE);
+          const rows = await all(
+            `SELECT thumb_path, renditions, session_id FROM memories WHERE id IN (${placeholders(chunk)})`,
+            chunk
+          );
+          const sessionIds = [...new Set(rows.map(row => row.session_id).filter(Boolean))];
+          collectThumbFiles(rows, renditionFiles);
+
+          await run(`DELETE FROM memory_entities WHERE memory_id IN (${placeholders(chunk)})`, chunk);
+          await run(`DELETE FROM frame_hashes WHERE memory_id IN (${placeholders(chunk)})`, chunk);
+          await run(`DELETE FROM memory_duplicates WHERE canonical_id IN (${placeholders(chunk)})`, chunk);
+          await run(`DELETE FROM memories WHERE id IN (${placeholders(chunk)})`, chunk);
+
+          if (sessionIds.length > 0) {
+            await run(`
+              UPDATE sessions SET memory_count = (SELECT COUNT(*) FROM memories WHERE session_id = sessions.id)
+              WHERE id IN (${placeholders(sessionIds)})
+            `, sessionIds);
+            await run(`DELETE FROM sessions WHERE memory_count = 0 AND id IN (${placeholders(sessionIds)})`, sessionIds);
+          }
+        }
+
+        await this.recordPendingDeletions('vector', ids);
+        await this.recordPendingDeletions('file', await this.unreferencedThumbFiles(renditionFiles));
+      });
+      logger.debug('Deleted memories', { count: ids.length });
+    } catch (error) {
+      logger.error('Failed to delete memories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop memories' thumbnails and renditions while keeping the memories (retention), in
+   * one transaction that records the files no remaining memory points at as pending
+   * deletions for the purger.
+   */
+  async clearThumbnails(ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (ids.length === 0) return;
+
+    const renditionFiles = new Map<string, string[]>(); // By thumb_path
+    try {
+      await this.transaction(async () => {
+        for (let i = 0; i < ids.length; i += this.INSERT_CHUNK_SIZE) {
+          const chunk = ids.slice(i, i + this.INSERT_CHUNK_SIZE);
+          const marks = chunk.map(() => '?').join(', ');
+          const rows = await new Promise<any[]>((resolve, reject) => {
+            this.db!.all(`SELECT thumb_path, renditions FROM memories WHERE id IN (${marks})`, chunk, (err, rows: any[]) => {
+              if (err) reject(err);
+              else resolve(rows);
+            });
+          });
+          collectThumbFiles(rows, renditionFiles);
+
+          await new Promise<void>((resolve, reject) => {
+            this.db!.run(`UPDATE memories SET thumb_path = NULL, renditions = NULL WHERE id IN (${marks})`, chunk, (err) => {
+              if (err) reject(err);
+              else resolve();
+            });
+          });
+        }
+
+        await this.recordPendingDeletions('file', await this.unreferencedThumbFiles(renditionFiles));
+      });
+    } catch (error) {
+      logger.error('Failed to clear thumbnails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Memories old enough for retention to look at, in rowid order: last seen before
+   * `seenBefore` and either still holding a thumbnail or last seen before `keepBefore`
+   */
+  async getRetentionCandidates(
+    seenBefore: number,
+    keepBefore: number,
+    afterRowid: number,
+    limit: number
+  ): Promise<{ rowid: number; memory: MemoryObjectWithEmbedding }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT rowid AS memory_rowid, * FROM memories
+        WHERE rowid > ? AND COALESCE(last_seen_ts, ts) < ?
+          AND (thumb_path IS NOT NULL OR COALESCE(last_seen_ts, ts) < ?)
+        ORDER BY rowid LIMIT ?
+      `, [afterRowid, seenBefore, keepBefore, limit], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to page retention candidates:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({ rowid: row.memory_rowid, memory: this.rowToMemoryObject(row) })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Size of the database file, and how much of it holds data: pages freed by deletes
+   * are reused before the file grows again, so only used pages count against a quota
+   */
+  async getDatabaseUsage(): Promise<{ fileBytes: number; usedBytes: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const pragma = (name: string) => new Promise<number>((resolve, reject) => {
+      this.db!.get(`PRAGMA ${name}`, [], (err, row: any) => {
+        if (err) reject(err);
+        else resolve(Number(Object.values(row)[0]) || 0);
+      });
+    });
+    const [pageSize, pageCount, freePages] = await Promise.all([
+      pragma('page_size'),
+      pragma('page_count'),
+      pragma('freelist_count')
+    ]);
+
+    const fileBytes = [this.dbPath, `${this.dbPath}-wal`]
+      .filter(file => fs.existsSync(file))
+      .reduce((sum, file) => sum + fs.statSync(file).size, 0);
+    return { fileBytes, usedBytes: (pageCount - freePages) * pageSize };
+  }
+
+  /**
+   * Media files memories still point at, and whether any of those memories kept its
+   * frame (false: only duplicate frames use the file)
+   */
+  async getRetainedMedia(): Promise<{ path: string; kept: boolean }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT media_path, MAX(video_kept) AS kept FROM memories
+        WHERE media_path IS NOT NULL GROUP BY media_path
+      `, [], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to list retained media:', err);
           reject(err);
         } else {
-          logger.debug('Memory object stored successfully', { 
-            id: memoryObject.id,
-            app: memoryObject.app,
-            timestamp: new Date(memoryObject.ts).toISOString()
+          resolve(rows.map(row => ({ path: row.media_path, kept: !!row.kept })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Forget media files that were deleted (the memories stay)
+   */
+  async clearMediaPaths(paths: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.write(async () => {
+      for (let i = 0; i < paths.length; i += this.INSERT_CHUNK_SIZE) {
+        const chunk = paths.slice(i, i + this.INSERT_CHUNK_SIZE);
+        await new Promise<void>((resolve, reject) => {
+          this.db!.run(`UPDATE memories SET media_path = NULL WHERE media_path IN (${chunk.map(() => '?').join(', ')})`, chunk, (err) => {
+            if (err) reject(err);
+            else resolve();
           });
+        });
+      }
+    });
+  }
+
+  /**
+   * Memories last seen before `seenBefore` that still hold a thumbnail, least
+   * important first (then oldest)
+   */
+  async getThumbnailEvictionCandidates(seenBefore: number, limit: number): Promise<MemoryObjectWithEmbedding[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT * FROM memories
+        WHERE thumb_path IS NOT NULL AND COALESCE(last_seen_ts, ts) < ?
+        ORDER BY ${IMPORTANCE_SQL}, COALESCE(last_seen_ts, ts) LIMIT ?
+      `, [seenBefore, limit], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to get thumbnail eviction candidates:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.rowToMemoryObject(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * The oldest memories, those never opened from search before any that were
+   */
+  async getMemoryEvictionCandidates(limit: number): Promise<MemoryObjectWithEmbedding[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(`
+        SELECT * FROM memories
+        ORDER BY COALESCE(open_count, 0) > 0, COALESCE(last_seen_ts, ts) LIMIT ?
+      `, [limit], (err, rows: any[]) => {
+        if (err) {
+          logger.error('Failed to get memory eviction candidates:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.rowToMemoryObject(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Save the latest storage measurement (JSON StorageStatus)
+   */
+  async saveStorageStatus(status: object, measuredAt: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(`
+        INSERT INTO storage_status (id, status_json, measured_at) VALUES (1, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET status_json = excluded.status_json, measured_at = excluded.measured_at
+      `, [JSON.stringify(status), measuredAt], (err) => {
+        if (err) {
+          logger.error('Failed to save storage status:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  /**
+   * Save the latest SQLite/vector store consistency check (JSON ConsistencyReport)
+   */
+  async saveConsistencyReport(report: object, checkedAt: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run(`
+        INSERT INTO consistency_status (id, report_json, checked_at) VALUES (1, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET report_json = excluded.report_json, checked_at = excluded.checked_at
+      `, [JSON.stringify(report), checkedAt], (err) => {
+        if (err) {
+          logger.error('Failed to save consistency report:', err);
+          reject(err);
+        } else {
           resolve();
         }
       });
+    }));
+  }
+
+  /**
+   * The stored memories among the given ids (at most INSERT_CHUNK_SIZE of them)
+   */
+  async getMemoriesByIds(ids: string[]): Promise<MemoryObjectWithEmbedding[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (ids.length === 0) return [];
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM memories WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        ids,
+        (err, rows: any[]) => {
+          if (err) {
+            logger.error('Failed to get memories by id:', err);
+            reject(err);
+          } else {
+            resolve(rows.map(row => this.rowToMemoryObject(row)));
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Which of the given ids are stored memories
+   */
+  async findExistingMemoryIds(ids: string[]): Promise<Set<string>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const existing = new Set<string>();
+    for (let i = 0; i < ids.length; i += this.INSERT_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + this.INSERT_CHUNK_SIZE);
+      const rows = await new Promise<any[]>((resolve, reject) => {
+        this.db!.all(
+          `SELECT id FROM memories WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+          chunk,
+          (err, rows: any[]) => (err ? reject(err) : resolve(rows))
+        );
+      });
+      rows.forEach(row => existing.add(row.id));
+    }
+    return existing;
+  }
+
+  /**
+   * Pending deletions of a kind, oldest first; `offset` skips ones that failed again
+   */
+  async getPendingDeletions(kind: PendingDeletionKind, limit: number, offset: number = 0): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        'SELECT target FROM pending_deletions WHERE kind = ? ORDER BY created_at, target LIMIT ? OFFSET ?',
+        [kind, limit, offset],
+        (err, rows: any[]) => {
+          if (err) {
+            logger.error('Failed to get pending deletions:', err);
+            reject(err);
+          } else {
+            resolve(rows.map(row => row.target));
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Forget pending deletions that have been carried out
+   */
+  async clearPendingDeletions(kind: PendingDeletionKind, targets: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.write(async () => {
+      for (let i = 0; i < targets.length; i += this.INSERT_CHUNK_SIZE) {
+        const chunk = targets.slice(i, i + this.INSERT_CHUNK_SIZE);
+        await new Promise<void>((resolve, reject) => {
+          this.db!.run(
+            `DELETE FROM pending_deletions WHERE kind = ? AND target IN (${chunk.map(() => '?').join(', ')})`,
+            [kind, ...chunk],
+            (err) => (err ? reject(err) : resolve())
+          );
+        });
+      }
     });
   }
 
+  /**
+   * Record deletions for the purger to carry out; called inside the transaction that
+   * deletes what they belonged to
+   */
+  private async recordPendingDeletions(kind: PendingDeletionKind, targets: string[]): Promise<void> {
+    const now = Date.now();
+    for (let i = 0; i < targets.length; i += this.INSERT_CHUNK_SIZE) {
+      const chunk = targets.slice(i, i + this.INSERT_CHUNK_SIZE);
+      await new Promise<void>((resolve, reject) => {
+        this.db!.run(
+          `INSERT OR IGNORE INTO pending_deletions (kind, target, created_at) VALUES ${chunk.map(() => '(?, ?, ?)').join(', ')}`,
+          chunk.flatMap(target => [kind, target, now]),
+          (err) => (err ? reject(err) : resolve())
+        );
+      });
+    }
+  }
+
+  /**
+   * Of thumbnails taken off some memories, the files (thumbnail plus renditions) of
+   * those no memory points at any more. Audio memories share their screen memory's.
+   */
+  private async unreferencedThumbFiles(renditionFiles: Map<string, string[]>): Promise<string[]> {
+    const candidates = [...renditionFiles.keys()];
+    const referenced = new Set<string>();
+    for (let i = 0; i < candidates.length; i += this.INSERT_CHUNK_SIZE) {
+      const chunk = candidates.slice(i, i + this.INSERT_CHUNK_SIZE);
+      const rows = await new Promise<any[]>((resolve, reject) => {
+        this.db!.all(
+          `SELECT DISTINCT thumb_path FROM memories WHERE thumb_path IN (${chunk.map(() => '?').join(', ')})`,
+          chunk,
+          (err, rows: any[]) => {
+            if (err) reject(err);
+            else resolve(rows);
+          }
+        );
+      });
+      rows.forEach(row => referenced.add(row.thumb_path));
+    }
+
+    const orphaned = candidates.filter(thumbPath => !referenced.has(thumbPath));
+    return [...new Set(orphaned.flatMap(thumbPath => [thumbPath, ...renditionFiles.get(thumbPath)!]))];
+  }
+
   /**
    * Search memories using FTS5 full-text search
    */
@@ -246,6 +1427,54 @@ export class DatabaseManager {
     });
   }
 
+  /**
+   * Compare the FTS5 index with the memories table. Rows are counted from the index's
+   * docsize table, since reading memories_fts itself reads the memories table.
+   */
+  async verifyFtsIndex(): Promise<FtsIndexReport> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const get = (sql: string) => new Promise<any>((resolve, reject) => {
+      this.db!.get(sql, [], (err, row) => (err ? reject(err) : resolve(row)));
+    });
+
+    const counts = await get(`
+      SELECT
+        (SELECT COUNT(*) FROM memories) AS memories,
+        (SELECT COUNT(*) FROM memories_fts_docsize) AS indexed,
+        (SELECT COUNT(*) FROM memories m WHERE NOT EXISTS (SELECT 1 FROM memories_fts_docsize d WHERE d.id = m.rowid)) AS missing,
+        (SELECT COUNT(*) FROM memories_fts_docsize d WHERE NOT EXISTS (SELECT 1 FROM memories m WHERE m.rowid = d.id)) AS orphaned
+    `);
+
+    // rank = 1 also checks the indexed terms against the text now in memories
+    let contentMatches = true;
+    try {
+      await get("INSERT INTO memories_fts(memories_fts, rank) VALUES('integrity-check', 1)");
+    } catch (error: any) {
+      if (error.code !== 'SQLITE_CORRUPT') throw error;
+      contentMatches = false;
+    }
+
+    return {
+      ...counts,
+      contentMatches,
+      consistent: counts.missing === 0 && counts.orphaned === 0 && contentMatches
+    };
+  }
+
+  /**
+   * Rebuild the FTS5 index from the memories table, in one transaction: searches keep
+   * using the old index until it commits, and ingestion waits for it
+   */
+  async rebuildFtsIndex(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.write(() => new Promise<void>((resolve, reject) => {
+      this.db!.run("INSERT INTO memories_fts(memories_fts) VALUES('rebuild')", (err) => (err ? reject(err) : resolve()));
+    }));
+    logger.info('FTS5 index rebuilt');
+  }
+
   /**
    * Get recent memories within a time range
    */
@@ -348,7 +1577,17 @@ export class DatabaseManager {
       topics: row.topics ? JSON.parse(row.topics) : [],
       video_processed: !!row.video_processed,
       video_kept: !!row.video_kept,
-      similarity_score: row.similarity_score || 0.0
+      similarity_score: row.similarity_score || 0.0,
+      linked_memory_id: row.linked_memory_id ?? null,
+      ui_text: row.ui_text ?? null,
+      text_source: row.text_source || 'ocr',
+      redactions: row.redactions ? JSON.parse(row.redactions) : {},
+      last_seen_ts: row.last_seen_ts ?? null,
+      duplicate_count: row.duplicate_count || 0,
+      text_simhash: row.text_simhash ?? null,
+      renditions: row.renditions ? JSON.parse(row.renditions) : null,
+      ocr_boxes: row.ocr_boxes ? JSON.parse(row.ocr_boxes) : null,
+      open_count: row.open_count || 0
     };
   }
 
@@ -373,3 +1612,15 @@ export class DatabaseManager {
     return this.isInitialized && !!this.db;
   }
 }
+
+/**
+ * Add rows' thumbnail paths, each with its rendition files, to `files`
+ */
+function collectThumbFiles(rows: { thumb_path: string | null; renditions: string | null }[], files: Map<string, string[]>): void {
+  for (const row of rows) {
+    if (row.thumb_path) {
+      const renditions: RenditionManifest = row.renditions ? JSON.parse(row.renditions) : {};
+      files.set(row.thumb_path, Object.values(renditions).map(info => info.path));
+    }
+  }
+}
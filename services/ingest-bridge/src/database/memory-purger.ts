@@ -0,0 +1,127 @@
+/**
+ * Memory Purger
+ * Deletes memories everywhere they are kept: the SQLite row (and with it the FTS5
+ * entry, entity rows and session counts), vectors and thumbnail/rendition files.
+ * The SQLite transaction records the vectors and files as pending deletions, which are
+ * carried out after it and retried by later purges until they succeed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DatabaseManager } from './manager';
+import { EmbeddingsService } from '../embeddings/service';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('memory-purger');
+
+export interface PurgeResult {
+  memories: number;
+  thumbnails: number;
+}
+
+export class MemoryPurger {
+  constructor(
+    private databaseManager: DatabaseManager,
+    private embeddingsService: EmbeddingsService = new EmbeddingsService()
+  ) {}
+
+  private readonly PAGE_SIZE = 500;
+
+  /**
+   * Once SQLite is done the memories count as purged: if the vector store or a file
+   * delete fails, what's left stays recorded for the next purge.
+   */
+  async purge(ids: string[]): Promise<PurgeResult> {
+    if (ids.length === 0) {
+      return { memories: 0, thumbnails: 0 };
+    }
+
+    // 1. SQLite, FTS5, entities and sessions, recording the vectors and files to delete
+    await this.databaseManager.deleteMemories(ids);
+
+    // 2. Vectors in every registered collection, then thumbnails and renditions no
+    // remaining memory uses
+    const thumbnails = await this.processPendingDeletions();
+
+    logger.info('Purged memories', { memories: ids.length, thumbnails });
+    return { memories: ids.length, thumbnails };
+  }
+
+  /**
+   * Delete memories' thumbnails and renditions but keep the memories
+   */
+  async purgeThumbnails(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    await this.databaseManager.clearThumbnails(ids);
+    const thumbnails = await this.processPendingDeletions();
+    logger.info('Purged thumbnails', { memories: ids.length, thumbnails });
+    return thumbnails;
+  }
+
+  /**
+   * Carry out the vector and file deletions SQLite has recorded, including any an earlier
+   * purge failed on; returns how many files were deleted. Failures are left recorded.
+   */
+  async processPendingDeletions(): Promise<number> {
+    try {
+      const collections = (await this.databaseManager.listEmbeddingCollections()).map(row => row.name);
+      for (;;) {
+        const ids = await this.databaseManager.getPendingDeletions('vector', this.PAGE_SIZE);
+        if (ids.length === 0) break;
+
+        // A memory ingested again since it was deleted keeps its new vector
+        const existing = await this.databaseManager.findExistingMemoryIds(ids);
+        await this.embeddingsService.deleteEmbeddings(ids.filter(id => !existing.has(id)), collections);
+        await this.databaseManager.clearPendingDeletions('vector', ids);
+      }
+    } catch (error) {
+      logger.warn('Vector deletions left for the next purge', { error: String(error) });
+    }
+
+    let deleted = 0;
+    let failed = 0;
+    for (;;) {
+      const filePaths = await this.databaseManager.getPendingDeletions('file', this.PAGE_SIZE, failed);
+      if (filePaths.length === 0) break;
+
+      const result = this.deleteFiles(filePaths);
+      await this.databaseManager.clearPendingDeletions('file', result.done);
+      deleted += result.deleted;
+      failed += filePaths.length - result.done.length;
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete thumbnail files; returns how many existed, and the paths that are gone now
+   */
+  private deleteFiles(filePaths: string[]): { deleted: number; done: string[] } {
+    let deleted = 0;
+    const done: string[] = [];
+    const directories = new Set<string>();
+    for (const thumbPath of filePaths) {
+      try {
+        if (fs.existsSync(thumbPath)) {
+          fs.unlinkSync(thumbPath);
+          deleted++;
+        }
+        done.push(thumbPath);
+        directories.add(path.dirname(thumbPath));
+      } catch (error) {
+        logger.warn('Failed to delete thumbnail', { thumbPath, error: String(error) });
+      }
+    }
+
+    // A memory's renditions share a directory with the match crops search-api caches
+    // there; drop it with them (older single thumbnails sit directly in thumbs/, which stays)
+    for (const directory of directories) {
+      if (path.basename(directory) !== 'thumbs') {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    }
+    return { deleted, done };
+  }
+}
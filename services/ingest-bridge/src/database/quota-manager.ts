@@ -0,0 +1,311 @@
+/**
+ * Quota Manager
+ * Keeps total storage (SQLite, vectors, thumbnails and retained video) under
+ * STORAGE_QUOTA_MB. Usage is measured per category on a schedule and saved for the
+ * search API's /stats. Over quota, space is freed from what is worth least:
+ * 1. media files only duplicate frames point at
+ * 2. thumbnails of older memories, least important first (the memories stay searchable)
+ * 3. the oldest memories themselves, those never opened from search first
+ * Importance counts opens from search, near-duplicate captures and dwell time.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { DatabaseManager } from './manager';
+import { MemoryPurger } from './memory-purger';
+import { MemoryObjectWithEmbedding } from '../types/memory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('quota-manager');
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StorageCategory = 'sqlite' | 'vectors' | 'thumbnails' | 'video';
+
+export interface CategoryUsage {
+  bytes: number;
+  files: number;
+}
+
+export interface EvictionReport {
+  at: number;
+  media: number;        // Duplicate-frame media files deleted
+  thumbnails: number;   // Memories whose thumbnails were deleted
+  memories: number;     // Memories deleted
+  freedBytes: number;   // Estimated; SQLite and vector store space is reused rather than returned
+}
+
+/**
+ * A storage measurement, as saved for /stats
+ */
+export interface StorageStatus {
+  quotaBytes: number | null;
+  usedBytes: number;
+  categories: { [category in StorageCategory]: CategoryUsage };
+  measuredAt: number;
+  lastEviction: EvictionReport | null;
+}
+
+export class QuotaManager {
+  private timer: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private status: StorageStatus | null = null;
+  private lastEviction: EvictionReport | null = null;
+  private chromaDir: string;
+  private vectorsPath: string;
+  private thumbsDir: string;
+
+  // Configuration
+  private readonly QUOTA_BYTES = parseFloat(process.env.STORAGE_QUOTA_MB || '0') * MB; // 0 = no cap
+  private readonly TARGET_PERCENT = parseInt(process.env.STORAGE_QUOTA_TARGET_PERCENT || '90'); // Evict down to this much of the quota
+  private readonly CHECK_INTERVAL_MS = parseInt(process.env.STORAGE_CHECK_INTERVAL_MS || '600000');
+  private readonly THUMBNAIL_MIN_AGE_DAYS = parseFloat(process.env.QUOTA_THUMBNAIL_MIN_AGE_DAYS || '7'); // Newer thumbnails are never evicted
+  private readonly EVICT_BATCH_SIZE = 100;
+
+  constructor(
+    private databaseManager: DatabaseManager,
+    private purger: MemoryPurger = new MemoryPurger(databaseManager),
+    dataDir: string = './data'
+  ) {
+    this.chromaDir = path.join(dataDir, 'chroma');
+    this.vectorsPath = path.join(dataDir, 'sqlite', 'vectors.db');
+    this.thumbsDir = path.join(dataDir, 'thumbs');
+  }
+
+  /**
+   * Measure every category and save the result for /stats
+   */
+  async measure(): Promise<StorageStatus> {
+    const [database, embedded, chroma, thumbnails, video] = await Promise.all([
+      this.databaseManager.getDatabaseUsage(),
+      diskUsage(this.vectorsPath),
+      diskUsage(this.chromaDir),
+      diskUsage(this.thumbsDir),
+      this.measureVideo()
+    ]);
+
+    const categories = {
+      sqlite: { bytes: database.usedBytes, files: 1 },
+      // Whichever vector store is in use (a local Chroma's data directory, if any)
+      vectors: { bytes: embedded.bytes + chroma.bytes, files: embedded.files + chroma.files },
+      thumbnails,
+      video
+    };
+    this.status = {
+      quotaBytes: this.QUOTA_BYTES > 0 ? this.QUOTA_BYTES : null,
+      usedBytes: Object.values(categories).reduce((sum, usage) => sum + usage.bytes, 0),
+      categories,
+      measuredAt: Date.now(),
+      lastEviction: this.lastEviction
+    };
+
+    await this.databaseManager.saveStorageStatus(this.status, this.status.measuredAt);
+    return this.status;
+  }
+
+  /**
+   * Measure, and when over quota evict down to STORAGE_QUOTA_TARGET_PERCENT of it.
+   * Returns what was evicted, or null when within quota.
+   */
+  async enforce(now: number = Date.now()): Promise<EvictionReport | null> {
+    const usage = await this.measure();
+    if (usage.quotaBytes === null || usage.usedBytes <= usage.quotaBytes) {
+      return null;
+    }
+
+    const report: EvictionReport = { at: now, media: 0, thumbnails: 0, memories: 0, freedBytes: 0 };
+    let excess = usage.usedBytes - usage.quotaBytes * this.TARGET_PERCENT / 100;
+    logger.warn('Storage over quota, evicting', {
+      usedMB: Math.round(usage.usedBytes / MB),
+      quotaMB: Math.round(usage.quotaBytes / MB)
+    });
+
+    // 1. Media of duplicate frames
+    excess -= await this.evictDuplicateMedia(report);
+
+    // 2. Thumbnails of older, low-importance memories
+    while (excess > 0) {
+      const candidates = await this.databaseManager.getThumbnailEvictionCandidates(now - this.THUMBNAIL_MIN_AGE_DAYS * DAY_MS, this.EVICT_BATCH_SIZE);
+      if (candidates.length === 0) break;
+
+      const { batch, bytes } = await takeUntil(candidates, excess, 0);
+      await this.purger.purgeThumbnails(batch.map(memory => memory.id));
+      report.thumbnails += batch.length;
+      report.freedBytes += bytes;
+      excess -= bytes;
+    }
+
+    // 3. The oldest memories; their vectors are estimated at the average per memory
+    if (excess > 0) {
+      const totalMemories = (await this.databaseManager.getStats()).totalMemories;
+      const vectorsPerMemory = totalMemories > 0 ? usage.categories.vectors.bytes / totalMemories : 0;
+
+      while (excess > 0) {
+        const candidates = await this.databaseManager.getMemoryEvictionCandidates(this.EVICT_BATCH_SIZE);
+        if (candidates.length === 0) break;
+
+        const before = (await this.databaseManager.getDatabaseUsage()).usedBytes;
+        const { batch, bytes: estimated } = await takeUntil(candidates, excess, vectorsPerMemory);
+        await this.purger.purge(batch.map(memory => memory.id));
+        const after = (await this.databaseManager.getDatabaseUsage()).usedBytes;
+
+        const bytes = Math.round(estimated) + Math.max(0, before - after);
+        report.memories += batch.length;
+        report.freedBytes += bytes;
+        excess -= bytes;
+      }
+    }
+
+    this.lastEviction = report;
+    await this.measure();
+    logger.info('Storage eviction finished', { ...report, usedMB: Math.round(this.status!.usedBytes / MB) });
+    return report;
+  }
+
+  /**
+   * Measure now, then check the quota every STORAGE_CHECK_INTERVAL_MS
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.isChecking) return;
+      this.isChecking = true;
+      try {
+        await this.enforce();
+      } catch (error) {
+        logger.error('Storage quota check failed:', error);
+      } finally {
+        this.isChecking = false;
+      }
+    };
+
+    this.timer = setInterval(tick, this.CHECK_INTERVAL_MS);
+    tick();
+    logger.info('Storage quota manager started', {
+      quotaMB: this.QUOTA_BYTES > 0 ? this.QUOTA_BYTES / MB : null,
+      intervalMs: this.CHECK_INTERVAL_MS
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStats(): StorageStatus | null {
+    return this.status;
+  }
+
+  /**
+   * Retained media files memories point at (most are deleted right after processing)
+   */
+  private async measureVideo(): Promise<CategoryUsage> {
+    const usage: CategoryUsage = { bytes: 0, files: 0 };
+    for (const media of await this.databaseManager.getRetainedMedia()) {
+      const size = await fileSize(media.path);
+      if (size !== null) {
+        usage.bytes += size;
+        usage.files++;
+      }
+    }
+    return usage;
+  }
+
+  /**
+   * Delete media files no kept frame points at; returns the bytes freed
+   */
+  private async evictDuplicateMedia(report: EvictionReport): Promise<number> {
+    const duplicates = (await this.databaseManager.getRetainedMedia()).filter(media => !media.kept);
+    let freed = 0;
+
+    for (const media of duplicates) {
+      const size = await fileSize(media.path);
+      if (size === null) continue;
+      try {
+        await fs.unlink(media.path);
+        report.media++;
+        freed += size;
+      } catch (error) {
+        logger.warn('Failed to delete duplicate-frame media', { mediaPath: media.path, error: String(error) });
+      }
+    }
+
+    await this.databaseManager.clearMediaPaths(duplicates.map(media => media.path));
+    report.freedBytes += freed;
+    return freed;
+  }
+}
+
+/**
+ * The leading candidates whose eviction frees at least `excess` bytes (their
+ * thumbnails plus `extraBytes` each), so a batch doesn't overshoot the target
+ */
+async function takeUntil(
+  candidates: MemoryObjectWithEmbedding[],
+  excess: number,
+  extraBytes: number
+): Promise<{ batch: MemoryObjectWithEmbedding[]; bytes: number }> {
+  const batch: MemoryObjectWithEmbedding[] = [];
+  let bytes = 0;
+  for (const memory of candidates) {
+    batch.push(memory);
+    bytes += await thumbnailBytes(memory) + extraBytes;
+    if (bytes >= excess) break;
+  }
+  return { batch, bytes };
+}
+
+/**
+ * Bytes held by a memory's thumbnails: its rendition directory (with any cached match
+ * crops), or the thumbnail file of a memory from before renditions
+ */
+async function thumbnailBytes(memory: MemoryObjectWithEmbedding): Promise<number> {
+  const targets = new Set<string>();
+  const files = [memory.thumb_path, ...Object.values(memory.renditions || {}).map(info => info.path)]
+    .filter((file): file is string => !!file);
+  for (const file of files) {
+    const directory = path.dirname(file);
+    targets.add(memory.renditions && path.basename(directory) !== 'thumbs' ? directory : file);
+  }
+
+  let bytes = 0;
+  for (const target of targets) {
+    bytes += (await diskUsage(target)).bytes;
+  }
+  return bytes;
+}
+
+/**
+ * Size of a file, or of everything under a directory; nothing if it doesn't exist
+ */
+async function diskUsage(target: string): Promise<CategoryUsage> {
+  let stats;
+  try {
+    stats = await fs.stat(target);
+  } catch {
+    return { bytes: 0, files: 0 };
+  }
+  if (!stats.isDirectory()) {
+    return { bytes: stats.size, files: 1 };
+  }
+
+  const usage: CategoryUsage = { bytes: 0, files: 0 };
+  for (const entry of await fs.readdir(target)) {
+    const child = await diskUsage(path.join(target, entry));
+    usage.bytes += child.bytes;
+    usage.files += child.files;
+  }
+  return usage;
+}
+
+async function fileSize(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Retention Job
+ * Applies the retention policy on a schedule: expired memories are purged everywhere
+ * (SQLite, FTS5, vectors, thumbnails) and expired thumbnails are dropped from memories
+ * that are kept. A dry run reports the same counts without deleting anything.
+ */
+
+import { DatabaseManager } from './manager';
+import { MemoryPurger } from './memory-purger';
+import { RetentionPolicy } from './retention-policy';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('retention-job');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: number;
+  durationMs: number;
+  memories: number;     // Memories deleted (or that would be)
+  thumbnails: number;   // Kept memories whose thumbnails were deleted (or would be)
+  files: number;        // Thumbnail and rendition files deleted
+  byRule: { [rule: string]: { memories: number; thumbnails: number } };
+}
+
+export class RetentionJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isApplying = false;
+  private lastReport: RetentionReport | null = null;
+
+  // Configuration
+  private readonly INTERVAL_MS = parseInt(process.env.RETENTION_INTERVAL_MS || '3600000');
+  private readonly PAGE_SIZE = 500;
+
+  constructor(
+    private databaseManager: DatabaseManager,
+    private purger: MemoryPurger = new MemoryPurger(databaseManager),
+    private policy: RetentionPolicy = RetentionPolicy.load()
+  ) {}
+
+  /**
+   * Find what the policy expires as of `now` and, unless it's a dry run, delete it
+   */
+  async run(options: { dryRun?: boolean; now?: number } = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false;
+    const now = options.now ?? Date.now();
+    const report: RetentionReport = { dryRun, startedAt: Date.now(), durationMs: 0, memories: 0, thumbnails: 0, files: 0, byRule: {} };
+
+    const shortestDays = this.policy.shortestLimitDays();
+    if (shortestDays === null) {
+      return report; // Everything is kept forever
+    }
+    const keepDays = this.policy.shortestKeepDays();
+
+    // 1. Decide per memory; only memories older than the shortest limit are read
+    const expiredMemories: string[] = [];
+    const expiredThumbnails: string[] = [];
+    let afterRowid = 0;
+
+    for (;;) {
+      const page = await this.databaseManager.getRetentionCandidates(
+        now - shortestDays * DAY_MS,
+        keepDays === null ? 0 : now - keepDays * DAY_MS,
+        afterRowid,
+        this.PAGE_SIZE
+      );
+      if (page.length === 0) break;
+
+      for (const { memory } of page) {
+        const decision = this.policy.evaluate(memory);
+        const age = now - (memory.last_seen_ts || memory.ts);
+
+        if (decision.keepDays !== null && age > decision.keepDays * DAY_MS) {
+          expiredMemories.push(memory.id);
+          this.count(report, decision.rule, 'memories');
+        } else if (decision.thumbnailDays !== null && memory.thumb_path && age > decision.thumbnailDays * DAY_MS) {
+          expiredThumbnails.push(memory.id);
+          this.count(report, decision.rule, 'thumbnails');
+        }
+      }
+      afterRowid = page[page.length - 1].rowid;
+    }
+
+    // 2. Delete, in chunks so a failure leaves the rest for the next run. Vectors and
+    // files an earlier run failed to delete go first.
+    if (!dryRun) {
+      report.files += await this.purger.processPendingDeletions();
+      for (let i = 0; i < expiredMemories.length; i += this.PAGE_SIZE) {
+        const result = await this.purger.purge(expiredMemories.slice(i, i + this.PAGE_SIZE));
+        report.files += result.thumbnails;
+      }
+      for (let i = 0; i < expiredThumbnails.length; i += this.PAGE_SIZE) {
+        report.files += await this.purger.purgeThumbnails(expiredThumbnails.slice(i, i + this.PAGE_SIZE));
+      }
+    }
+
+    report.durationMs = Date.now() - report.startedAt;
+    if (report.memories > 0 || report.thumbnails > 0) {
+      logger.info(dryRun ? 'Retention dry run' : 'Retention applied', {
+        memories: report.memories,
+        thumbnails: report.thumbnails,
+        files: report.files,
+        byRule: report.byRule
+      });
+    }
+    return report;
+  }
+
+  /**
+   * Start the scheduled job (a first run happens right away). Does nothing when the
+   * policy keeps everything.
+   */
+  start(): void {
+    if (this.timer || this.policy.shortestLimitDays() === null) return;
+
+    const tick = async () => {
+      if (this.isApplying) return;
+      this.isApplying = true;
+      try {
+        this.lastReport = await this.run();
+      } catch (error) {
+        logger.error('Retention run failed:', error);
+      } finally {
+        this.isApplying = false;
+      }
+    };
+
+    this.timer = setInterval(tick, this.INTERVAL_MS);
+    tick();
+    logger.info('Retention job started', { intervalMs: this.INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStats(): { enabled: boolean; intervalMs: number; lastRun: RetentionReport | null } {
+    return { enabled: this.timer !== null, intervalMs: this.INTERVAL_MS, lastRun: this.lastReport };
+  }
+
+  private count(report: RetentionReport, rule: string, kind: 'memories' | 'thumbnails'): void {
+    const counts = report.byRule[rule] || (report.byRule[rule] = { memories: 0, thumbnails: 0 });
+    counts[kind]++;
+    report[kind]++;
+  }
+}
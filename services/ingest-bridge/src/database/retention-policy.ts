@@ -0,0 +1,158 @@
+/**
+ * Retention Policy
+ * How long memories (and, separately, their thumbnails) are kept, by app, site or
+ * window. Loaded from RETENTION_RULES_PATH; without it everything is kept forever.
+ */
+
+import fs from 'fs';
+import { globToRegExp } from '../ingest/exclusion-rules';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('retention-policy');
+
+/**
+ * How long to keep what a rule matches. Omitted limits fall back to the default's;
+ * null keeps forever.
+ */
+export interface RetentionLimits {
+  keep_days?: number | null;        // The memory itself (SQLite, FTS5, vectors)
+  thumbnail_days?: number | null;   // Its thumbnail and renditions; the memory stays searchable
+}
+
+/**
+ * One rule in the RETENTION_RULES_PATH file. Every condition given must match.
+ */
+export interface RetentionRuleConfig extends RetentionLimits {
+  name?: string;
+  app?: string;            // App name, case-insensitive, e.g. "Slack"
+  url_host?: string;       // Host glob, e.g. "*.slack.com" (* and ? wildcards)
+  window_title?: string;   // Regular expression, case-insensitive
+}
+
+/**
+ * Shape of the RETENTION_RULES_PATH file; the first matching rule applies
+ */
+export interface RetentionConfig {
+  default?: RetentionLimits;
+  rules?: RetentionRuleConfig[];
+}
+
+/**
+ * What a rule is checked against (a stored memory)
+ */
+export interface RetentionCandidate {
+  app: string;
+  url_host?: string | null;
+  window_title?: string | null;
+}
+
+/**
+ * The limits that apply to a memory, in days (null = forever), and where they came from
+ */
+export interface RetentionDecision {
+  rule: string;
+  keepDays: number | null;
+  thumbnailDays: number | null;
+}
+
+interface CompiledRule {
+  name: string;
+  app?: string;
+  urlHost?: RegExp;
+  windowTitle?: RegExp;
+  keepDays: number | null;
+  thumbnailDays: number | null;
+}
+
+const DEFAULT_RULE = 'default';
+
+export class RetentionPolicy {
+  private rules: CompiledRule[];
+  private fallback: RetentionDecision;
+
+  constructor(config: RetentionConfig = {}) {
+    this.fallback = {
+      rule: DEFAULT_RULE,
+      keepDays: parseDays(config.default?.keep_days, DEFAULT_RULE, 'keep_days', null),
+      thumbnailDays: parseDays(config.default?.thumbnail_days, DEFAULT_RULE, 'thumbnail_days', null)
+    };
+    this.rules = (config.rules || []).map((rule, index) => this.compileRule(rule, index));
+  }
+
+  /**
+   * Policy from a file (or RETENTION_RULES_PATH). A missing path keeps everything; a
+   * broken file throws, so a typo can't silently change what gets deleted.
+   */
+  static load(filePath: string | undefined = process.env.RETENTION_RULES_PATH): RetentionPolicy {
+    if (!filePath) {
+      return new RetentionPolicy();
+    }
+
+    const policy = new RetentionPolicy(JSON.parse(fs.readFileSync(filePath, 'utf8')) as RetentionConfig);
+    logger.info('Loaded retention policy', { filePath, rules: policy.rules.length });
+    return policy;
+  }
+
+  /**
+   * Limits for a memory: the first matching rule's, else the default's
+   */
+  evaluate(candidate: RetentionCandidate): RetentionDecision {
+    const app = candidate.app.toLowerCase();
+    const host = (candidate.url_host || '').toLowerCase();
+
+    for (const rule of this.rules) {
+      if (rule.app && rule.app !== app) continue;
+      if (rule.urlHost && !rule.urlHost.test(host)) continue;
+      if (rule.windowTitle && !rule.windowTitle.test(candidate.window_title || '')) continue;
+      return { rule: rule.name, keepDays: rule.keepDays, thumbnailDays: rule.thumbnailDays };
+    }
+    return this.fallback;
+  }
+
+  /**
+   * Shortest limit of any rule, in days: nothing younger can expire. Null when the
+   * policy never deletes anything.
+   */
+  shortestLimitDays(): number | null {
+    const limits = [this.fallback, ...this.rules]
+      .flatMap(rule => [rule.keepDays, rule.thumbnailDays])
+      .filter((days): days is number => days !== null);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  /**
+   * Shortest memory (not thumbnail) limit of any rule, in days, or null
+   */
+  shortestKeepDays(): number | null {
+    const limits = [this.fallback, ...this.rules]
+      .map(rule => rule.keepDays)
+      .filter((days): days is number => days !== null);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  private compileRule(rule: RetentionRuleConfig, index: number): CompiledRule {
+    const name = rule.name || `rule ${index + 1}`;
+    if (!rule.app && !rule.url_host && !rule.window_title) {
+      throw new Error(`Retention rule "${name}" has no conditions`);
+    }
+
+    return {
+      name,
+      app: rule.app?.toLowerCase(),
+      urlHost: rule.url_host ? globToRegExp(rule.url_host.toLowerCase()) : undefined,
+      windowTitle: rule.window_title ? new RegExp(rule.window_title, 'i') : undefined,
+      keepDays: parseDays(rule.keep_days, name, 'keep_days', this.fallback.keepDays),
+      thumbnailDays: parseDays(rule.thumbnail_days, name, 'thumbnail_days', this.fallback.thumbnailDays)
+    };
+  }
+}
+
+function parseDays(value: number | null | undefined, ruleName: string, field: string, fallback: number | null): number | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (value !== null && (typeof value !== 'number' || !(value > 0))) {
+    throw new Error(`Retention rule "${ruleName}" has an invalid ${field}: ${value} (expected days > 0, or null to keep forever)`);
+  }
+  return value;
+}
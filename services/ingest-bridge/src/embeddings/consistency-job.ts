@@ -0,0 +1,184 @@
+/**
+ * Consistency Job
+ * Finds where SQLite and the active vector collection disagree: memories without a
+ * vector (their embedding failed after the row was stored), which semantic search can
+ * never find, and vectors whose memory is gone, which search drops. Both stores are
+ * compared a page at a time. A repair embeds the missing memories and deletes the
+ * orphaned vectors. The last report is saved for the search API's /health.
+ */
+
+import { DatabaseManager } from '../database/manager';
+import { EmbeddingsService, embeddingTextFor } from './service';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('consistency-job');
+
+export interface ConsistencyReport {
+  collection: string;
+  checkedAt: number;
+  durationMs: number;
+  memories: number;     // Memories compared (those with text to embed)
+  vectors: number;      // Vectors compared
+  missing: number;      // Memories without a vector
+  orphaned: number;     // Vectors without a memory
+  repaired: { embedded: number; deleted: number } | null; // Null for a check without repair
+}
+
+export class ConsistencyJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private lastReport: ConsistencyReport | null = null;
+
+  // Configuration
+  private readonly INTERVAL_MS = parseInt(process.env.CONSISTENCY_CHECK_INTERVAL_MS || '21600000'); // 6 hours
+  private readonly AUTO_REPAIR = process.env.CONSISTENCY_AUTO_REPAIR !== 'false';
+  private readonly PAGE_SIZE = 500;
+  private readonly EMBED_BATCH_SIZE = 100;
+
+  constructor(
+    private databaseManager: DatabaseManager,
+    private embeddingsService: EmbeddingsService
+  ) {}
+
+  /**
+   * Compare both stores and, with `repair`, fix what differs
+   */
+  async run(options: { repair?: boolean } = {}): Promise<ConsistencyReport> {
+    const startedAt = Date.now();
+    await this.embeddingsService.refreshActiveCollection();
+    const collection = this.embeddingsService.getCollectionName();
+    if (!collection) {
+      throw new Error('Embeddings service not initialized');
+    }
+
+    // 1. Memories (by rowid) without a vector. Memories with no text are never embedded.
+    const missing: string[] = [];
+    let memories = 0;
+    let afterRowid = 0;
+    for (;;) {
+      const page = await this.databaseManager.getMemoriesAfterRowid(afterRowid, this.PAGE_SIZE);
+      if (page.length === 0) break;
+
+      const ids = page
+        .filter(({ memory }) => embeddingTextFor(memory).length > 0)
+        .map(({ memory }) => memory.id);
+      const stored = await this.embeddingsService.findStoredIds(ids);
+      missing.push(...ids.filter(id => !stored.has(id)));
+      memories += ids.length;
+      afterRowid = page[page.length - 1].rowid;
+    }
+
+    // 2. Vectors without a memory. Nothing is deleted until the scan is done, so the
+    // pages don't shift under it.
+    const orphaned: string[] = [];
+    let vectors = 0;
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const ids = await this.embeddingsService.listStoredIds(offset, this.PAGE_SIZE);
+      if (ids.length === 0) break;
+
+      const existing = await this.databaseManager.findExistingMemoryIds(ids);
+      orphaned.push(...ids.filter(id => !existing.has(id)));
+      vectors += ids.length;
+    }
+
+    const report: ConsistencyReport = {
+      collection,
+      checkedAt: startedAt,
+      durationMs: 0,
+      memories,
+      vectors,
+      missing: missing.length,
+      orphaned: orphaned.length,
+      repaired: null
+    };
+
+    if (options.repair) {
+      report.repaired = {
+        embedded: await this.embedMissing(missing),
+        deleted: await this.deleteOrphans(orphaned, collection)
+      };
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    await this.databaseManager.saveConsistencyReport(report, report.checkedAt);
+    if (report.missing > 0 || report.orphaned > 0) {
+      logger.warn('SQLite and the vector store are out of sync', { ...report });
+    }
+    return report;
+  }
+
+  /**
+   * Check now, then every CONSISTENCY_CHECK_INTERVAL_MS, repairing unless
+   * CONSISTENCY_AUTO_REPAIR=false
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.isChecking) return;
+      this.isChecking = true;
+      try {
+        this.lastReport = await this.run({ repair: this.AUTO_REPAIR });
+      } catch (error) {
+        logger.error('Consistency check failed:', error);
+      } finally {
+        this.isChecking = false;
+      }
+    };
+
+    this.timer = setInterval(tick, this.INTERVAL_MS);
+    tick();
+    logger.info('Consistency job started', { intervalMs: this.INTERVAL_MS, autoRepair: this.AUTO_REPAIR });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStats(): { enabled: boolean; intervalMs: number; autoRepair: boolean; lastRun: ConsistencyReport | null } {
+    return { enabled: this.timer !== null, intervalMs: this.INTERVAL_MS, autoRepair: this.AUTO_REPAIR, lastRun: this.lastReport };
+  }
+
+  /**
+   * Embed memories that have no vector; returns how many were stored. A memory deleted
+   * since the scan is skipped.
+   */
+  private async embedMissing(ids: string[]): Promise<number> {
+    let embedded = 0;
+    for (let i = 0; i < ids.length; i += this.EMBED_BATCH_SIZE) {
+      const memories = (await this.databaseManager.getMemoriesByIds(ids.slice(i, i + this.EMBED_BATCH_SIZE)))
+        .filter(memory => embeddingTextFor(memory).length > 0);
+      if (memories.length === 0) continue;
+
+      const vectors = await this.embeddingsService.generateEmbeddingsBatch(memories.map(embeddingTextFor));
+      await this.embeddingsService.storeEmbeddings(memories.map((memory, index) => ({ ...memory, embedding: vectors[index] })));
+      embedded += memories.length;
+    }
+    if (embedded > 0) {
+      logger.info('Embedded memories missing from the vector store', { embedded });
+    }
+    return embedded;
+  }
+
+  /**
+   * Delete vectors whose memory is gone, rechecking first in case one was stored since
+   * the scan
+   */
+  private async deleteOrphans(ids: string[], collection: string): Promise<number> {
+    let deleted = 0;
+    for (let i = 0; i < ids.length; i += this.PAGE_SIZE) {
+      const chunk = ids.slice(i, i + this.PAGE_SIZE);
+      const existing = await this.databaseManager.findExistingMemoryIds(chunk);
+      const orphans = chunk.filter(id => !existing.has(id));
+      await this.embeddingsService.deleteEmbeddings(orphans, [collection]);
+      deleted += orphans.length;
+    }
+    if (deleted > 0) {
+      logger.info('Deleted orphaned vectors', { deleted, collection });
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Re-embed Job
+ * Rebuilds every memory's vector with a new embedding model in a fresh collection,
+ * then makes that collection the active one
+ */
+
+import { EmbeddingProvider } from '@photographic-memory/mem-store';
+import { DatabaseManager, EmbeddingCollectionRow } from '../database/manager';
+import { createLogger } from '../utils/logger';
+import { EmbeddingsService, collectionNameForModel, embeddingTextFor } from './service';
+
+const logger = createLogger('reembed-job');
+
+export type ReembedOutcome = 'completed' | 'stopped';
+
+export interface ReembedProgress {
+  collection: string;
+  embedded: number;
+  remaining: number;
+}
+
+export class ReembedJob {
+  private stopRequested = false;
+  private running: Promise<ReembedOutcome> | null = null;
+
+  // Configuration
+  private readonly BATCH_SIZE = 100;
+  private readonly CUTOVER_GRACE_MS = 10000; // Lets writers notice the cutover before the final sweep
+
+  constructor(private databaseManager: DatabaseManager) {}
+
+  /**
+   * Register (or resume) a building collection for the target model.
+   * Returns null when the target model is already active.
+   */
+  async prepare(target: EmbeddingProvider): Promise<EmbeddingCollectionRow | null> {
+    const active = await this.databaseManager.getActiveEmbeddingCollection();
+    if (active?.model === target.model) {
+      logger.info('Target embedding model is already active', { collection: active.name });
+      return null;
+    }
+
+    const name = collectionNameForModel(target.model);
+    const collections = await this.databaseManager.listEmbeddingCollections();
+
+    // Only one migration at a time: abandon builds for other models
+    for (const row of collections) {
+      if (row.status === 'building' && row.name !== name) {
+        logger.warn('Abandoning unfinished re-embed', { collection: row.name });
+        await this.databaseManager.setEmbeddingCollectionStatus(row.name, 'retired');
+      }
+    }
+
+    const existing = collections.find(row => row.name === name);
+    if (existing?.status === 'building') {
+      logger.info('Resuming re-embed', { collection: name, lastRowid: existing.last_rowid });
+      return existing;
+    }
+
+    const row: EmbeddingCollectionRow = {
+      name,
+      provider: target.name,
+      model: target.model,
+      dimensions: target.dimensions,
+      status: 'building',
+      last_rowid: 0,
+      embedded_count: 0,
+      created_at: existing?.created_at || Date.now(),
+      activated_at: null
+    };
+    await this.databaseManager.saveEmbeddingCollection(row);
+    logger.info('Started re-embed', { collection: name, model: target.model });
+
+    return row;
+  }
+
+  /**
+   * Resume the unfinished re-embed, if any, in the background
+   */
+  async resume(): Promise<void> {
+    const collections = await this.databaseManager.listEmbeddingCollections();
+    const building = collections.find(row => row.status === 'building');
+    if (building && !this.running) {
+      this.start(building.name);
+    }
+  }
+
+  start(collectionName: string, onProgress?: (progress: ReembedProgress) => void): Promise<ReembedOutcome> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.stopRequested = false;
+    this.running = this.run(collectionName, onProgress)
+      .catch(error => {
+        logger.error('Re-embed failed; it will resume from its last checkpoint', {
+          collection: collectionName,
+          error: String(error)
+        });
+        throw error;
+      })
+      .finally(() => {
+        this.running = null;
+      });
+
+    // Background callers don't await; failures are logged above
+    this.running.catch(() => undefined);
+    return this.running;
+  }
+
+  /**
+   * Stop after the current batch; progress is checkpointed so a later run resumes
+   */
+  async stop(): Promise<void> {
+    this.stopRequested = true;
+    await this.running?.catch(() => undefined);
+  }
+
+  isRunning(): boolean {
+    return !!this.running;
+  }
+
+  private async run(collectionName: string, onProgress?: (progress: ReembedProgress) => void): Promise<ReembedOutcome> {
+    const row = await this.databaseManager.getEmbeddingCollection(collectionName);
+    if (!row || row.status !== 'building') {
+      throw new Error(`Embedding collection ${collectionName} is not being built`);
+    }
+
+    const embeddings = new EmbeddingsService();
+    await embeddings.initialize({ databaseManager: this.databaseManager, collectionName });
+
+    try {
+      const progress = { lastRowid: row.last_rowid, embedded: row.embedded_count };
+
+      // 1. Copy every existing memory into the new collection
+      if (!(await this.sweep(embeddings, collectionName, progress, onProgress))) {
+        return 'stopped';
+      }
+
+      // 2. Cut over: from here on both services read and write the new collection
+      await this.databaseManager.activateEmbeddingCollection(collectionName);
+      logger.info('Embedding collection is now active', { collection: collectionName, embedded: progress.embedded });
+
+      // 3. Pick up rows written to the old collection while the cutover propagated
+      await new Promise(resolve => setTimeout(resolve, this.CUTOVER_GRACE_MS));
+      this.stopRequested = false;
+      await this.sweep(embeddings, collectionName, progress, onProgress);
+
+      return 'completed';
+    } finally {
+      // Its own connection to the vector store
+      await embeddings.close();
+    }
+  }
+
+  /**
+   * Embed memories past the checkpoint until none are left. Returns false if stopped.
+   */
+  private async sweep(
+    embeddings: EmbeddingsService,
+    collectionName: string,
+    progress: { lastRowid: number; embedded: number },
+    onProgress?: (progress: ReembedProgress) => void
+  ): Promise<boolean> {
+    while (!this.stopRequested) {
+      const rows = await this.databaseManager.getMemoriesAfterRowid(progress.lastRowid, this.BATCH_SIZE);
+      if (rows.length === 0) {
+        return true;
+      }
+
+      const memories = rows
+        .map(row => row.memory)
+        .filter(memory => embeddingTextFor(memory).length > 0);
+      if (memories.length > 0) {
+        const vectors = await embeddings.generateEmbeddingsBatch(memories.map(embeddingTextFor));
+        await embeddings.storeEmbeddings(memories.map((memory, i) => ({ ...memory, embedding: vectors[i] })));
+      }
+
+      progress.lastRowid = rows[rows.length - 1].rowid;
+      progress.embedded += memories.length;
+      await this.databaseManager.updateEmbeddingCollectionProgress(
+        collectionName,
+        progress.lastRowid,
+        progress.embedded
+      );
+
+      onProgress?.({
+        collection: collectionName,
+        embedded: progress.embedded,
+        remaining: await this.databaseManager.countMemoriesAfterRowid(progress.lastRowid)
+      });
+    }
+
+    return false;
+  }
+}
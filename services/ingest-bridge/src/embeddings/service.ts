@@ -1,10 +1,20 @@
-import OpenAI from 'openai';
-import { ChromaClient, Collection } from 'chromadb';
-import * as fs from 'fs';
-import * as path from 'path';
 import PQueue from 'p-queue';
+import {
+  EmbeddingModelSpec,
+  EmbeddingProvider,
+  MemoryCipher,
+  VectorCollection,
+  VectorFilter,
+  VectorStorage,
+  VectorStore,
+  createEmbeddingProvider,
+  createProviderForSpec,
+  createVectorStore,
+  vectorStorageFromEnv
+} from '@photographic-memory/mem-store';
 import { logger } from '../utils/logger';
-import { MemoryObjectWithEmbedding } from '../types/memory';
+import { MemoryObject, MemoryObjectWithEmbedding } from '../types/memory';
+import { DatabaseManager, EmbeddingCollectionRow } from '../database/manager';
 
 interface EmbeddingBatch {
   texts: string[];
@@ -12,23 +22,75 @@ interface EmbeddingBatch {
   metadatas: any[];
 }
 
+export interface EmbeddingsServiceOptions {
+  // Follow the active collection recorded in SQLite (and any later cutover)
+  databaseManager?: DatabaseManager;
+  // Bind to one registered collection instead, e.g. one being re-embedded
+  collectionName?: string;
+}
+
+// Collection written before vectors were tagged with their model
+export const LEGACY_COLLECTION_NAME = 'mem_text';
+const LEGACY_MODEL_SPEC: EmbeddingModelSpec = {
+  provider: 'openai',
+  model: 'text-embedding-3-large',
+  dimensions: 3072
+};
+
+// Metadata encrypted along with the document when encryption is on; ts and app stay
+// readable because the search API filters on them
+const SEALED_METADATA = ['url_host', 'window_title', 'media_path', 'thumb_path'];
+
+/**
+ * Vector collection name for an embedding model, e.g. mem_text__text-embedding-3-large
+ */
+export function collectionNameForModel(model: string): string {
+  const slug = model.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${LEGACY_COLLECTION_NAME}__${slug}`.slice(0, 63);
+}
+
+/**
+ * Text a memory is embedded from: what was on screen (UI text when available,
+ * which is exact, else OCR) plus what was said
+ */
+export function embeddingTextFor(memory: MemoryObject): string {
+  return [memory.ui_text || memory.ocr_text, memory.asr_text]
+    .filter((text): text is string => !!text && text.trim().length > 0)
+    .join('\n');
+}
+
+/**
+ * Whether two storage settings store vectors of a `dimensions`-dimensional model alike
+ */
+function sameStorage(a: VectorStorage, b: VectorStorage, dimensions: number): boolean {
+  const stored = (storage: VectorStorage) => Math.min(storage.dimensions ?? dimensions, dimensions);
+  return a.quantization === b.quantization && stored(a) === stored(b);
+}
+
 export class EmbeddingsService {
-  private openai: OpenAI | null = null;
-  private chroma: ChromaClient | null = null;
-  private collection: Collection | null = null;
+  private provider: EmbeddingProvider | null;
+  private vectorStore: VectorStore;
+  private collection: VectorCollection | null = null;
+  private collectionName: string | null = null;
+  private databaseManager: DatabaseManager | null = null;
+  private followActive = false;
+  private lastActiveCheck = 0;
   private queue: PQueue;
   private isInitialized: boolean = false;
-  private chromaDataDir: string;
   
   // Configuration
-  private readonly EMBEDDING_MODEL = 'text-embedding-3-large';
-  private readonly COLLECTION_NAME = 'mem_text';
-  private readonly BATCH_SIZE = 100; // OpenAI allows up to 2048 inputs per request
   private readonly MAX_CONCURRENT = 3; // Rate limiting
   private readonly RETRY_ATTEMPTS = 3;
-
-  constructor(chromaDataDir: string = './data/chroma') {
-    this.chromaDataDir = chromaDataDir;
+  private readonly ACTIVE_COLLECTION_REFRESH_MS = 5000;
+  private readonly STORAGE = vectorStorageFromEnv(); // For collections created from now on
+
+  constructor(
+    vectorStore?: VectorStore,
+    provider?: EmbeddingProvider,
+    private cipher: MemoryCipher | null = MemoryCipher.load()
+  ) {
+    this.vectorStore = vectorStore || createVectorStore(cipher);
+    this.provider = provider || null;
     this.queue = new PQueue({ 
       concurrency: this.MAX_CONCURRENT,
       interval: 1000, // 1 second
@@ -36,29 +98,49 @@ export class EmbeddingsService {
     });
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * Pick the collection and provider to use, then connect to both
+   * 
+   * With a database manager, the active collection recorded in `embedding_collections`
+   * decides the model, so vectors are never written into a collection built by a
+   * different model. Without one, the configured provider's own collection is used.
+   */
+  async initialize(options: EmbeddingsServiceOptions = {}): Promise<void> {
     try {
-      // Initialize OpenAI client
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error('OPENAI_API_KEY environment variable is required');
+      await this.vectorStore.open();
+      this.databaseManager = options.databaseManager || null;
+
+      let target: { name: string; spec?: EmbeddingModelSpec };
+      if (options.collectionName) {
+        if (!this.databaseManager) {
+          throw new Error('A database manager is required to open a registered collection');
+        }
+        const row = await this.databaseManager.getEmbeddingCollection(options.collectionName);
+        if (!row) {
+          throw new Error(`Unknown embedding collection: ${options.collectionName}`);
+        }
+        target = { name: row.name, spec: row };
+      } else if (this.databaseManager) {
+        const row = await this.resolveActiveCollection();
+        this.followActive = true;
+        target = { name: row.name, spec: row };
+      } else {
+        // Initialize embedding provider (EMBEDDING_PROVIDER=openai|local)
+        this.provider = this.provider || createEmbeddingProvider();
+        target = { name: collectionNameForModel(this.provider.model) };
       }
 
-      this.openai = new OpenAI({ apiKey });
-      logger.info('OpenAI client initialized');
+      await this.openCollection(target.name, target.spec);
 
-      // Test OpenAI connection with a small embedding
+      // Test the provider with a small embedding
       try {
         await this.generateEmbedding('test connection');
-        logger.info('OpenAI embedding test successful');
+        logger.info('Embedding provider test successful');
       } catch (error) {
-        logger.error('OpenAI embedding test failed:', error);
-        throw new Error(`OpenAI connection failed: ${error}`);
+        logger.error('Embedding provider test failed:', error);
+        throw new Error(`Embedding provider failed: ${error}`);
       }
 
-      // Initialize Chroma client
-      await this.initializeChroma();
-
       this.isInitialized = true;
       logger.info('EmbeddingsService initialized successfully');
     } catch (error) {
@@ -67,109 +149,125 @@ export class EmbeddingsService {
     }
   }
 
-  private async initializeChroma(): Promise<void> {
-    try {
-      // Ensure data directory exists
-      if (!fs.existsSync(this.chromaDataDir)) {
-        fs.mkdirSync(this.chromaDataDir, { recursive: true });
-        logger.info('Created Chroma data directory', { dataDir: this.chromaDataDir });
-      }
-
-      // Initialize Chroma client - use in-memory for now (can be changed to server mode later)
-      this.chroma = new ChromaClient();
+  /**
+   * Switch to a collection together with the provider that fills it
+   */
+  private async openCollection(name: string, spec?: EmbeddingModelSpec): Promise<void> {
+    const provider = spec && this.provider?.model !== spec.model
+      ? createProviderForSpec(spec)
+      : this.provider || createEmbeddingProvider();
 
+    try {
       // Create or get collection
-      try {
-        this.collection = await this.chroma.getOrCreateCollection({
-          name: this.COLLECTION_NAME,
-          metadata: {
-            "hnsw:space": "cosine",
-            "hnsw:construction_ef": 200,
-            "hnsw:M": 16
-          }
+      const collection = await this.vectorStore.getOrCreateCollection(name, {
+        embedding_provider: provider.name,
+        embedding_model: provider.model,
+        embedding_dim: provider.dimensions
+      }, this.STORAGE);
+      if (this.vectorStore.backend === 'embedded' && !sameStorage(collection.storage, this.STORAGE, provider.dimensions)) {
+        logger.warn('Vector collection was created with different storage settings; existing collections keep theirs', {
+          name,
+          stored: collection.storage,
+          configured: this.STORAGE,
+          hint: 'pnpm cli vectors compact'
         });
-        logger.info('Connected to Chroma collection', { name: this.COLLECTION_NAME });
-      } catch (error) {
-        logger.error('Failed to create/get Chroma collection:', error);
-        throw error;
       }
 
       // Test collection
-      const count = await this.collection.count();
-      logger.info('Chroma collection ready', { 
-        name: this.COLLECTION_NAME, 
-        documentCount: count 
+      const count = await collection.count();
+
+      this.provider = provider;
+      this.collection = collection;
+      this.collectionName = name;
+      logger.info('Vector collection ready', { 
+        name, 
+        backend: this.vectorStore.backend,
+        documentCount: count,
+        provider: provider.name,
+        model: provider.model,
+        dimensions: provider.dimensions,
+        storage: collection.storage
       });
     } catch (error) {
-      logger.error('Failed to initialize Chroma:', error);
+      logger.error('Failed to create/get vector collection:', error);
       throw error;
     }
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
+  /**
+   * Return the active collection, registering one on first run. A pre-existing
+   * unversioned `mem_text` collection is adopted as the OpenAI collection it was
+   * built as; otherwise the configured provider gets a fresh collection.
+   */
+  private async resolveActiveCollection(): Promise<EmbeddingCollectionRow> {
+    const active = await this.databaseManager!.getActiveEmbeddingCollection();
+    if (active) {
+      return active;
     }
 
-    if (!text || text.trim().length === 0) {
-      throw new Error('Text cannot be empty');
+    const legacy = await this.vectorStore.getCollection(LEGACY_COLLECTION_NAME);
+    const legacyCount = legacy ? await legacy.count() : 0;
+
+    const configured = this.provider || createEmbeddingProvider();
+    const spec: EmbeddingModelSpec = legacyCount > 0
+      ? LEGACY_MODEL_SPEC
+      : { provider: configured.name, model: configured.model, dimensions: configured.dimensions };
+    const row: EmbeddingCollectionRow = {
+      name: legacyCount > 0 ? LEGACY_COLLECTION_NAME : collectionNameForModel(configured.model),
+      provider: spec.provider,
+      model: spec.model,
+      dimensions: spec.dimensions,
+      status: 'active',
+      last_rowid: 0,
+      embedded_count: legacyCount,
+      created_at: Date.now(),
+      activated_at: Date.now()
+    };
+
+    await this.databaseManager!.saveEmbeddingCollection(row);
+    logger.info('Registered active embedding collection', { name: row.name, model: row.model });
+    if (row.model !== configured.model) {
+      logger.warn('Configured embedding model differs from the stored vectors; run `pnpm cli embeddings reembed` to migrate', {
+        stored: row.model,
+        configured: configured.model
+      });
     }
 
-    // Truncate text if too long (OpenAI has token limits)
-    const truncatedText = this.truncateText(text, 8000); // Conservative limit
+    return row;
+  }
 
-    return this.queue.add(async () => {
-      let lastError: Error | null = null;
-      
-      for (let attempt = 1; attempt <= this.RETRY_ATTEMPTS; attempt++) {
-        try {
-          logger.debug('Generating embedding', { 
-            textLength: truncatedText.length,
-            attempt,
-            model: this.EMBEDDING_MODEL
-          });
-
-          const startTime = Date.now();
-          const response = await this.openai!.embeddings.create({
-            model: this.EMBEDDING_MODEL,
-            input: truncatedText,
-            encoding_format: 'float',
-          });
-
-          const duration = Date.now() - startTime;
-          const embedding = response.data[0].embedding;
-
-          logger.debug('Embedding generated successfully', {
-            textLength: truncatedText.length,
-            embeddingDimensions: embedding.length,
-            duration: `${duration}ms`,
-            tokensUsed: response.usage?.total_tokens || 'unknown'
-          });
-
-          return embedding;
-        } catch (error: any) {
-          lastError = error;
-          logger.warn(`Embedding generation attempt ${attempt} failed:`, error.message);
-          
-          // If rate limited, wait longer
-          if (error.status === 429) {
-            const waitTime = Math.pow(2, attempt) * 1000; // Exponential backoff
-            logger.info(`Rate limited, waiting ${waitTime}ms before retry`);
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-          } else if (attempt === this.RETRY_ATTEMPTS) {
-            break; // Don't retry on non-rate-limit errors on final attempt
-          }
-        }
-      }
+  /**
+   * Follow a cutover to a new active collection (checked at most every few seconds)
+   */
+  async refreshActiveCollection(): Promise<void> {
+    if (!this.followActive || Date.now() - this.lastActiveCheck < this.ACTIVE_COLLECTION_REFRESH_MS) {
+      return;
+    }
+
+    this.lastActiveCheck = Date.now();
+    const active = await this.databaseManager!.getActiveEmbeddingCollection();
+    if (active && active.name !== this.collectionName) {
+      logger.info('Switching to new active embedding collection', {
+        from: this.collectionName,
+        to: active.name,
+        model: active.model
+      });
+      await this.openCollection(active.name, active);
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw new Error('Text cannot be empty');
+    }
 
-      logger.error('Failed to generate embedding after all retries:', lastError);
-      throw new Error(`Embedding generation failed: ${lastError?.message}`);
-    }) as Promise<number[]>;
+    const [embedding] = await this.generateEmbeddingsBatch([text]);
+    return embedding;
   }
 
   async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
+    if (!this.provider) {
+      throw new Error('Embedding provider not initialized');
     }
 
     if (texts.length === 0) {
@@ -177,11 +275,13 @@ export class EmbeddingsService {
     }
 
     // Process in batches
+    const provider = this.provider;
     const results: number[][] = [];
     
-    for (let i = 0; i < texts.length; i += this.BATCH_SIZE) {
-      const batch = texts.slice(i, i + this.BATCH_SIZE);
-      const truncatedBatch = batch.map(text => this.truncateText(text, 8000));
+    for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+      const batch = texts.slice(i, i + provider.maxBatchSize);
+      // Truncate text if too long (OpenAI has token limits)
+      const truncatedBatch = batch.map(text => this.truncateText(text, 8000)); // Conservative limit
       
       const batchEmbeddings = await this.queue.add(async () => {
         let lastError: Error | null = null;
@@ -191,24 +291,18 @@ export class EmbeddingsService {
             logger.debug('Generating batch embeddings', { 
               batchSize: truncatedBatch.length,
               attempt,
-              model: this.EMBEDDING_MODEL
+              provider: provider.name,
+              model: provider.model
             });
 
             const startTime = Date.now();
-            const response = await this.openai!.embeddings.create({
-              model: this.EMBEDDING_MODEL,
-              input: truncatedBatch,
-              encoding_format: 'float',
-            });
-
+            const embeddings = await provider.embed(truncatedBatch);
             const duration = Date.now() - startTime;
-            const embeddings = response.data.map(item => item.embedding);
 
             logger.debug('Batch embeddings generated successfully', {
               batchSize: truncatedBatch.length,
               embeddingDimensions: embeddings[0]?.length || 0,
-              duration: `${duration}ms`,
-              tokensUsed: response.usage?.total_tokens || 'unknown'
+              duration: `${duration}ms`
             });
 
             return embeddings;
@@ -216,8 +310,9 @@ export class EmbeddingsService {
             lastError = error;
             logger.warn(`Batch embedding attempt ${attempt} failed:`, error.message);
             
+            // If rate limited, wait longer
             if (error.status === 429) {
-              const waitTime = Math.pow(2, attempt) * 1000;
+              const waitTime = Math.pow(2, attempt) * 1000; // Exponential backoff
               logger.info(`Rate limited, waiting ${waitTime}ms before retry`);
               await new Promise(resolve => setTimeout(resolve, waitTime));
             } else if (attempt === this.RETRY_ATTEMPTS) {
@@ -235,26 +330,56 @@ export class EmbeddingsService {
     return results;
   }
 
+  /**
+   * The active embedding provider (available after initialize)
+   */
+  getProvider(): EmbeddingProvider | null {
+    return this.provider;
+  }
+
   async storeEmbedding(memoryObject: MemoryObjectWithEmbedding): Promise<void> {
+    return this.storeEmbeddings([memoryObject]);
+  }
+
+  /**
+   * Store a batch of embeddings with a single vector store write
+   */
+  async storeEmbeddings(memoryObjects: MemoryObjectWithEmbedding[]): Promise<void> {
     if (!this.collection) {
-      throw new Error('Chroma collection not initialized');
+      throw new Error('Vector collection not initialized');
     }
 
-    if (!memoryObject.embedding) {
-      throw new Error('Memory object must have embedding');
+    if (memoryObjects.length === 0) {
+      return;
+    }
+
+    const missing = memoryObjects.find(memoryObject => !memoryObject.embedding);
+    if (missing) {
+      throw new Error(`Memory object must have embedding (${missing.id})`);
+    }
+
+    // Never mix vectors from different models in one collection
+    const provider = this.provider!;
+    const mismatched = memoryObjects.find(memoryObject => memoryObject.embedding!.length !== provider.dimensions);
+    if (mismatched) {
+      throw new Error(
+        `Embedding for ${mismatched.id} has ${mismatched.embedding!.length} dimensions; ` +
+        `collection ${this.collectionName} holds ${provider.model} (${provider.dimensions})`
+      );
     }
 
     try {
-      logger.debug('Storing embedding in Chroma', {
-        id: memoryObject.id,
-        app: memoryObject.app,
-        embeddingDimensions: memoryObject.embedding.length
+      logger.debug('Storing embeddings', {
+        count: memoryObjects.length,
+        collection: this.collectionName,
+        embeddingDimensions: provider.dimensions
       });
 
-      await this.collection.add({
-        ids: [memoryObject.id],
-        embeddings: [memoryObject.embedding],
-        metadatas: [{
+      // Upsert so a retried or re-embedded memory replaces its previous vector
+      await this.collection.upsert(memoryObjects.map(memoryObject => ({
+        id: memoryObject.id,
+        embedding: memoryObject.embedding!,
+        metadata: this.sealMetadata({
           ts: memoryObject.ts,
           app: memoryObject.app,
           url_host: memoryObject.url_host || '',
@@ -263,22 +388,114 @@ export class EmbeddingsService {
           thumb_path: memoryObject.thumb_path || '',
           video_processed: memoryObject.video_processed || false,
           video_kept: memoryObject.video_kept !== false,
-          similarity_score: memoryObject.similarity_score || 0.0
-        }],
-        documents: [memoryObject.ocr_text]
-      });
+          similarity_score: memoryObject.similarity_score || 0.0,
+          embedding_model: provider.model,
+          embedding_dim: provider.dimensions
+        }),
+        document: this.seal(embeddingTextFor(memoryObject))
+      })));
+
+      logger.debug('Embeddings stored successfully', { count: memoryObjects.length });
+    } catch (error) {
+      logger.error('Failed to store embeddings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Name of the collection vectors are written to (after initialize)
+   */
+  getCollectionName(): string | null {
+    return this.collectionName;
+  }
+
+  /**
+   * A page of the ids in the active collection
+   */
+  async listStoredIds(offset: number, limit: number): Promise<string[]> {
+    if (!this.collection) {
+      throw new Error('Vector collection not initialized');
+    }
+    return this.collection.listIds(offset, limit);
+  }
+
+  /**
+   * Which of the given memories have a vector in the active collection
+   */
+  async findStoredIds(ids: string[]): Promise<Set<string>> {
+    if (!this.collection) {
+      throw new Error('Vector collection not initialized');
+    }
+    return this.collection.findIds(ids);
+  }
 
-      logger.debug('Embedding stored successfully in Chroma', { id: memoryObject.id });
+  /**
+   * Remove memories' vectors from the named collections (a building collection may
+   * already hold copies). Needs only the vector store, not an embedding provider.
+   */
+  async deleteEmbeddings(ids: string[], collectionNames: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      // An unreachable store fails the purge instead of being skipped
+      const existing = new Set(await this.vectorStore.listCollections());
+      for (const name of collectionNames.filter(name => existing.has(name))) {
+        const collection = await this.vectorStore.getCollection(name);
+        await collection?.delete(ids);
+        logger.debug('Deleted embeddings', { collection: name, count: ids.length });
+      }
     } catch (error) {
-      logger.error('Failed to store embedding in Chroma:', error);
+      logger.error('Failed to delete embeddings:', error);
       throw error;
     }
   }
 
+  /**
+   * Re-encrypt every document and sealed metadata value in the named collections with
+   * `next` (key rotation, or encrypting a plaintext store). Values already under `next`
+   * are skipped, so an interrupted rotation can be rerun. Returns the vectors rewritten.
+   */
+  async resealCollections(collectionNames: string[], next: MemoryCipher): Promise<number> {
+    const keyring = next.withPrevious(this.cipher);
+    const reseal = (value: string) => next.owns(value) ? value : next.encryptString(keyring.decryptString(value));
+    const pageSize = 500;
+    let rewritten = 0;
+
+    const existing = new Set(await this.vectorStore.listCollections());
+    for (const name of collectionNames.filter(name => existing.has(name))) {
+      const collection = (await this.vectorStore.getCollection(name))!;
+
+      for (let offset = 0; ; offset += pageSize) {
+        const page = await collection.list(offset, pageSize);
+        if (page.length === 0) break;
+
+        const stale = page
+          .filter(item => (item.document !== null && !next.owns(item.document))
+            || SEALED_METADATA.some(key => typeof item.metadata[key] === 'string' && item.metadata[key] !== '' && !next.owns(item.metadata[key] as string)));
+        if (stale.length === 0) continue;
+
+        await collection.update(stale.map(item => {
+          const metadata = { ...item.metadata };
+          for (const key of SEALED_METADATA) {
+            if (typeof metadata[key] === 'string' && metadata[key] !== '') {
+              metadata[key] = reseal(metadata[key] as string);
+            }
+          }
+          return { id: item.id, document: item.document === null ? '' : reseal(item.document), metadata };
+        }));
+        rewritten += stale.length;
+      }
+      logger.info('Resealed vector collection', { collection: name, key: next.fingerprint });
+    }
+    return rewritten;
+  }
+
   async searchSimilar(
     queryEmbedding: number[], 
     limit: number = 10,
-    filters?: { [key: string]: any }
+    filter?: VectorFilter
   ): Promise<{
     ids: string[];
     distances: number[];
@@ -286,32 +503,30 @@ export class EmbeddingsService {
     documents: string[];
   }> {
     if (!this.collection) {
-      throw new Error('Chroma collection not initialized');
+      throw new Error('Vector collection not initialized');
     }
 
     try {
       logger.debug('Searching similar embeddings', { 
         embeddingDimensions: queryEmbedding.length,
         limit,
-        filters
+        filter
       });
 
-      const results = await this.collection.query({
-        queryEmbeddings: [queryEmbedding],
-        nResults: limit,
-        where: filters,
-        include: ['metadata', 'documents', 'distances'] as any
-      });
+      const matches = await this.collection.query(queryEmbedding, limit, filter);
 
       logger.debug('Similar embeddings found', {
-        resultCount: results.ids[0]?.length || 0
+        resultCount: matches.length
       });
 
       return {
-        ids: results.ids[0] || [],
-        distances: results.distances?.[0] || [],
-        metadatas: results.metadatas?.[0] || [],
-        documents: (results.documents?.[0] || []).filter((doc): doc is string => doc !== null)
+        ids: matches.map(match => match.id),
+        distances: matches.map(match => match.distance),
+        metadatas: matches.map(match => this.openMetadata(match.metadata)),
+        documents: matches
+          .map(match => match.document)
+          .filter((doc): doc is string => doc !== null)
+          .map(doc => this.cipher ? this.cipher.decryptString(doc) : doc)
       };
     } catch (error) {
       logger.error('Failed to search similar embeddings:', error);
@@ -320,11 +535,14 @@ export class EmbeddingsService {
   }
 
   async getCollectionStats(): Promise<{
+    name: string | null;
+    model: string | null;
     count: number;
+    storage: VectorStorage;
     sampleMetadata?: any;
   }> {
     if (!this.collection) {
-      throw new Error('Chroma collection not initialized');
+      throw new Error('Vector collection not initialized');
     }
 
     try {
@@ -332,17 +550,53 @@ export class EmbeddingsService {
       
       let sampleMetadata = null;
       if (count > 0) {
-        const sample = await this.collection.peek({ limit: 1 });
-        sampleMetadata = sample.metadatas?.[0];
+        const [sample] = await this.collection.list(0, 1);
+        sampleMetadata = this.openMetadata(sample?.metadata);
       }
 
-      return { count, sampleMetadata };
+      return {
+        name: this.collectionName,
+        model: this.provider?.model || null,
+        count,
+        storage: this.collection.storage,
+        sampleMetadata
+      };
     } catch (error) {
       logger.error('Failed to get collection stats:', error);
       throw error;
     }
   }
 
+  private seal(text: string): string {
+    return this.cipher ? this.cipher.encryptString(text) : text;
+  }
+
+  private sealMetadata(metadata: { [key: string]: any }): { [key: string]: any } {
+    if (!this.cipher) {
+      return metadata;
+    }
+    const sealed = { ...metadata };
+    for (const key of SEALED_METADATA) {
+      if (typeof sealed[key] === 'string' && sealed[key] !== '') {
+        sealed[key] = this.cipher.encryptString(sealed[key]);
+      }
+    }
+    return sealed;
+  }
+
+  private openMetadata(metadata: any): any {
+    if (!metadata || !this.cipher) {
+      return metadata;
+    }
+    const opened = { ...metadata };
+    for (const key of SEALED_METADATA) {
+      if (typeof opened[key] === 'string') {
+        opened[key] = this.cipher.decryptString(opened[key]);
+      }
+    }
+    return opened;
+  }
+
   private truncateText(text: string, maxLength: number): string {
     if (text.length <= maxLength) {
       return text;
@@ -372,6 +626,12 @@ export class EmbeddingsService {
   }
 
   isReady(): boolean {
-    return this.isInitialized && !!this.openai && !!this.collection;
+    return this.isInitialized && !!this.provider && !!this.collection;
+  }
+
+  async close(): Promise<void> {
+    await this.vectorStore.close();
+    this.collection = null;
+    this.isInitialized = false;
   }
 }
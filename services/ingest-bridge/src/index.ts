@@ -1,14 +1,48 @@
 /**
  * Ingest Bridge Service
- * Normalizes Screenpipe events → SQLite + Chroma vectors
+ * Normalizes Screenpipe events → SQLite + vectors
  */
 
 import { logger } from './utils/logger';
-import { ScreenpipeClient } from './screenpipe/client';
+import {
+  ScreenpipeClient,
+  ScreenpipeEvent,
+  CursorStore,
+  IngestContentType,
+  IngestCursor
+} from './screenpipe/client';
 import { DatabaseManager } from './database/manager';
-import { EmbeddingsService } from './embeddings/service';
+import { MemoryPurger } from './database/memory-purger';
+import { QuotaManager } from './database/quota-manager';
+import { RetentionJob } from './database/retention-job';
+import { ConsistencyJob } from './embeddings/consistency-job';
+import { EmbeddingsService, embeddingTextFor } from './embeddings/service';
+import { ReembedJob } from './embeddings/reembed-job';
 import { ThumbnailGenerator } from './media/thumbnails';
 import { VideoProcessor } from './media/video-processor';
+import { DeadLetterQueue, FailedEvent } from './ingest/dead-letter-queue';
+import { EntityExtractor, formatEntity } from './ingest/entity-extractor';
+import { ExclusionRules, hostOf } from './ingest/exclusion-rules';
+import { MicroBatcher } from './ingest/micro-batcher';
+import { NearDuplicateDetector } from './ingest/near-duplicates';
+import { Redactor } from './ingest/redactor';
+import { TopicClassifier } from './ingest/topic-classifier';
+import { Sessionizer } from './ingest/sessionizer';
+import { TranscriptIngestor } from './ingest/transcripts';
+import { UiTextMerger } from './ingest/ui-text';
+import { IngestStage, MemoryObjectWithEmbedding } from './types/memory';
+
+// Per-event stages run as events arrive; the last three run once per micro-batch
+const INGEST_STAGES: IngestStage[] = ['video', 'thumbnail', 'embedding', 'store_sqlite', 'store_vector'];
+
+/**
+ * An event that has been through the per-event stages and is waiting for its batch
+ */
+interface PendingMemory {
+  event: ScreenpipeEvent;
+  memory: MemoryObjectWithEmbedding;
+  firstStage: number; // Index into INGEST_STAGES; earlier stages are already done
+}
 
 class IngestBridge {
   private screenpipeClient: ScreenpipeClient;
@@ -16,27 +50,89 @@ class IngestBridge {
   private embeddingsService: EmbeddingsService;
   private thumbnailGenerator: ThumbnailGenerator;
   private videoProcessor: VideoProcessor;
+  private deadLetters: DeadLetterQueue;
+  private reembedJob: ReembedJob;
+  private retention: RetentionJob;
+  private quota: QuotaManager;
+  private consistency: ConsistencyJob;
+  private transcripts: TranscriptIngestor;
+  private uiText: UiTextMerger;
+  private sessionizer: Sessionizer;
+  private entityExtractor: EntityExtractor;
+  private topicClassifier: TopicClassifier;
+  private redactor: Redactor;
+  private exclusions: ExclusionRules;
+  private nearDuplicates: NearDuplicateDetector;
+  private batcher: MicroBatcher<PendingMemory>;
+  private pendingCursor: { cursor: IngestCursor; watermark: number } | null = null;
   private isRunning = false;
+  private pollAbort: AbortController | null = null;
+
+  // Configuration
+  private readonly BATCH_SIZE = parseInt(process.env.INGEST_BATCH_SIZE || '32');
+  private readonly BATCH_MAX_LATENCY_MS = parseInt(process.env.INGEST_BATCH_MAX_LATENCY_MS || '2000');
+  private readonly AUDIO_ENABLED = process.env.INGEST_AUDIO !== 'false';
 
   constructor() {
     this.screenpipeClient = new ScreenpipeClient();
     this.databaseManager = new DatabaseManager();
     this.embeddingsService = new EmbeddingsService();
     this.thumbnailGenerator = new ThumbnailGenerator();
-    this.videoProcessor = new VideoProcessor();
+    this.videoProcessor = new VideoProcessor(this.databaseManager);
+    this.deadLetters = new DeadLetterQueue(this.databaseManager);
+    this.reembedJob = new ReembedJob(this.databaseManager);
+    const purger = new MemoryPurger(this.databaseManager, this.embeddingsService);
+    this.retention = new RetentionJob(this.databaseManager, purger);
+    this.quota = new QuotaManager(this.databaseManager, purger);
+    this.consistency = new ConsistencyJob(this.databaseManager, this.embeddingsService);
+    this.entityExtractor = new EntityExtractor();
+    this.topicClassifier = new TopicClassifier();
+    this.redactor = new Redactor();
+    this.exclusions = new ExclusionRules();
+    this.nearDuplicates = new NearDuplicateDetector(this.databaseManager);
+    this.transcripts = new TranscriptIngestor(
+      this.databaseManager,
+      this.embeddingsService,
+      this.entityExtractor,
+      this.topicClassifier
+    );
+    this.uiText = new UiTextMerger(this.screenpipeClient);
+    this.sessionizer = new Sessionizer(this.databaseManager);
+    this.batcher = new MicroBatcher(async batch => { await this.storeBatch(batch); }, {
+      maxSize: this.BATCH_SIZE,
+      maxLatencyMs: this.BATCH_MAX_LATENCY_MS,
+      onFlushed: () => this.commitCursor()
+    });
+  }
+
+  /**
+   * Open storage and embeddings without starting the polling loop
+   */
+  async initialize() {
+    await this.databaseManager.initialize();
+    await this.embeddingsService.initialize({ databaseManager: this.databaseManager });
   }
 
   async start() {
     logger.info('Starting Ingest Bridge Service...');
     
     try {
-      await this.databaseManager.initialize();
-      await this.embeddingsService.initialize();
+      await this.initialize();
       
       this.isRunning = true;
+      this.pollAbort = new AbortController();
       this.startPolling();
+      this.deadLetters.start(failed => this.ingestEvent(failed.event, failed));
+      this.retention.start();
+      this.quota.start();
+      this.consistency.start();
+      await this.reembedJob.resume(); // Continue an interrupted model migration
       
-      logger.info('Ingest Bridge Service started successfully');
+      logger.info('Ingest Bridge Service started successfully', {
+        audio: this.AUDIO_ENABLED,
+        batchSize: this.BATCH_SIZE,
+        batchMaxLatencyMs: this.BATCH_MAX_LATENCY_MS
+      });
     } catch (error) {
       logger.error('Failed to start Ingest Bridge Service:', error);
       throw error;
@@ -46,145 +142,428 @@ class IngestBridge {
   async stop() {
     logger.info('Stopping Ingest Bridge Service...');
     this.isRunning = false;
+    this.pollAbort?.abort();
+    this.deadLetters.stop();
+    this.retention.stop();
+    this.quota.stop();
+    this.consistency.stop();
+    await this.batcher.flush();
+    await this.reembedJob.stop();
   }
 
-  private async startPolling() {
-    while (this.isRunning) {
-      try {
-        // Poll Screenpipe for new events (placeholder)
-        await this.processNewEvents();
-        await new Promise(resolve => setTimeout(resolve, 5000)); // 5 second interval
-      } catch (error) {
-        logger.error('Error in polling cycle:', error);
-        await new Promise(resolve => setTimeout(resolve, 10000)); // Wait longer on error
+  private startPolling() {
+    // The cursor lives in SQLite so a restart resumes from the last processed frame.
+    // Saves are deferred until every event yielded before them has left the batcher.
+    this.pollLoop('ocr', {
+      load: () => this.databaseManager.getIngestCursor('ocr'),
+      save: async cursor => {
+        this.pendingCursor = { cursor, watermark: this.batcher.addedCount };
+        await this.commitCursor();
       }
+    }, events => this.processNewEvents(events));
+
+    // Transcripts are handled one at a time, so their cursor can be saved directly
+    if (this.AUDIO_ENABLED) {
+      this.pollLoop('audio', {
+        load: () => this.databaseManager.getIngestCursor('audio'),
+        save: cursor => this.databaseManager.saveIngestCursor('audio', cursor)
+      }, events => this.processAudioEvents(events));
     }
   }
 
-  private async processNewEvents() {
-    try {
-      logger.debug('Fetching new events from Screenpipe...');
-      
-      // Check if Screenpipe is healthy
+  private async pollLoop(
+    contentType: IngestContentType,
+    cursorStore: CursorStore,
+    handle: (events: ScreenpipeEvent[]) => Promise<void>
+  ) {
+    const signal = this.pollAbort!.signal;
+
+    while (this.isRunning && !signal.aborted) {
       try {
-        const health = await this.screenpipeClient.healthCheck();
-        if (health.status !== 'healthy') {
-          logger.warn('Screenpipe is not healthy', { status: health.status });
-          return;
+        const batches = this.screenpipeClient.pollEvents({
+          contentType,
+          pollIntervalMs: 5000, // 5 second interval
+          pageSize: 100,
+          cursorStore,
+          signal
+        });
+
+        for await (const events of batches) {
+          await handle(events);
+          if (!this.isRunning) break;
         }
       } catch (error) {
-        logger.warn('Failed to check Screenpipe health, skipping this cycle');
-        return;
+        logger.error('Error in polling cycle:', { contentType, error });
+        await new Promise(resolve => setTimeout(resolve, 10000)); // Wait longer on error
       }
+    }
+  }
 
-      // Fetch latest events from Screenpipe
-      const events = await this.screenpipeClient.getRecentEvents(undefined, 10);
-      
-      if (events.length === 0) {
-        logger.debug('No new events found');
-        return;
-      }
+  /**
+   * Persist the pending cursor once the batcher has flushed everything before it
+   */
+  private async commitCursor(): Promise<void> {
+    const pending = this.pendingCursor;
+    if (!pending || this.batcher.flushedCount < pending.watermark) {
+      return;
+    }
+
+    this.pendingCursor = null;
+    await this.databaseManager.saveIngestCursor('ocr', pending.cursor);
+  }
 
+  private async processNewEvents(events: ScreenpipeEvent[]) {
+    try {
       logger.info(`Processing ${events.length} new events`);
 
+      // Pair frames with accessibility-tree text of the same window, when available
+      await this.uiText.attach(events);
+
       for (const event of events) {
+        // 1. Validate event data and drop excluded apps/sites
+        if (!this.validateEvent(event)) {
+          continue;
+        }
+
+        // 2. Check if we've already processed this event (e.g. re-fetched after a restart)
+        const exists = await this.databaseManager.eventExists(event.id);
+        if (exists) {
+          logger.debug('Event already processed, skipping', { eventId: event.id });
+          continue;
+        }
+
+        // Failed events are owned by the retrier until they succeed or are discarded
+        if (await this.deadLetters.has(event.id)) {
+          logger.debug('Event is in the dead-letter queue, skipping', { eventId: event.id });
+          continue;
+        }
+
         try {
-          // 1. Validate event data
-          if (!this.validateEvent(event)) {
-            logger.warn('Invalid event data, skipping', { eventId: event.id });
-            continue;
+          const pending = await this.prepareEvent(event);
+          if (pending) {
+            await this.batcher.add(pending);
           }
+        } catch (error: any) {
+          logger.error('Failed to process individual event', { 
+            eventId: event.id, 
+            error: error.message 
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Error in processNewEvents:', error);
+    }
+  }
 
-          // 2. Check if we've already processed this event
-          const exists = await this.databaseManager.eventExists(event.id);
-          if (exists) {
-            logger.debug('Event already processed, skipping', { eventId: event.id });
-            continue;
-          }
+  private async processAudioEvents(events: ScreenpipeEvent[]) {
+    logger.info(`Processing ${events.length} new transcripts`);
 
-          // 3. Process video file for similarity checking and cleanup scheduling
-          let shouldKeepVideo = true;
-          let videoProcessingInfo = null;
-          if (event.media_path) {
-            const videoResult = await this.videoProcessor.processVideoFile(
-              event.media_path, 
-              event.ocr_text
-            );
-            shouldKeepVideo = videoResult.shouldKeep;
-            videoProcessingInfo = videoResult;
-            
-            logger.debug('Video processing result', {
-              eventId: event.id,
-              shouldKeep: shouldKeepVideo,
-              similarityScore: videoResult.similarityResult.similarityScore,
-              isDuplicate: videoResult.similarityResult.isDuplicate
-            });
-          }
+    for (const event of events) {
+      if (!event.transcription?.trim()) {
+        continue;
+      }
 
-          // 4. Create memory object
-          const memoryObject = this.transformToMemoryObject(event);
+      if (this.isExcluded(event)) {
+        continue;
+      }
 
-          // 5. Generate embeddings (always generate for OCR text)
-          const embeddings = await this.embeddingsService.generateEmbedding(event.ocr_text);
-          
-          // 6. Generate thumbnail if media exists and we're keeping the video
-          let thumbnailPath;
-          if (event.media_path && shouldKeepVideo) {
-            thumbnailPath = await this.thumbnailGenerator.generateThumbnail(
-              event.media_path,
-              event.id
-            );
-          }
+      if (await this.deadLetters.has(event.id)) {
+        logger.debug('Transcript is in the dead-letter queue, skipping', { eventId: event.id });
+        continue;
+      }
+
+      try {
+        await this.ingestTranscript(event);
+      } catch (error: any) {
+        logger.error('Failed to process transcript', { eventId: event.id, error: error.message });
+      }
+    }
+  }
 
-          // 7. Create complete memory object with embedding
-          const completeMemoryObject = {
-            ...memoryObject,
-            thumb_path: thumbnailPath,
-            embedding: embeddings,
-            // Add metadata about video processing
-            video_processed: !!videoProcessingInfo,
-            video_kept: shouldKeepVideo,
-            similarity_score: videoProcessingInfo?.similarityResult.similarityScore || 0
-          };
+  /**
+   * Store a transcript as an audio memory, dead-lettering failures
+   */
+  private async ingestTranscript(event: ScreenpipeEvent): Promise<void> {
+    this.redactor.redactEvent(event);
+    try {
+      const outcome = await this.transcripts.ingest(event);
+      logger.debug('Processed transcript', { eventId: event.id, outcome });
+    } catch (error) {
+      await this.deadLetters.recordFailure(event, 'transcript', error, null);
+      throw error;
+    }
+  }
 
-          // 8. Store in SQLite database
-          await this.databaseManager.storeMemoryObject(completeMemoryObject);
+  /**
+   * Run the per-event stages (video dedup, thumbnail). Returns null for a
+   * near-duplicate, which is recorded against its canonical memory instead.
+   * 
+   * When `resume` is given (a dead letter), stages before the one that failed are
+   * skipped and their results are taken from the saved partial memory object.
+   * Any failure is recorded in the dead-letter queue before being rethrown.
+   */
+  private async prepareEvent(event: ScreenpipeEvent, resume?: FailedEvent): Promise<PendingMemory | null> {
+    const firstStage = resume ? INGEST_STAGES.indexOf(resume.stage) : 0;
+    const shouldRun = (stage: IngestStage) => INGEST_STAGES.indexOf(stage) >= firstStage;
 
-          // 9. Store embedding in Chroma vector database
-          await this.embeddingsService.storeEmbedding(completeMemoryObject);
+    // 3. Redact secrets (before the event can reach storage or the DLQ), then create memory object
+    this.redactor.redactEvent(event);
+    const memory: MemoryObjectWithEmbedding = {
+      ...this.transformToMemoryObject(event),
+      ...(resume?.partial || {})
+    };
+    let stage: IngestStage = INGEST_STAGES[firstStage];
 
-          logger.debug('Successfully processed event', { 
-            eventId: event.id, 
+    // 4. Fold a capture whose text nearly repeats a recent one into that memory
+    if (!resume && await this.foldNearDuplicate(memory)) {
+      return null;
+    }
+
+    try {
+      // 5. Decode and hash the frame for similarity checking
+      stage = 'video';
+      let frame: Buffer | null = null;
+      if (shouldRun(stage)) {
+        // Updated in place: the near-duplicate detector holds this object until it is stored
+        Object.assign(memory, { video_processed: false, video_kept: true, similarity_score: 0 });
+
+        if (event.media_path) {
+          const videoResult = await this.videoProcessor.processVideoFile(event.media_path, {
+            memoryId: event.id,
             app: event.app,
-            textLength: event.ocr_text.length,
-            videoKept: shouldKeepVideo,
-            hasThumbnail: !!thumbnailPath
+            windowTitle: event.window_title,
+            timestamp: event.timestamp,
+            frameIndex: event.offset_index
           });
-        } catch (error: any) {
-          logger.error('Failed to process individual event', { 
-            eventId: event.id, 
-            error: error.message 
+          frame = videoResult.frame;
+          Object.assign(memory, {
+            video_processed: true,
+            video_kept: videoResult.shouldKeep,
+            similarity_score: videoResult.similarityResult.similarityScore || 0
+          });
+          
+          logger.debug('Video processing result', {
+            eventId: event.id,
+            shouldKeep: videoResult.shouldKeep,
+            similarityScore: videoResult.similarityResult.similarityScore,
+            distance: videoResult.similarityResult.distance,
+            isDuplicate: videoResult.similarityResult.isDuplicate
           });
         }
       }
+
+      // 6. Generate thumbnail renditions if media exists and we're keeping the video
+      stage = 'thumbnail';
+      if (shouldRun(stage) && event.media_path && memory.video_kept !== false) {
+        memory.renditions = await this.thumbnailGenerator.generateRenditions(
+          event.media_path,
+          event.id,
+          { frameIndex: event.offset_index, timestamp: event.timestamp },
+          frame
+        );
+        memory.thumb_path = memory.renditions?.[this.thumbnailGenerator.cardRendition]?.path || null;
+      }
     } catch (error) {
-      logger.error('Error in processNewEvents:', error);
+      await this.deadLetters.recordFailure(event, stage, error, memory);
+      throw error;
+    }
+
+    return { event, memory, firstStage };
+  }
+
+  /**
+   * Check a new memory against recent ones of the same window; true if it was folded
+   * into one. Suppression only saves space, so a failed check lets the memory through.
+   */
+  private async foldNearDuplicate(memory: MemoryObjectWithEmbedding): Promise<boolean> {
+    try {
+      const canonical = await this.nearDuplicates.findCanonical(memory);
+      if (!canonical) {
+        return false;
+      }
+      await this.nearDuplicates.suppress(memory, canonical);
+      return true;
+    } catch (error) {
+      logger.warn('Near-duplicate check failed, storing memory', { eventId: memory.id, error: String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Run the batched stages: one embedding request, one SQLite write and one
+   * vector store write for the whole batch. If a stage fails, every event that reached
+   * it is dead-lettered at that stage and the rest of the batch is unaffected.
+   * Returns the events that failed.
+   */
+  private async storeBatch(batch: PendingMemory[]): Promise<PendingMemory[]> {
+    const startTime = Date.now();
+    const failed: PendingMemory[] = [];
+    let remaining = batch;
+
+    // Write with the active embedding model, following any re-embed cutover. Without it
+    // nothing can be embedded or stored, so the whole batch retries from embedding.
+    try {
+      await this.embeddingsService.refreshActiveCollection();
+    } catch (error) {
+      logger.error('Batch stage failed', { stage: 'embedding', batchSize: batch.length, error: String(error) });
+      for (const pending of batch) {
+        await this.deadLetters.recordFailure(pending.event, 'embedding', error, pending.memory);
+      }
+      return batch;
+    }
+
+    const runStage = async (stage: IngestStage, work: (due: PendingMemory[]) => Promise<void>) => {
+      const due = remaining.filter(pending => pending.firstStage <= INGEST_STAGES.indexOf(stage));
+      if (due.length === 0) return;
+
+      try {
+        await work(due);
+      } catch (error) {
+        logger.error('Batch stage failed', { stage, batchSize: due.length, error: String(error) });
+        for (const pending of due) {
+          await this.deadLetters.recordFailure(pending.event, stage, error, pending.memory);
+        }
+        failed.push(...due);
+        remaining = remaining.filter(pending => !due.includes(pending));
+      }
+    };
+
+    // 7. Generate embeddings for the whole batch in one request
+    await runStage('embedding', async due => {
+      const embeddings = await this.embeddingsService.generateEmbeddingsBatch(
+        due.map(pending => embeddingTextFor(pending.memory))
+      );
+      due.forEach((pending, i) => {
+        pending.memory.embedding = embeddings[i];
+      });
+    });
+
+    // 8. Group into sessions and store in SQLite database, in one transaction
+    await runStage('store_sqlite', async due => {
+      const memories = due.map(pending => pending.memory);
+      const sessions = await this.sessionizer.assign(memories);
+      try {
+        await this.databaseManager.storeMemoryObjects(memories, sessions);
+        this.nearDuplicates.markStored(memories);
+      } catch (error) {
+        // Nothing was written, so the sessions extended above don't exist either
+        this.sessionizer.reload();
+        throw error;
+      }
+    });
+
+    // 9. Store embeddings in the vector store
+    await runStage('store_vector', due =>
+      this.embeddingsService.storeEmbeddings(due.map(pending => pending.memory))
+    );
+
+    logger.debug('Batch processed', {
+      batchSize: batch.length,
+      stored: remaining.length,
+      failed: failed.length,
+      duration: `${Date.now() - startTime}ms`
+    });
+
+    return failed;
+  }
+
+  /**
+   * Run a single event through every stage (used for dead-letter retries)
+   */
+  private async ingestEvent(event: ScreenpipeEvent, resume?: FailedEvent): Promise<void> {
+    // Rules added since the event failed still apply; dropping it clears the dead letter
+    if (this.isExcluded(event)) {
+      return;
+    }
+
+    if (event.content_type === 'audio') {
+      return this.ingestTranscript(event);
+    }
+
+    const pending = await this.prepareEvent(event, resume);
+    if (!pending) {
+      return;
+    }
+    const failed = await this.storeBatch([pending]);
+    if (failed.length > 0) {
+      throw new Error(`Event ${event.id} failed ingestion again`);
+    }
+
+    logger.debug('Successfully processed event', { 
+      eventId: event.id, 
+      app: event.app,
+      videoKept: pending.memory.video_kept,
+      hasThumbnail: !!pending.memory.thumb_path,
+      resumedFrom: resume?.stage
+    });
+  }
+
+  /**
+   * Retry dead letters immediately (all pending and dead ones when no ids are given)
+   */
+  async retryDeadLetters(eventIds?: string[]): Promise<{ eventId: string; success: boolean }[]> {
+    const targets: FailedEvent[] = [];
+
+    if (eventIds) {
+      for (const eventId of eventIds) {
+        const failed = await this.deadLetters.get(eventId);
+        if (failed) {
+          targets.push(failed);
+        } else {
+          logger.warn('No dead letter with this event id', { eventId });
+        }
+      }
+    } else {
+      targets.push(...await this.deadLetters.list(undefined, Number.MAX_SAFE_INTEGER));
+    }
+
+    const results: { eventId: string; success: boolean }[] = [];
+    for (const failed of targets) {
+      const success = await this.deadLetters.retry(failed, f => this.ingestEvent(f.event, f));
+      results.push({ eventId: failed.eventId, success });
     }
+
+    return results;
   }
 
+  /**
+   * Well-formed events that no exclusion rule matches; anything else is logged and dropped
+   */
   private validateEvent(event: any): boolean {
-    return (
+    const valid = (
       event &&
       typeof event.id === 'string' &&
       typeof event.timestamp === 'number' &&
       typeof event.app === 'string' &&
       typeof event.ocr_text === 'string' &&
-      event.ocr_text.length > 0
+      (event.ocr_text.length > 0 || (typeof event.ui_text === 'string' && event.ui_text.length > 0))
     );
+    if (!valid) {
+      logger.warn('Invalid event data, skipping', { eventId: event?.id });
+      return false;
+    }
+
+    return !this.isExcluded(event);
   }
 
-  private transformToMemoryObject(event: any): any {
-    return {
+  private isExcluded(event: ScreenpipeEvent): boolean {
+    const rule = this.exclusions.match({
+      app: event.app,
+      url_host: hostOf(event.url),
+      window_title: event.window_title,
+      ts: event.timestamp
+    });
+    if (!rule) {
+      return false;
+    }
+
+    this.exclusions.recordHit(rule);
+    logger.debug('Event matches an exclusion rule, dropping', { eventId: event.id, rule });
+    return true;
+  }
+
+  private transformToMemoryObject(event: ScreenpipeEvent): MemoryObjectWithEmbedding {
+    const memory: MemoryObjectWithEmbedding = {
       id: event.id,
       ts: event.timestamp,
       app: event.app,
@@ -193,10 +572,15 @@ class IngestBridge {
       url_host: event.url ? new URL(event.url).hostname : null,
       media_path: event.media_path || null,
       ocr_text: event.ocr_text,
-      asr_text: null, // Audio transcription not implemented yet
-      entities: [],
-      topics: [],
+      ocr_boxes: event.ocr_boxes && event.ocr_boxes.length > 0 ? event.ocr_boxes : null,
+      asr_text: null, // Transcripts are attached later by the audio poller
+      ui_text: event.ui_text || null,
+      text_source: event.ui_text ? 'ui' : 'ocr',
+      entities: this.entityExtractor.extract(event.ui_text || event.ocr_text, event.window_title).map(formatEntity),
+      redactions: event.redactions || {},
     };
+    memory.topics = this.topicClassifier.classify(memory);
+    return memory;
   }
 
   /**
@@ -209,12 +593,19 @@ class IngestBridge {
     thumbnails: any;
     videoProcessing: any;
     queue: any;
+    deadLetters: any;
+    exclusions: any;
+    nearDuplicates: any;
+    retention: any;
+    storage: any;
+    consistency: any;
   }> {
     try {
-      const [dbStats, embeddingStats, thumbnailStats] = await Promise.all([
+      const [dbStats, embeddingStats, thumbnailStats, deadLetterStats] = await Promise.all([
         this.databaseManager.getStats(),
         this.embeddingsService.getCollectionStats(),
-        Promise.resolve(this.thumbnailGenerator.getStats())
+        Promise.resolve(this.thumbnailGenerator.getStats()),
+        this.deadLetters.getStats()
       ]);
 
       return {
@@ -223,7 +614,13 @@ class IngestBridge {
         embeddings: embeddingStats,
         thumbnails: thumbnailStats,
         videoProcessing: this.videoProcessor.getStats(),
-        queue: this.embeddingsService.getQueueStats()
+        queue: this.embeddingsService.getQueueStats(),
+        deadLetters: deadLetterStats,
+        exclusions: this.exclusions.getStats(),
+        nearDuplicates: this.nearDuplicates.getStats(),
+        retention: this.retention.getStats(),
+        storage: this.quota.getStats(),
+        consistency: this.consistency.getStats()
       };
     } catch (error) {
       logger.error('Failed to get processing stats:', error);
@@ -233,7 +630,13 @@ class IngestBridge {
         embeddings: { error: 'Failed to get embedding stats' },
         thumbnails: { error: 'Failed to get thumbnail stats' },
         videoProcessing: this.videoProcessor.getStats(),
-        queue: { error: 'Failed to get queue stats' }
+        queue: { error: 'Failed to get queue stats' },
+        deadLetters: { error: 'Failed to get dead-letter stats' },
+        exclusions: this.exclusions.getStats(),
+        nearDuplicates: this.nearDuplicates.getStats(),
+        retention: this.retention.getStats(),
+        storage: this.quota.getStats(),
+        consistency: this.consistency.getStats()
       };
     }
   }
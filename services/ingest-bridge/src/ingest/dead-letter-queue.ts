@@ -0,0 +1,214 @@
+/**
+ * Dead-Letter Queue
+ * Keeps events that failed ingestion and retries them with exponential backoff
+ */
+
+import { DatabaseManager, FailedEventRow } from '../database/manager';
+import { ScreenpipeEvent } from '../screenpipe/client';
+import { IngestStage, MemoryObjectWithEmbedding } from '../types/memory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('dead-letter-queue');
+
+export interface FailedEvent {
+  eventId: string;
+  event: ScreenpipeEvent;
+  stage: IngestStage;
+  error: string;
+  attempts: number;
+  partial: Partial<MemoryObjectWithEmbedding> | null; // Work completed before the failing stage
+  status: 'pending' | 'dead';
+  firstFailedAt: number;
+  lastFailedAt: number;
+  nextRetryAt: number | null;
+}
+
+export type RetryHandler = (failed: FailedEvent) => Promise<void>;
+
+export class DeadLetterQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private isRetrying = false;
+  private readonly BASE_DELAY_MS = 30000;        // First retry after 30 seconds
+  private readonly MAX_DELAY_MS = 60 * 60 * 1000; // Never wait more than an hour
+  private readonly MAX_ATTEMPTS = 8;             // Then park the event as dead
+  private readonly RETRY_INTERVAL_MS = 30000;
+  private readonly RETRY_BATCH_SIZE = 20;
+
+  constructor(private databaseManager: DatabaseManager) {}
+
+  /**
+   * Record a failure, scheduling the next retry or marking the event dead
+   */
+  async recordFailure(
+    event: ScreenpipeEvent,
+    stage: IngestStage,
+    error: unknown,
+    partial: Partial<MemoryObjectWithEmbedding> | null
+  ): Promise<FailedEvent> {
+    const existing = await this.databaseManager.getFailedEvent(event.id);
+    const now = Date.now();
+    const attempts = (existing?.attempts || 0) + 1;
+    const status = attempts >= this.MAX_ATTEMPTS ? 'dead' : 'pending';
+
+    const failed: FailedEvent = {
+      eventId: event.id,
+      event,
+      stage,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      partial,
+      status,
+      firstFailedAt: existing?.first_failed_at || now,
+      lastFailedAt: now,
+      nextRetryAt: status === 'pending' ? now + this.getRetryDelay(attempts) : null
+    };
+
+    await this.databaseManager.upsertFailedEvent(this.toRow(failed));
+
+    logger.warn('Event moved to dead-letter queue', {
+      eventId: event.id,
+      stage,
+      attempts,
+      status,
+      error: failed.error,
+      nextRetryAt: failed.nextRetryAt ? new Date(failed.nextRetryAt).toISOString() : null
+    });
+
+    return failed;
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m, ... capped at one hour
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(this.BASE_DELAY_MS * Math.pow(2, attempts - 1), this.MAX_DELAY_MS);
+  }
+
+  async has(eventId: string): Promise<boolean> {
+    return !!(await this.databaseManager.getFailedEvent(eventId));
+  }
+
+  async get(eventId: string): Promise<FailedEvent | null> {
+    const row = await this.databaseManager.getFailedEvent(eventId);
+    return row ? this.fromRow(row) : null;
+  }
+
+  async list(status?: 'pending' | 'dead', limit: number = 50): Promise<FailedEvent[]> {
+    const rows = await this.databaseManager.listFailedEvents(status, limit);
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async discard(eventId: string): Promise<boolean> {
+    const removed = await this.databaseManager.deleteFailedEvent(eventId);
+    if (removed) {
+      logger.info('Discarded dead letter', { eventId });
+    }
+    return removed;
+  }
+
+  async resolve(eventId: string): Promise<void> {
+    await this.databaseManager.deleteFailedEvent(eventId);
+  }
+
+  async getStats(): Promise<{ pending: number; dead: number }> {
+    return this.databaseManager.getFailedEventCounts();
+  }
+
+  /**
+   * Retry a single failed event now, regardless of its schedule or status
+   */
+  async retry(failed: FailedEvent, handler: RetryHandler): Promise<boolean> {
+    try {
+      await handler(failed);
+      await this.resolve(failed.eventId);
+      logger.info('Dead letter retried successfully', {
+        eventId: failed.eventId,
+        resumedFrom: failed.stage,
+        attempts: failed.attempts
+      });
+      return true;
+    } catch (error) {
+      // The handler records the new failure (and stage) itself
+      logger.debug('Dead letter retry failed', { eventId: failed.eventId, error: String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Retry every pending event whose backoff has elapsed
+   */
+  async retryDue(handler: RetryHandler): Promise<{ retried: number; succeeded: number }> {
+    const rows = await this.databaseManager.getDueFailedEvents(Date.now(), this.RETRY_BATCH_SIZE);
+    let succeeded = 0;
+
+    for (const row of rows) {
+      if (await this.retry(this.fromRow(row), handler)) {
+        succeeded++;
+      }
+    }
+
+    if (rows.length > 0) {
+      logger.info('Dead-letter retry cycle completed', { retried: rows.length, succeeded });
+    }
+
+    return { retried: rows.length, succeeded };
+  }
+
+  /**
+   * Start the background retrier
+   */
+  start(handler: RetryHandler): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(async () => {
+      if (this.isRetrying) return;
+      this.isRetrying = true;
+      try {
+        await this.retryDue(handler);
+      } catch (error) {
+        logger.error('Dead-letter retry cycle failed:', error);
+      } finally {
+        this.isRetrying = false;
+      }
+    }, this.RETRY_INTERVAL_MS);
+
+    logger.info('Dead-letter retrier started', { intervalMs: this.RETRY_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private toRow(failed: FailedEvent): FailedEventRow {
+    return {
+      event_id: failed.eventId,
+      event_json: JSON.stringify(failed.event),
+      stage: failed.stage,
+      error: failed.error,
+      attempts: failed.attempts,
+      partial_json: failed.partial ? JSON.stringify(failed.partial) : null,
+      status: failed.status,
+      first_failed_at: failed.firstFailedAt,
+      last_failed_at: failed.lastFailedAt,
+      next_retry_at: failed.nextRetryAt
+    };
+  }
+
+  private fromRow(row: FailedEventRow): FailedEvent {
+    return {
+      eventId: row.event_id,
+      event: JSON.parse(row.event_json),
+      stage: row.stage as IngestStage,
+      error: row.error,
+      attempts: row.attempts,
+      partial: row.partial_json ? JSON.parse(row.partial_json) : null,
+      status: row.status as 'pending' | 'dead',
+      firstFailedAt: row.first_failed_at,
+      lastFailedAt: row.last_failed_at,
+      nextRetryAt: row.next_retry_at
+    };
+  }
+}
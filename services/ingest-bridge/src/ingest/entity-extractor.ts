@@ -0,0 +1,241 @@
+/**
+ * Entity Extractor
+ * Local, rule- and dictionary-based extraction of people, organizations, products,
+ * emails, URLs, file paths, order numbers and currency amounts from memory text
+ */
+
+import fs from 'fs';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('entity-extractor');
+
+export type EntityType =
+  | 'person'
+  | 'organization'
+  | 'product'
+  | 'email'
+  | 'url'
+  | 'file_path'
+  | 'order_number'
+  | 'amount';
+
+export interface ExtractedEntity {
+  type: EntityType;
+  value: string; // Normalized form, e.g. "USD 3495.00" or "github.com/org/repo"
+}
+
+/**
+ * Names matched verbatim (case-insensitive, whole words). Extend with ENTITY_DICTIONARY_PATH.
+ */
+export interface EntityDictionary {
+  person?: string[];
+  organization?: string[];
+  product?: string[];
+}
+
+const DEFAULT_DICTIONARY: Required<EntityDictionary> = {
+  person: [],
+  organization: [
+    // Only names that are rarely ordinary words ("Word", "Teams" and "Visa" are left out)
+    'Apple', 'Google', 'Microsoft', 'Amazon', 'Netflix', 'OpenAI', 'Anthropic',
+    'GitHub', 'GitLab', 'Figma', 'Stripe', 'Shopify', 'Spotify', 'YouTube', 'LinkedIn',
+    'Reddit', 'Uber', 'Airbnb', 'Tesla', 'Nvidia', 'Intel', 'AMD', 'IBM', 'Salesforce',
+    'Adobe', 'Samsung', 'Sony', 'Omega', 'Rolex', 'Nike', 'Adidas', 'IKEA', 'PayPal',
+    'Mastercard', 'FedEx', 'DHL'
+  ],
+  product: [
+    'iPhone', 'iPad', 'MacBook', 'MacBook Pro', 'MacBook Air', 'iMac', 'Apple Watch', 'AirPods',
+    'Google Pixel', 'Samsung Galaxy', 'Kindle', 'Amazon Echo', 'PlayStation', 'Xbox',
+    'Nintendo Switch', 'Seamaster', 'Speedmaster', 'Submariner', 'Firefox', 'VS Code',
+    'Visual Studio Code', 'Photoshop', 'PowerPoint', 'Microsoft Word', 'Microsoft Excel',
+    'Microsoft Teams', 'ChatGPT', 'Apex Legends', 'Fortnite', 'Minecraft'
+  ]
+};
+
+// Currency symbols and codes → ISO code
+const CURRENCIES: { [symbol: string]: string } = {
+  '$': 'USD', 'US$': 'USD', 'USD': 'USD',
+  '£': 'GBP', 'GBP': 'GBP',
+  '€': 'EUR', 'EUR': 'EUR',
+  '¥': 'JPY', 'JPY': 'JPY',
+  '₹': 'INR', 'INR': 'INR',
+  'CAD': 'CAD', 'AUD': 'AUD', 'CHF': 'CHF'
+};
+
+const CURRENCY_PATTERN = '(US\\$|\\$|£|€|¥|₹|USD|GBP|EUR|JPY|INR|CAD|AUD|CHF)';
+const NUMBER_PATTERN = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?)';
+
+const PATTERNS = {
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  url: /\bhttps?:\/\/[^\s<>"'()]+/gi,
+  // Absolute/home paths, Windows paths, and relative paths with a file extension
+  filePath: /(?:^|[\s"'(=])((?:~|\.{1,2})?\/(?:[\w.@-]+\/)*[\w.@-]+\.[A-Za-z0-9]{1,6}|[A-Za-z]:\\(?:[\w .@-]+\\)*[\w .@-]+\.[A-Za-z0-9]{1,6}|(?:[\w.@-]+\/)+[\w.@-]+\.[A-Za-z][A-Za-z0-9]{0,5})(?=$|[\s"'),:;])/gm,
+  // Amazon-style (123-1234567-1234567) or labelled order/confirmation numbers
+  orderNumber: /\b(\d{3}-\d{7}-\d{7})\b|\b(?:order|confirmation|booking|invoice|tracking)(?:\s+(?:number|no\.?|id))?\s*[:#]?\s*#?\s*([A-Z0-9][A-Z0-9-]{4,})\b/gi,
+  amountPrefix: new RegExp(`${CURRENCY_PATTERN}\\s?${NUMBER_PATTERN}(?![\\d])`, 'g'),
+  amountSuffix: new RegExp(`(?<![\\d.,])${NUMBER_PATTERN}\\s?(USD|GBP|EUR|JPY|INR|CAD|AUD|CHF|€)\\b`, 'g'),
+  // "Inc."-style suffixes mark organizations the dictionary doesn't know
+  organizationSuffix: /\b((?:[A-Z][\w&'-]*[ \t]+){0,3}[A-Z][\w&'-]*),?[ \t]+(Inc|LLC|Ltd|Corp|Corporation|GmbH|Company|Co|PLC|AG|SA)\b\.?/g,
+  // Capitalized names after a cue word: "From: Jane Doe", "with Jane Doe", "Dear Jane Doe"
+  personCue: /\b(?:from|to|cc|by|with|dear|hi|hey|thanks|attendees?|organizer|assignee|author)\b:?[ \t]+([A-Z][a-z'-]+(?:[ \t]+[A-Z][a-z'-]+){1,2})\b/gi,
+  // Display names in address headers: "Jane Doe <jane@example.com>"
+  personAddress: /\b([A-Z][a-z'-]+(?:[ \t]+[A-Z][a-z'-]+){1,2})[ \t]*<[^>\s]+@[^>\s]+>/g
+};
+
+// Capitalized words a cue pattern picks up that are not names
+const NOT_NAMES = new Set([
+  'The', 'This', 'That', 'Your', 'Our', 'All', 'New', 'Re', 'Fwd', 'Inbox', 'Team', 'Everyone',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'Today', 'Tomorrow'
+]);
+
+export class EntityExtractor {
+  private dictionary: Required<EntityDictionary>;
+  private dictionaryPatterns: { type: EntityType; name: string; pattern: RegExp }[];
+
+  // Configuration
+  private readonly MAX_ENTITIES = parseInt(process.env.ENTITY_MAX_PER_MEMORY || '50');
+
+  constructor(dictionary: EntityDictionary = loadDictionary(process.env.ENTITY_DICTIONARY_PATH)) {
+    this.dictionary = {
+      person: [...DEFAULT_DICTIONARY.person, ...(dictionary.person || [])],
+      organization: [...DEFAULT_DICTIONARY.organization, ...(dictionary.organization || [])],
+      product: [...DEFAULT_DICTIONARY.product, ...(dictionary.product || [])]
+    };
+
+    this.dictionaryPatterns = (['person', 'organization', 'product'] as const)
+      .flatMap(type => this.dictionary[type].map(name => ({
+        type,
+        name,
+        pattern: new RegExp(`(?<![\\w])${escapeRegExp(name)}(?![\\w])`, 'i')
+      })))
+      // Longest first, so "MacBook Pro" wins over "MacBook" and "Amazon Echo" over "Amazon"
+      .sort((a, b) => b.name.length - a.name.length);
+  }
+
+  /**
+   * Extract normalized, de-duplicated entities from one or more texts
+   */
+  extract(...texts: (string | null | undefined)[]): ExtractedEntity[] {
+    let text = texts.filter(Boolean).join('\n');
+    const found = new Map<string, ExtractedEntity>();
+    const add = (type: EntityType, value: string | null) => {
+      if (!value) return;
+      const key = `${type}:${value.toLowerCase()}`;
+      if (!found.has(key)) {
+        found.set(key, { type, value });
+      }
+    };
+
+    // 1. Address display names, emails and URLs; the addresses are removed afterwards so
+    //    their parts aren't re-read as paths or names
+    for (const match of text.matchAll(PATTERNS.personAddress)) {
+      if (this.isLikelyName(match[1])) {
+        add('person', match[1]);
+      }
+    }
+    for (const match of text.matchAll(PATTERNS.email)) {
+      add('email', match[0].toLowerCase());
+    }
+    for (const match of text.matchAll(PATTERNS.url)) {
+      add('url', normalizeUrl(match[0]));
+    }
+    text = text.replace(PATTERNS.url, ' ').replace(PATTERNS.email, ' ');
+
+    // 2. File paths
+    for (const match of text.matchAll(PATTERNS.filePath)) {
+      add('file_path', match[1]);
+    }
+
+    // 3. Order numbers (must contain a digit, so "Order: Pending" doesn't match)
+    for (const match of text.matchAll(PATTERNS.orderNumber)) {
+      const value = (match[1] || match[2] || '').toUpperCase();
+      if (/\d/.test(value)) {
+        add('order_number', value);
+      }
+    }
+
+    // 4. Currency amounts
+    for (const match of text.matchAll(PATTERNS.amountPrefix)) {
+      add('amount', normalizeAmount(match[1], match[2]));
+    }
+    for (const match of text.matchAll(PATTERNS.amountSuffix)) {
+      add('amount', normalizeAmount(match[2], match[1]));
+    }
+
+    // 5. People, organizations and products from the dictionary; each match is blanked
+    //    so "MacBook Pro" isn't also counted as "MacBook"
+    for (const { type, name, pattern } of this.dictionaryPatterns) {
+      if (pattern.test(text)) {
+        add(type, name);
+        text = text.replace(new RegExp(pattern.source, 'gi'), ' ');
+      }
+    }
+
+    // 6. Organizations and people from context rules
+    for (const match of text.matchAll(PATTERNS.organizationSuffix)) {
+      add('organization', `${match[1].trim()} ${match[2]}`);
+    }
+    text = text.replace(PATTERNS.organizationSuffix, ' ');
+    for (const match of text.matchAll(PATTERNS.personCue)) {
+      if (this.isLikelyName(match[1])) {
+        add('person', match[1]);
+      }
+    }
+
+    return Array.from(found.values()).slice(0, this.MAX_ENTITIES);
+  }
+
+  private isLikelyName(name: string): boolean {
+    const words = name.split(/\s+/);
+    if (words.some(word => NOT_NAMES.has(word) || !/^[A-Z]/.test(word))) {
+      return false;
+    }
+    // Known organizations and products aren't people
+    const lower = name.toLowerCase();
+    return ![...this.dictionary.organization, ...this.dictionary.product]
+      .some(known => known.toLowerCase() === lower);
+  }
+}
+
+/**
+ * Serialized form stored in `memories.entities`: "type:value"
+ */
+export function formatEntity(entity: ExtractedEntity): string {
+  return `${entity.type}:${entity.value}`;
+}
+
+function loadDictionary(filePath?: string): EntityDictionary {
+  if (!filePath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as EntityDictionary;
+  } catch (error) {
+    logger.warn('Failed to load entity dictionary; using built-in names only', {
+      filePath,
+      error: String(error)
+    });
+    return {};
+  }
+}
+
+function normalizeUrl(raw: string): string {
+  const trimmed = raw.replace(/[.,;:!?]+$/, '');
+  try {
+    const url = new URL(trimmed);
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${url.hostname.replace(/^www\./, '')}${path}${url.search}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+}
+
+function normalizeAmount(currency: string, amount: string): string {
+  const code = CURRENCIES[currency.toUpperCase()] || CURRENCIES[currency] || currency.toUpperCase();
+  return `${code} ${parseFloat(amount.replace(/,/g, '')).toFixed(2)}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,211 @@
+/**
+ * Exclusion Rules
+ * Privacy rules for what must never be remembered: apps, sites, window titles and
+ * times of day. Loaded from EXCLUSION_RULES_PATH and re-read when the file changes.
+ */
+
+import fs from 'fs';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('exclusion-rules');
+
+/**
+ * One rule in the EXCLUSION_RULES_PATH file. Every condition given must match.
+ */
+export interface ExclusionRuleConfig {
+  name?: string;
+  app?: string;            // App name, case-insensitive, e.g. "1Password"
+  url_host?: string;       // Host glob, e.g. "*.chase.com" (* and ? wildcards)
+  window_title?: string;   // Regular expression, case-insensitive, e.g. "Private Browsing|Incognito"
+  schedule?: {
+    days?: string[];       // "mon".."sun"; every day when omitted
+    from: string;          // "HH:MM" local time
+    to: string;            // "HH:MM"; earlier than `from` wraps past midnight
+  };
+}
+
+/**
+ * Shape of the EXCLUSION_RULES_PATH file
+ */
+export interface ExclusionConfig {
+  rules: ExclusionRuleConfig[];
+}
+
+/**
+ * What a rule is checked against; both events and stored memories fit
+ */
+export interface ExclusionCandidate {
+  app: string;
+  url_host?: string | null;
+  window_title?: string | null;
+  ts: number;
+}
+
+interface CompiledRule {
+  name: string;
+  app?: string;
+  urlHost?: RegExp;
+  windowTitle?: RegExp;
+  schedule?: { days: Set<number> | null; from: number; to: number };
+}
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export class ExclusionRules {
+  private rules: CompiledRule[] = [];
+  private hits = new Map<string, number>();
+  private loadedMtimeMs = 0;
+  private lastReloadCheck = 0;
+
+  // Configuration
+  private readonly RELOAD_CHECK_MS = 5000;
+
+  constructor(private filePath: string | undefined = process.env.EXCLUSION_RULES_PATH) {
+    if (filePath && fs.existsSync(filePath)) {
+      // A broken rules file at startup must not silently let everything through
+      this.load();
+    }
+  }
+
+  /**
+   * The first rule matching a candidate, or null
+   */
+  match(candidate: ExclusionCandidate): string | null {
+    this.reloadIfChanged();
+
+    const app = candidate.app.toLowerCase();
+    const host = (candidate.url_host || '').toLowerCase();
+    const date = new Date(candidate.ts);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+
+    for (const rule of this.rules) {
+      if (rule.app && rule.app !== app) continue;
+      if (rule.urlHost && !rule.urlHost.test(host)) continue;
+      if (rule.windowTitle && !rule.windowTitle.test(candidate.window_title || '')) continue;
+      if (rule.schedule && !inSchedule(rule.schedule, date.getDay(), minutes)) continue;
+      return rule.name;
+    }
+    return null;
+  }
+
+  /**
+   * Count a dropped event against the rule that matched it
+   */
+  recordHit(ruleName: string): void {
+    this.hits.set(ruleName, (this.hits.get(ruleName) || 0) + 1);
+  }
+
+  getStats(): { rules: number; dropped: number; byRule: { [rule: string]: number } } {
+    return {
+      rules: this.rules.length,
+      dropped: Array.from(this.hits.values()).reduce((sum, count) => sum + count, 0),
+      byRule: Object.fromEntries(this.hits)
+    };
+  }
+
+  private load(): void {
+    const stat = fs.statSync(this.filePath!);
+    const config = JSON.parse(fs.readFileSync(this.filePath!, 'utf8')) as ExclusionConfig;
+    this.rules = (config.rules || []).map((rule, index) => compileRule(rule, index));
+    this.loadedMtimeMs = stat.mtimeMs;
+    logger.info('Loaded exclusion rules', { filePath: this.filePath, count: this.rules.length });
+  }
+
+  /**
+   * Pick up edits to the rules file (checked at most every few seconds). An unreadable
+   * edit keeps the previous rules rather than dropping them.
+   */
+  private reloadIfChanged(): void {
+    if (!this.filePath || Date.now() - this.lastReloadCheck < this.RELOAD_CHECK_MS) {
+      return;
+    }
+    this.lastReloadCheck = Date.now();
+
+    try {
+      const mtimeMs = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : 0;
+      if (mtimeMs !== this.loadedMtimeMs) {
+        if (mtimeMs === 0) {
+          this.rules = [];
+          this.loadedMtimeMs = 0;
+          logger.warn('Exclusion rules file removed; no rules apply', { filePath: this.filePath });
+        } else {
+          this.load();
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to reload exclusion rules; keeping the previous rules', {
+        filePath: this.filePath,
+        error: String(error)
+      });
+    }
+  }
+}
+
+function compileRule(rule: ExclusionRuleConfig, index: number): CompiledRule {
+  const name = rule.name || `rule ${index + 1}`;
+  if (!rule.app && !rule.url_host && !rule.window_title && !rule.schedule) {
+    throw new Error(`Exclusion rule "${name}" has no conditions`);
+  }
+
+  return {
+    name,
+    app: rule.app?.toLowerCase(),
+    urlHost: rule.url_host ? globToRegExp(rule.url_host.toLowerCase()) : undefined,
+    windowTitle: rule.window_title ? new RegExp(rule.window_title, 'i') : undefined,
+    schedule: rule.schedule ? {
+      days: rule.schedule.days ? new Set(rule.schedule.days.map(day => parseDay(day, name))) : null,
+      from: parseTime(rule.schedule.from, name),
+      to: parseTime(rule.schedule.to, name)
+    } : undefined
+  };
+}
+
+function inSchedule(schedule: NonNullable<CompiledRule['schedule']>, day: number, minutes: number): boolean {
+  if (schedule.from <= schedule.to) {
+    return (!schedule.days || schedule.days.has(day)) && minutes >= schedule.from && minutes < schedule.to;
+  }
+  // Overnight window: the part after midnight belongs to the day it started on
+  if (minutes >= schedule.from) {
+    return !schedule.days || schedule.days.has(day);
+  }
+  return minutes < schedule.to && (!schedule.days || schedule.days.has((day + 6) % 7));
+}
+
+function parseTime(value: string, ruleName: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Exclusion rule "${ruleName}" has an invalid time: ${value}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseDay(value: string, ruleName: string): number {
+  const day = DAYS.indexOf(value.slice(0, 3).toLowerCase());
+  if (day < 0) {
+    throw new Error(`Exclusion rule "${ruleName}" has an invalid day: ${value}`);
+  }
+  return day;
+}
+
+/**
+ * Case-sensitive matcher for a glob with * and ? wildcards
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Host of a URL, or null when it has none or doesn't parse
+ */
+export function hostOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
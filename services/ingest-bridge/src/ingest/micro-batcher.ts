@@ -0,0 +1,88 @@
+/**
+ * Micro-Batcher
+ * Groups items into batches that are flushed when full or after a maximum latency
+ */
+
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('micro-batcher');
+
+export interface MicroBatcherOptions {
+  maxSize: number;       // Flush as soon as this many items are buffered
+  maxLatencyMs: number;  // Flush a partial batch once its first item is this old
+  onFlushed?: () => Promise<void>; // Runs after each flush, once `flushedCount` includes it
+}
+
+export class MicroBatcher<T> {
+  private buffer: T[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+  private added = 0;
+  private flushed = 0;
+
+  constructor(
+    private handler: (items: T[]) => Promise<void>,
+    private options: MicroBatcherOptions
+  ) {}
+
+  /**
+   * Buffer an item; resolves once any flush it triggered has completed
+   */
+  async add(item: T): Promise<void> {
+    this.buffer.push(item);
+    this.added++;
+
+    if (this.buffer.length >= this.options.maxSize) {
+      await this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.options.maxLatencyMs);
+    }
+  }
+
+  /**
+   * Hand the buffered items to the handler. Flushes run one at a time, in order,
+   * so `flushedCount` is a watermark: every item added before it has been handled.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const items = this.buffer;
+    this.buffer = [];
+    if (items.length === 0) {
+      return this.flushChain;
+    }
+
+    this.flushChain = this.flushChain
+      .then(() => this.handler(items))
+      .catch(error => {
+        logger.error('Batch handler failed', { batchSize: items.length, error: String(error) });
+      })
+      .then(() => {
+        this.flushed += items.length;
+        return this.options.onFlushed?.();
+      })
+      .catch(error => {
+        logger.error('Post-flush hook failed', { error: String(error) });
+      });
+
+    return this.flushChain;
+  }
+
+  get addedCount(): number {
+    return this.added;
+  }
+
+  get flushedCount(): number {
+    return this.flushed;
+  }
+
+  get size(): number {
+    return this.buffer.length;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Near-Duplicate Detector
+ * A static page captured every few seconds yields texts that differ only by a clock or
+ * cursor line. Each memory's normalized text gets a SimHash over word shingles; a new
+ * capture within a few bits of a recent memory in the same app/window is folded into it.
+ * Only memories already committed to SQLite take in duplicates: one still waiting in the
+ * micro-batch may yet fail, and the captures folded into it would be lost with it.
+ */
+
+import crypto from 'crypto';
+import { DatabaseManager } from '../database/manager';
+import { hammingDistance } from '../media/perceptual-hash';
+import { MemoryObjectWithEmbedding } from '../types/memory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('near-duplicates');
+
+const SHINGLE_WORDS = 3;
+
+interface Canonical {
+  id: string;
+  ts: number;
+  lastSeen: number;
+  simhash: string;
+  stored: boolean; // False until the memory is committed to SQLite
+}
+
+export class NearDuplicateDetector {
+  private recent = new Map<string, Canonical[]>(); // By app/window, newest first
+  private loadedKeys = new Set<string>();
+  private suppressed = 0;
+
+  // Configuration
+  private readonly MAX_DISTANCE = parseInt(process.env.NEAR_DUP_MAX_DISTANCE || '6'); // Bits of 64
+  private readonly WINDOW_MS = parseInt(process.env.NEAR_DUP_WINDOW_MS || '600000');  // Since the canonical was last seen
+  private readonly MIN_WORDS = 8;           // Shorter texts are too easy to collide
+  private readonly CANDIDATES_PER_KEY = 5;
+  private readonly MAX_KEYS = 200;
+
+  constructor(private databaseManager: DatabaseManager) {}
+
+  /**
+   * Hash a memory's text (setting `text_simhash`) and return the recent memory it
+   * nearly duplicates, if any. Memories that aren't duplicates become candidates.
+   */
+  async findCanonical(memory: MemoryObjectWithEmbedding): Promise<Canonical | null> {
+    const words = normalizeWords(memory.ui_text || memory.ocr_text);
+    if (words.length < this.MIN_WORDS) {
+      return null;
+    }
+
+    memory.text_simhash = simHash(words);
+    const key = keyFor(memory);
+    const candidates = (await this.getCandidates(key, memory))
+      .filter(candidate => candidate.stored && candidate.id !== memory.id)
+      .filter(candidate => Math.abs(memory.ts - candidate.lastSeen) <= this.WINDOW_MS);
+
+    let closest: { candidate: Canonical; distance: number } | null = null;
+    for (const candidate of candidates) {
+      const distance = hammingDistance(memory.text_simhash, candidate.simhash);
+      if (!closest || distance < closest.distance) {
+        closest = { candidate, distance };
+      }
+    }
+
+    if (closest && closest.distance <= this.MAX_DISTANCE) {
+      logger.debug('Near-duplicate text', { id: memory.id, canonicalId: closest.candidate.id, distance: closest.distance });
+      return closest.candidate;
+    }
+
+    this.remember(key, {
+      id: memory.id,
+      ts: memory.ts,
+      lastSeen: memory.last_seen_ts || memory.ts,
+      simhash: memory.text_simhash,
+      stored: false
+    });
+    return null;
+  }
+
+  /**
+   * Fold a near-duplicate into its canonical memory instead of storing it
+   */
+  async suppress(memory: MemoryObjectWithEmbedding, canonical: Canonical): Promise<void> {
+    await this.databaseManager.recordNearDuplicate(memory.id, canonical.id, memory.ts);
+    canonical.lastSeen = Math.max(canonical.lastSeen, memory.ts);
+    this.suppressed++;
+  }
+
+  /**
+   * Let memories that were just committed to SQLite take in near-duplicates
+   */
+  markStored(memories: MemoryObjectWithEmbedding[]): void {
+    for (const memory of memories) {
+      const candidate = this.recent.get(keyFor(memory))?.find(candidate => candidate.id === memory.id);
+      if (candidate) {
+        candidate.stored = true;
+      }
+    }
+  }
+
+  getStats(): { suppressed: number; windows: number } {
+    return { suppressed: this.suppressed, windows: this.recent.size };
+  }
+
+  /**
+   * Candidates for a window, loaded from SQLite the first time it is seen (so
+   * suppression continues across restarts)
+   */
+  private async getCandidates(key: string, memory: MemoryObjectWithEmbedding): Promise<Canonical[]> {
+    if (!this.loadedKeys.has(key)) {
+      this.loadedKeys.add(key);
+      const rows = await this.databaseManager.getRecentTextHashes(
+        memory.app,
+        memory.window_title || null,
+        memory.ts - this.WINDOW_MS,
+        this.CANDIDATES_PER_KEY
+      );
+      for (const row of rows.reverse()) {
+        this.remember(key, { id: row.id, ts: row.ts, lastSeen: row.last_seen_ts, simhash: row.text_simhash, stored: true });
+      }
+    }
+
+    return this.recent.get(key) || [];
+  }
+
+  private remember(key: string, canonical: Canonical): void {
+    const candidates = [canonical, ...(this.recent.get(key) || []).filter(existing => existing.id !== canonical.id)]
+      .slice(0, this.CANDIDATES_PER_KEY);
+    this.recent.delete(key);
+    this.recent.set(key, candidates); // Re-inserted = most recently used
+
+    if (this.recent.size > this.MAX_KEYS) {
+      const stalestKey = this.recent.keys().next().value as string;
+      this.recent.delete(stalestKey);
+      this.loadedKeys.delete(stalestKey);
+    }
+  }
+}
+
+function keyFor(memory: MemoryObjectWithEmbedding): string {
+  return `${memory.app}\0${memory.window_title || ''}`;
+}
+
+/**
+ * Lowercased words with punctuation stripped and digit runs collapsed, so OCR spacing,
+ * casing and ticking clocks or counters don't make a page look new
+ */
+export function normalizeWords(text: string | null | undefined): string[] {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .replace(/\d+/g, '0')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * 64-bit SimHash over overlapping word shingles, as 16 hex chars
+ */
+export function simHash(words: string[]): string {
+  const weights = new Array<number>(64).fill(0);
+  const shingleCount = Math.max(1, words.length - SHINGLE_WORDS + 1);
+
+  for (let i = 0; i < shingleCount; i++) {
+    const shingle = words.slice(i, i + SHINGLE_WORDS).join(' ');
+    const digest = crypto.createHash('md5').update(shingle).digest();
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (digest[bit >> 3] >> (7 - (bit & 7))) & 1 ? 1 : -1;
+    }
+  }
+
+  let hex = '';
+  for (let i = 0; i < 64; i += 4) {
+    const nibble = (weights[i] > 0 ? 8 : 0) | (weights[i + 1] > 0 ? 4 : 0) | (weights[i + 2] > 0 ? 2 : 0) | (weights[i + 3] > 0 ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
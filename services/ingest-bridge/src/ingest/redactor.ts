@@ -0,0 +1,204 @@
+/**
+ * Redactor
+ * Replaces card numbers, IBANs, SSNs, API keys/tokens, private keys and one-time
+ * codes with typed placeholders before an event is stored, embedded or dead-lettered
+ */
+
+import fs from 'fs';
+import { ScreenpipeEvent } from '../screenpipe/client';
+import { RedactionCounts } from '../types/memory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('redactor');
+
+export interface RedactionRule {
+  type: string;                        // Placeholder label, e.g. "credit_card" → [REDACTED:credit_card]
+  pattern: RegExp;                     // Must be global
+  group?: number;                      // Redact only this capture group (e.g. the value after "password:")
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Shape of the REDACTION_RULES_PATH file
+ */
+export interface RedactionConfig {
+  disable?: string[];                  // Built-in rule types to turn off
+  rules?: { type: string; pattern: string; flags?: string; group?: number }[];
+}
+
+// Text fields of an event that can carry secrets
+const EVENT_TEXT_FIELDS = ['ocr_text', 'ui_text', 'transcription', 'window_title', 'url', 'browser_url'] as const;
+
+export const BUILT_IN_RULES: RedactionRule[] = [
+  // PEM blocks; OCR often cuts the END line off, so an unterminated block runs to the end
+  {
+    type: 'private_key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g
+  },
+  {
+    type: 'api_key',
+    pattern: new RegExp([
+      'sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}',   // OpenAI / Anthropic
+      'gh[opusr]_[A-Za-z0-9]{30,}',             // GitHub tokens
+      'github_pat_[A-Za-z0-9_]{40,}',
+      'xox[abposr]-[A-Za-z0-9-]{10,}',          // Slack
+      '(?:AKIA|ASIA)[0-9A-Z]{16}',              // AWS access key ids
+      'AIza[0-9A-Za-z_-]{35}',                  // Google
+      '(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}', // Stripe
+      'glpat-[A-Za-z0-9_-]{20,}'                // GitLab
+    ].map(p => `\\b${p}`).join('|'), 'g')
+  },
+  {
+    type: 'token',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}|\bBearer\s+[A-Za-z0-9._~+\/-]{16,}=*/g
+  },
+  // Values assigned to secret-looking names: "password: hunter2", "API_KEY=abc…"
+  {
+    type: 'secret',
+    pattern: /\b(?:password|passwd|pwd|passphrase|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)\b["']?\s*[:=]\s*["']?([^\s"']{6,})/gi,
+    group: 1,
+    validate: value => !value.includes('(') // Source code: `password = getPassword()`
+  },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: isValidIban
+  },
+  {
+    type: 'credit_card',
+    pattern: /\b(?:\d{4}[ -]?\d{4}[ -]?\d{4}[ -]?\d{1,7}|\d{4}[ -]?\d{6}[ -]?\d{4,5})\b/g,
+    validate: isValidCardNumber
+  },
+  {
+    type: 'ssn',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g
+  },
+  // Codes next to a cue: "Your verification code is 482913", "OTP: 1234", "G-482913"
+  {
+    type: 'one_time_code',
+    pattern: /\b(?:(?:verification|security|confirmation|login|sign-in|access|authentication|2fa|one-time|otp)\s*(?:code|pin|passcode)?|passcode|otp)\b[^\d\n]{0,20}?(\d{4,8})\b|\bG-(\d{6})\b/gi,
+    group: -1 // First capture group that matched
+  }
+];
+
+export class Redactor {
+  private rules: RedactionRule[];
+
+  constructor(config: RedactionConfig = loadConfig(process.env.REDACTION_RULES_PATH)) {
+    const disabled = new Set(config.disable || []);
+    this.rules = [
+      ...BUILT_IN_RULES.filter(rule => !disabled.has(rule.type)),
+      ...(config.rules || []).map(rule => ({
+        type: rule.type,
+        pattern: new RegExp(rule.pattern, rule.flags?.includes('g') ? rule.flags : `${rule.flags || ''}g`),
+        group: rule.group
+      }))
+    ];
+  }
+
+  /**
+   * Redact a text. Counts of replaced values by type are added to `counts`.
+   */
+  redact(text: string, counts: RedactionCounts = {}): string {
+    let result = text;
+    for (const rule of this.rules) {
+      result = result.replace(rule.pattern, (match: string, ...args: any[]) => {
+        const groups = args.slice(0, -2).filter((value): value is string => typeof value === 'string');
+        const value = rule.group === undefined ? match
+          : rule.group === -1 ? groups[0] ?? match
+          : args[rule.group - 1];
+
+        if (typeof value !== 'string' || (rule.validate && !rule.validate(value))) {
+          return match;
+        }
+
+        counts[rule.type] = (counts[rule.type] || 0) + 1;
+        const placeholder = `[REDACTED:${rule.type}]`;
+        const at = match.lastIndexOf(value);
+        return match.slice(0, at) + placeholder + match.slice(at + value.length);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Redact an event's text fields (and OCR boxes) in place and add what was found to `event.redactions`.
+   * Placeholders never match a rule, so redacting an event twice is harmless.
+   */
+  redactEvent(event: ScreenpipeEvent): RedactionCounts {
+    const counts: RedactionCounts = { ...(event.redactions || {}) };
+    for (const field of EVENT_TEXT_FIELDS) {
+      const value = event[field];
+      if (typeof value === 'string' && value.length > 0) {
+        event[field] = this.redact(value, counts);
+      }
+    }
+
+    // A box must not keep text the OCR text lost
+    if (event.ocr_boxes && event.ocr_boxes.length > 0) {
+      const kept = new Set(words(event.ocr_text));
+      event.ocr_boxes = event.ocr_boxes.filter(box => words(box.text).every(word => kept.has(word)));
+    }
+
+    event.redactions = counts;
+    return counts;
+  }
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function loadConfig(filePath?: string): RedactionConfig {
+  if (!filePath) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as RedactionConfig;
+  } catch (error) {
+    // Redaction protects stored data, so a broken rules file must not be skipped silently
+    logger.error('Failed to load redaction rules', { filePath, error: String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Luhn checksum over 13-19 digits
+ */
+export function isValidCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19 || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
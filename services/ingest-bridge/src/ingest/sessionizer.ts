@@ -0,0 +1,112 @@
+/**
+ * Sessionizer
+ * Groups consecutive memories into sessions: an unbroken run in the same app and
+ * site (or, without a URL, the same window), ending at an idle gap or a switch elsewhere
+ */
+
+import { createHash } from 'crypto';
+import { DatabaseManager, SessionRow } from '../database/manager';
+import { MemoryObject } from '../types/memory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('sessionizer');
+
+export class Sessionizer {
+  private current: SessionRow | null = null; // Session at the head of the timeline
+  private loaded = false;
+
+  // Configuration
+  private readonly IDLE_GAP_MS = parseInt(process.env.SESSION_IDLE_GAP_MS || '300000');
+
+  constructor(private databaseManager: DatabaseManager) {}
+
+  /**
+   * Set `session_id` on each memory and return the sessions they created or
+   * extended. Persist them together with the memories
+   * (`databaseManager.storeMemoryObjects`).
+   */
+  async assign(memories: MemoryObject[]): Promise<SessionRow[]> {
+    if (!this.loaded) {
+      this.current = await this.databaseManager.getLatestSession();
+      this.loaded = true;
+    }
+
+    const touched = new Map<string, SessionRow>();
+    const ordered = [...memories].sort((a, b) => a.ts - b.ts);
+
+    for (const memory of ordered) {
+      let session: SessionRow | null = null;
+
+      if (!this.current || memory.ts >= this.current.end_ts) {
+        // 1. The usual case: the memory is the newest one seen
+        if (this.current && this.continues(this.current, memory)) {
+          session = this.current;
+        } else {
+          session = this.current = this.open(memory);
+        }
+      } else {
+        // 2. Older than the head (e.g. a dead-letter retry): join the session it falls in
+        const found = [this.current, ...touched.values()].find(candidate => this.continues(candidate, memory))
+          || (await this.databaseManager.findSessionsAt(memory.app, memory.url_host || null, memory.ts, this.IDLE_GAP_MS))
+            .find(candidate => this.continues(candidate, memory));
+        session = found ? touched.get(found.id) || found : this.open(memory);
+      }
+
+      session.start_ts = Math.min(session.start_ts, memory.ts);
+      session.end_ts = Math.max(session.end_ts, memory.ts);
+      session.title = session.title || memory.window_title || null;
+      memory.session_id = session.id;
+      touched.set(session.id, session);
+    }
+
+    logger.debug('Assigned sessions', { memories: memories.length, sessions: touched.size });
+    return Array.from(touched.values());
+  }
+
+  /**
+   * Forget the session at the head of the timeline, so the next assign reloads it
+   * from SQLite (after the memories assigned to it failed to store)
+   */
+  reload(): void {
+    this.current = null;
+    this.loaded = false;
+  }
+
+  private continues(session: SessionRow, memory: MemoryObject): boolean {
+    return (
+      session.app === memory.app &&
+      session.url_host === (memory.url_host || null) &&
+      // Pages of a site share a session; without a URL, the window is the document
+      (session.url_host !== null || windowKey(session.title) === windowKey(memory.window_title)) &&
+      memory.ts - session.end_ts <= this.IDLE_GAP_MS &&
+      session.start_ts - memory.ts <= this.IDLE_GAP_MS
+    );
+  }
+
+  private open(memory: MemoryObject): SessionRow {
+    const key = memory.url_host
+      ? `${memory.app}\u0000${memory.url_host}`
+      : `${memory.app}\u0000\u0000${windowKey(memory.window_title)}`;
+    return {
+      id: `ses_${memory.ts}_${createHash('md5').update(key).digest('hex').slice(0, 8)}`,
+      start_ts: memory.ts,
+      end_ts: memory.ts,
+      app: memory.app,
+      url_host: memory.url_host || null,
+      title: memory.window_title || null,
+      memory_count: 0
+    };
+  }
+}
+
+/**
+ * A window title without what changes while the same document is open: unread
+ * counts ("(3) Inbox") and unsaved-changes markers ("● app.ts")
+ */
+function windowKey(title: string | null | undefined): string {
+  return (title || '')
+    .replace(/^\s*(?:\(\d+\+?\)|\[\d+\+?\])\s*/, '')
+    .replace(/^\s*[●•*]\s*/, '')
+    .trim()
+    .toLowerCase();
+}
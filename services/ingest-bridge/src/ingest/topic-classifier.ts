@@ -0,0 +1,66 @@
+/**
+ * Topic Classifier
+ * Assigns each memory up to a few taxonomy topics from its app, URL host and text
+ */
+
+import { TopicTaxonomy, loadTaxonomy } from '@photographic-memory/mem-store';
+import { MemoryObject } from '../types/memory';
+
+interface CompiledTopic {
+  topic: string;
+  apps: string[];
+  hosts: string[];
+  keywords: RegExp[];
+}
+
+export class TopicClassifier {
+  private topics: CompiledTopic[];
+
+  // Configuration
+  private readonly APP_WEIGHT = 3;
+  private readonly HOST_WEIGHT = 3;
+  private readonly KEYWORD_WEIGHT = 1;    // Per distinct keyword found
+  private readonly MIN_SCORE = parseInt(process.env.TOPIC_MIN_SCORE || '3');
+  private readonly MAX_TOPICS = parseInt(process.env.TOPIC_MAX_PER_MEMORY || '3');
+
+  constructor(taxonomy: TopicTaxonomy = loadTaxonomy()) {
+    this.topics = Object.entries(taxonomy).map(([topic, rule]) => ({
+      topic,
+      apps: (rule.apps || []).map(app => app.toLowerCase()),
+      hosts: (rule.hosts || []).map(host => host.toLowerCase()),
+      keywords: (rule.keywords || []).map(keyword =>
+        new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.toLowerCase())}(?![\\p{L}\\p{N}])`, 'u')
+      )
+    }));
+  }
+
+  /**
+   * Topics for a memory, strongest first. An app or site match is enough on its
+   * own; text alone needs several keywords, so a stray "price" doesn't make it shopping.
+   */
+  classify(memory: Pick<MemoryObject, 'app' | 'url_host' | 'window_title' | 'ocr_text' | 'asr_text' | 'ui_text'>): string[] {
+    const app = memory.app.toLowerCase();
+    const host = (memory.url_host || '').toLowerCase().replace(/^www\./, '');
+    const text = [memory.window_title, memory.ui_text || memory.ocr_text, memory.asr_text]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+
+    return this.topics
+      .map(({ topic, apps, hosts, keywords }) => {
+        let score = 0;
+        if (apps.some(name => app.includes(name))) score += this.APP_WEIGHT;
+        if (host && hosts.some(name => host === name || host.endsWith(`.${name}`))) score += this.HOST_WEIGHT;
+        score += keywords.filter(keyword => keyword.test(text)).length * this.KEYWORD_WEIGHT;
+        return { topic, score };
+      })
+      .filter(({ score }) => score >= this.MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.MAX_TOPICS)
+      .map(({ topic }) => topic);
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,81 @@
+/**
+ * Transcript Ingestor
+ * Stores Screenpipe audio transcriptions as audio memories, linked to (and shown
+ * with the context of) the screen memory captured at the same moment
+ */
+
+import { DatabaseManager } from '../database/manager';
+import { EmbeddingsService, embeddingTextFor } from '../embeddings/service';
+import { EntityExtractor, formatEntity } from './entity-extractor';
+import { TopicClassifier } from './topic-classifier';
+import { ScreenpipeEvent } from '../screenpipe/client';
+import { MemoryObjectWithEmbedding } from '../types/memory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('transcripts');
+
+export type TranscriptOutcome = 'linked' | 'standalone' | 'duplicate';
+
+export class TranscriptIngestor {
+  // Configuration
+  private readonly ATTACH_WINDOW_MS = parseInt(process.env.AUDIO_ATTACH_WINDOW_MS || '15000');
+
+  constructor(
+    private databaseManager: DatabaseManager,
+    private embeddingsService: EmbeddingsService,
+    private entityExtractor: EntityExtractor = new EntityExtractor(),
+    private topicClassifier: TopicClassifier = new TopicClassifier()
+  ) {}
+
+  /**
+   * Index one transcription segment in SQLite (FTS5) and the vector store
+   */
+  async ingest(event: ScreenpipeEvent): Promise<TranscriptOutcome> {
+    const transcription = (event.transcription || '').trim();
+    if (!transcription) {
+      throw new Error(`Audio event ${event.id} has no transcription`);
+    }
+
+    if (await this.databaseManager.eventExists(event.id)) {
+      return 'duplicate';
+    }
+
+    // 1. Find the screen memory captured closest to when it was said
+    const screen = await this.databaseManager.findNearestScreenMemory(event.timestamp, this.ATTACH_WINDOW_MS);
+
+    // 2. Store the transcript with that memory's app, window and thumbnail, so it is
+    //    found by the same filters and shown in context
+    const memory: MemoryObjectWithEmbedding = {
+      id: event.id,
+      ts: event.timestamp,
+      app: screen?.app || event.app,
+      window_title: screen?.window_title || null,
+      url: screen?.url || null,
+      url_host: screen?.url_host || null,
+      media_path: event.media_path || null,
+      thumb_path: screen?.thumb_path || null,
+      renditions: screen?.renditions || null,
+      ocr_text: '',
+      asr_text: transcription,
+      text_source: 'asr',
+      entities: this.entityExtractor.extract(transcription).map(formatEntity),
+      redactions: event.redactions || {},
+      session_id: screen?.session_id || null,
+      linked_memory_id: screen?.id || null,
+      video_processed: false,
+      video_kept: true,
+      similarity_score: 0
+    };
+    memory.topics = this.topicClassifier.classify(memory);
+    memory.embedding = await this.embeddingsService.generateEmbedding(embeddingTextFor(memory));
+    await this.databaseManager.storeMemoryObjects([memory]);
+    await this.embeddingsService.storeEmbeddings([memory]);
+
+    logger.debug('Stored audio memory', {
+      eventId: event.id,
+      device: event.device_name,
+      linkedMemoryId: memory.linked_memory_id
+    });
+    return screen ? 'linked' : 'standalone';
+  }
+}
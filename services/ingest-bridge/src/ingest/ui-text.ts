@@ -0,0 +1,79 @@
+/**
+ * UI Text Merger
+ * Pairs accessibility-tree (UI) text with the OCR frames of the same window, so
+ * memories are indexed from exact UI text while keeping OCR as a fallback
+ */
+
+import { ScreenpipeClient, ScreenpipeEvent } from '../screenpipe/client';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ui-text');
+
+export class UiTextMerger {
+  // Configuration
+  private readonly MATCH_WINDOW_MS = parseInt(process.env.UI_MATCH_WINDOW_MS || '10000');
+  private readonly ENABLED = process.env.INGEST_UI !== 'false';
+
+  constructor(private screenpipeClient: ScreenpipeClient) {}
+
+  /**
+   * Set `ui_text` on each OCR event that has a UI snapshot of the same window
+   * nearby in time. UI text is optional: if it can't be fetched, events keep OCR only.
+   */
+  async attach(events: ScreenpipeEvent[]): Promise<number> {
+    if (!this.ENABLED || events.length === 0) {
+      return 0;
+    }
+
+    const timestamps = events.map(event => event.timestamp);
+    let uiEvents: ScreenpipeEvent[];
+    try {
+      uiEvents = await this.screenpipeClient.getUiEvents(
+        Math.min(...timestamps) - this.MATCH_WINDOW_MS,
+        Math.max(...timestamps) + this.MATCH_WINDOW_MS
+      );
+    } catch (error) {
+      logger.warn('Failed to fetch UI text; continuing with OCR only', { error: String(error) });
+      return 0;
+    }
+
+    const merged = mergeUiText(events, uiEvents, this.MATCH_WINDOW_MS);
+    logger.debug('Merged UI text into OCR events', { events: events.length, uiEvents: uiEvents.length, merged });
+    return merged;
+  }
+}
+
+/**
+ * Give each OCR event the text of the closest UI snapshot from the same app and
+ * window within ±windowMs. Returns how many events received UI text.
+ */
+export function mergeUiText(events: ScreenpipeEvent[], uiEvents: ScreenpipeEvent[], windowMs: number): number {
+  const byWindow = new Map<string, ScreenpipeEvent[]>();
+  for (const ui of uiEvents) {
+    if (!ui.ui_text?.trim()) continue;
+    const key = windowKey(ui);
+    byWindow.set(key, [...(byWindow.get(key) || []), ui]);
+  }
+
+  let merged = 0;
+  for (const event of events) {
+    let closest: ScreenpipeEvent | null = null;
+    for (const ui of byWindow.get(windowKey(event)) || []) {
+      const distance = Math.abs(ui.timestamp - event.timestamp);
+      if (distance <= windowMs && (!closest || distance < Math.abs(closest.timestamp - event.timestamp))) {
+        closest = ui;
+      }
+    }
+
+    if (closest) {
+      event.ui_text = closest.ui_text!.trim();
+      merged++;
+    }
+  }
+
+  return merged;
+}
+
+function windowKey(event: ScreenpipeEvent): string {
+  return `${event.app.trim().toLowerCase()}\u0000${(event.window_title || '').trim().toLowerCase()}`;
+}
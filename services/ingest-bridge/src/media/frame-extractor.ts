@@ -0,0 +1,134 @@
+/**
+ * Frame Extractor
+ * Decodes a single frame out of a Screenpipe video chunk with an ffmpeg subprocess
+ */
+
+import { spawn } from 'child_process';
+import path from 'path';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('frame-extractor');
+
+/**
+ * Which frame of a chunk to take. Screenpipe's frame index is exact; the capture
+ * timestamp is used (relative to the chunk start in its file name) when there is none.
+ */
+export interface FramePosition {
+  frameIndex?: number | null;
+  timestamp?: number;
+}
+
+// Screenpipe chunk names end with their start time: monitor_1_2024-10-21_14-30-00.mp4
+const CHUNK_START_PATTERN = /(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})(?=\.\w+$)/;
+const MAX_CHUNK_SECONDS = 3600;
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.avi', '.mkv', '.webm', '.m4v'];
+
+export class FrameExtractor {
+  private available: Promise<boolean> | null = null;
+
+  // Configuration
+  private readonly FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly TIMEOUT_MS = parseInt(process.env.FRAME_EXTRACT_TIMEOUT_MS || '15000');
+
+  /**
+   * Whether ffmpeg can be run (checked once)
+   */
+  isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = this.run(['-version'])
+        .then(() => true)
+        .catch(error => {
+          logger.warn('ffmpeg not available; video thumbnails will be placeholders', {
+            ffmpeg: this.FFMPEG_PATH,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return false;
+        });
+    }
+    return this.available;
+  }
+
+  /**
+   * The frame at a position in a video, as PNG bytes
+   */
+  async extractFrame(videoPath: string, position: FramePosition = {}): Promise<Buffer> {
+    const output = ['-frames:v', '1', '-f', 'image2pipe', '-vcodec', 'png', 'pipe:1'];
+    let args: string[];
+
+    if (position.frameIndex !== undefined && position.frameIndex !== null && position.frameIndex >= 0) {
+      // Decode up to the frame by number; chunks are short, and this never lands between frames
+      args = ['-i', videoPath, '-vf', `select=eq(n\\,${Math.floor(position.frameIndex)})`, ...output];
+    } else {
+      const offset = position.timestamp !== undefined ? chunkOffsetSeconds(videoPath, position.timestamp) : null;
+      // Input seeking decodes from the previous keyframe up to the exact time
+      args = [...(offset ? ['-ss', offset.toFixed(3)] : []), '-i', videoPath, ...output];
+    }
+
+    const frame = await this.run(['-hide_banner', '-loglevel', 'error', ...args]);
+    if (frame.length === 0) {
+      throw new Error(`No frame at ${JSON.stringify(position)} in ${path.basename(videoPath)}`);
+    }
+    return frame;
+  }
+
+  private run(args: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.FFMPEG_PATH, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`ffmpeg timed out after ${this.TIMEOUT_MS}ms`));
+      }, this.TIMEOUT_MS);
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(stdout));
+        } else {
+          reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim().split('\n').pop() || 'no output'}`));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Whether a media file is a video (its frames need decoding) rather than an image
+ */
+export function isVideoFile(filePath: string): boolean {
+  return VIDEO_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Seconds from a chunk's start (parsed from its file name) to a capture timestamp, or
+ * null when the name has no start time. Screenpipe versions differ in whether the name is
+ * UTC or local time, so whichever reading puts the frame inside the chunk is used.
+ */
+export function chunkOffsetSeconds(videoPath: string, timestamp: number): number | null {
+  const match = CHUNK_START_PATTERN.exec(path.basename(videoPath));
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const starts = [
+    Date.UTC(year, month - 1, day, hour, minute, second),
+    new Date(year, month - 1, day, hour, minute, second).getTime()
+  ];
+
+  for (const start of starts) {
+    const offset = (timestamp - start) / 1000;
+    if (offset >= 0 && offset < MAX_CHUNK_SECONDS) {
+      return offset;
+    }
+  }
+  return null;
+}
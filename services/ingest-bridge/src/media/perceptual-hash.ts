@@ -0,0 +1,95 @@
+/**
+ * Perceptual Hashes
+ * 64-bit dHash and pHash of a decoded frame; visually similar frames have hashes a
+ * small Hamming distance apart, unlike byte hashes which change with any pixel
+ */
+
+import sharp from 'sharp';
+
+export interface FrameHashes {
+  dhash: string; // 16 hex chars
+  phash: string; // 16 hex chars
+}
+
+const PHASH_SIZE = 32;     // Image is reduced to 32x32 before the DCT
+const PHASH_LOW_FREQ = 8;  // Top-left 8x8 coefficients make the hash
+
+/**
+ * Both hashes of an image file (anything sharp can decode). Throws when it can't be decoded.
+ */
+export async function computeFrameHashes(input: string | Buffer): Promise<FrameHashes> {
+  const [dhash, phash] = await Promise.all([differenceHash(input), dctHash(input)]);
+  return { dhash, phash };
+}
+
+/**
+ * dHash: is each pixel brighter than its right neighbour, on a 9x8 grayscale thumbnail
+ */
+export async function differenceHash(input: string | Buffer): Promise<string> {
+  const pixels = await grayscale(input, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * pHash: is each low-frequency DCT coefficient above their median, on a 32x32 thumbnail
+ */
+export async function dctHash(input: string | Buffer): Promise<string> {
+  const pixels = await grayscale(input, PHASH_SIZE, PHASH_SIZE);
+  const coefficients: number[] = [];
+  for (let v = 0; v < PHASH_LOW_FREQ; v++) {
+    for (let u = 0; u < PHASH_LOW_FREQ; u++) {
+      coefficients.push(dctCoefficient(pixels, u, v));
+    }
+  }
+
+  // The DC term is the average brightness; leave it out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+  return bitsToHex(coefficients.map(value => value > median));
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+async function grayscale(input: string | Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(input)
+    .grayscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+}
+
+function dctCoefficient(pixels: Buffer, u: number, v: number): number {
+  let sum = 0;
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    const cosY = Math.cos(((2 * y + 1) * v * Math.PI) / (2 * PHASH_SIZE));
+    for (let x = 0; x < PHASH_SIZE; x++) {
+      sum += pixels[y * PHASH_SIZE + x] * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE)) * cosY;
+    }
+  }
+  return sum;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
@@ -0,0 +1,98 @@
+/**
+ * Rendition Set
+ * The image sizes made for every captured frame: a cropped card tile, a readable
+ * preview and a full-resolution keyframe. Loaded from THUMBNAIL_RENDITIONS_PATH when set.
+ */
+
+import fs from 'fs';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('renditions');
+
+export type RenditionFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+/**
+ * One rendition in the THUMBNAIL_RENDITIONS_PATH file. Without width or height the
+ * frame keeps its own size in that dimension (frames are never enlarged).
+ */
+export interface RenditionSpec {
+  name: string;               // "small", "medium", "full"
+  width?: number;
+  height?: number;
+  fit?: 'cover' | 'inside';   // cover crops to exactly width x height; inside keeps the aspect ratio
+  format?: RenditionFormat;
+  quality?: number;           // 1-100
+}
+
+/**
+ * Shape of the THUMBNAIL_RENDITIONS_PATH file. The first rendition is the card thumbnail
+ * (the memory's thumb_path).
+ */
+interface RenditionConfig {
+  renditions?: RenditionSpec[];
+}
+
+export const DEFAULT_RENDITIONS: RenditionSpec[] = [
+  { name: 'small', width: 300, height: 200, fit: 'cover', format: 'jpeg', quality: 80 },
+  { name: 'medium', width: 1280, fit: 'inside', format: 'webp', quality: 80 },
+  { name: 'full', fit: 'inside', format: 'webp', quality: 90 }
+];
+
+const NAME_PATTERN = /^[a-z0-9_-]+$/;
+const FORMATS: RenditionFormat[] = ['jpeg', 'webp', 'avif', 'png'];
+
+/**
+ * The configured rendition set. Throws on a broken file, so a typo doesn't quietly
+ * fall back to the defaults.
+ */
+export function loadRenditionSpecs(filePath: string | undefined = process.env.THUMBNAIL_RENDITIONS_PATH): RenditionSpec[] {
+  if (!filePath) {
+    return DEFAULT_RENDITIONS;
+  }
+
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf8')) as RenditionConfig;
+  const specs = (config.renditions || []).map((spec, index) => validateSpec(spec, index));
+  if (specs.length === 0) {
+    throw new Error(`${filePath} defines no renditions`);
+  }
+  if (new Set(specs.map(spec => spec.name)).size !== specs.length) {
+    throw new Error(`${filePath} has duplicate rendition names`);
+  }
+
+  logger.info('Loaded rendition set', { filePath, renditions: specs.map(spec => spec.name) });
+  return specs;
+}
+
+/**
+ * File extension for a rendition format
+ */
+export function extensionFor(format: RenditionFormat): string {
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+function validateSpec(spec: RenditionSpec, index: number): RenditionSpec {
+  const label = `Rendition ${spec.name || index}`;
+  if (!spec.name || !NAME_PATTERN.test(spec.name)) {
+    throw new Error(`${label}: name must match ${NAME_PATTERN}`);
+  }
+  for (const dimension of ['width', 'height'] as const) {
+    const value = spec[dimension];
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new Error(`${label}: ${dimension} must be a positive integer`);
+    }
+  }
+  if (spec.fit && spec.fit !== 'cover' && spec.fit !== 'inside') {
+    throw new Error(`${label}: fit must be "cover" or "inside"`);
+  }
+  if (spec.fit === 'cover' && (!spec.width || !spec.height)) {
+    throw new Error(`${label}: cover needs both width and height`);
+  }
+  if (spec.format && !FORMATS.includes(spec.format)) {
+    throw new Error(`${label}: format must be one of ${FORMATS.join(', ')}`);
+  }
+  if (spec.quality !== undefined && (!Number.isInteger(spec.quality) || spec.quality < 1 || spec.quality > 100)) {
+    throw new Error(`${label}: quality must be 1-100`);
+  }
+
+  return { fit: 'inside', format: 'webp', quality: 80, ...spec };
+}
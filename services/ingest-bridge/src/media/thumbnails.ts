@@ -1,16 +1,28 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import sharp from 'sharp';
+import { MemoryCipher } from '@photographic-memory/mem-store';
 import { logger } from '../utils/logger';
+import { RenditionInfo, RenditionManifest } from '../types/memory';
+import { FrameExtractor, FramePosition, isVideoFile } from './frame-extractor';
+import { RenditionSpec, extensionFor, loadRenditionSpecs } from './renditions';
+
+// Size of the placeholder card when the card rendition has no fixed size
+const PLACEHOLDER_WIDTH = 300;
+const PLACEHOLDER_HEIGHT = 200;
 
 export class ThumbnailGenerator {
   private thumbsDir: string;
-  private readonly THUMBNAIL_WIDTH = 300;
-  private readonly THUMBNAIL_HEIGHT = 200;
-  private readonly QUALITY = 80;
+  private frameExtractor = new FrameExtractor();
+  private renditions: RenditionSpec[];
 
-  constructor(dataDir: string = './data') {
+  constructor(
+    dataDir: string = './data',
+    renditions: RenditionSpec[] = loadRenditionSpecs(),
+    private cipher: MemoryCipher | null = MemoryCipher.load()
+  ) {
     this.thumbsDir = path.join(dataDir, 'thumbs');
+    this.renditions = renditions;
     this.ensureThumbsDirectory();
   }
 
@@ -21,64 +33,82 @@ export class ThumbnailGenerator {
     }
   }
 
-  async generateThumbnail(mediaPath: string, eventId: string): Promise<string | null> {
+  /**
+   * Name of the rendition used as the card thumbnail (thumb_path)
+   */
+  get cardRendition(): string {
+    return this.renditions[0].name;
+  }
+
+  /**
+   * The card thumbnail's path. `frame` picks the captured frame out of a video chunk
+   * (the first frame otherwise).
+   */
+  async generateThumbnail(mediaPath: string, eventId: string, frame: FramePosition = {}): Promise<string | null> {
+    const manifest = await this.generateRenditions(mediaPath, eventId, frame);
+    return manifest?.[this.cardRendition]?.path || null;
+  }
+
+  /**
+   * Every configured rendition of the frame, written to thumbs/<eventId>/. `decoded` is
+   * the frame when an earlier stage already took it out of the video chunk. When the
+   * frame can't be decoded the manifest only has a placeholder card thumbnail.
+   */
+  async generateRenditions(
+    mediaPath: string,
+    eventId: string,
+    frame: FramePosition = {},
+    decoded: Buffer | null = null
+  ): Promise<RenditionManifest | null> {
     try {
-      if (!mediaPath || !fs.existsSync(mediaPath)) {
+      // A frame decoded earlier doesn't need the chunk, which Screenpipe may have removed since
+      if (!decoded && (!mediaPath || !fs.existsSync(mediaPath))) {
         logger.warn('Media file does not exist, skipping thumbnail generation', { mediaPath });
         return null;
       }
 
-      const thumbnailPath = path.join(this.thumbsDir, `${eventId}.jpg`);
+      const renditionDir = path.join(this.thumbsDir, eventId);
+      const outputs = this.renditions.map(spec => ({
+        spec,
+        outputPath: path.join(renditionDir, `${spec.name}.${extensionFor(spec.format || 'webp')}`)
+      }));
 
-      // Check if thumbnail already exists
-      if (fs.existsSync(thumbnailPath)) {
-        logger.debug('Thumbnail already exists, skipping generation', { 
-          eventId, 
-          thumbnailPath 
-        });
-        return thumbnailPath;
+      // Check if renditions already exist (a retried event)
+      if (outputs.every(output => fs.existsSync(output.outputPath))) {
+        logger.debug('Renditions already exist, skipping generation', { eventId, renditionDir });
+        return this.describeExisting(outputs);
       }
 
-      logger.debug('Generating thumbnail', {
+      logger.debug('Generating renditions', {
         eventId,
         mediaPath,
-        thumbnailPath,
-        targetSize: `${this.THUMBNAIL_WIDTH}x${this.THUMBNAIL_HEIGHT}`
+        renditions: this.renditions.map(spec => spec.name)
       });
 
       const startTime = Date.now();
+      fs.mkdirSync(renditionDir, { recursive: true });
 
-      // Determine if this is a video file or image file
-      const ext = path.extname(mediaPath).toLowerCase();
-      
-      if (this.isVideoFile(ext)) {
-        // For video files, we need to extract a frame first
-        // For now, we'll try to handle it as an image and fall back gracefully
-        try {
-          await this.generateVideoThumbnail(mediaPath, thumbnailPath);
-        } catch (error) {
-          logger.warn('Video thumbnail generation failed, trying as image', { 
-            mediaPath, 
-            error: error instanceof Error ? error.message : String(error)
-          });
-          await this.generateImageThumbnail(mediaPath, thumbnailPath);
+      // Decode the frame once; every rendition is resized from it
+      const source = decoded || await this.loadFrame(mediaPath, frame);
+      const manifest: RenditionManifest = {};
+
+      if (source) {
+        for (const { spec, outputPath } of outputs) {
+          manifest[spec.name] = await this.writeRendition(source, spec, outputPath);
         }
       } else {
-        // Handle as image file
-        await this.generateImageThumbnail(mediaPath, thumbnailPath);
+        const [card] = outputs;
+        manifest[card.spec.name] = await this.createPlaceholderThumbnail(card.spec, card.outputPath, 'VIDEO');
       }
 
-      const duration = Date.now() - startTime;
-      const stats = fs.statSync(thumbnailPath);
-
-      logger.debug('Thumbnail generated successfully', {
+      logger.debug('Renditions generated successfully', {
         eventId,
-        duration: `${duration}ms`,
-        thumbnailSize: `${stats.size} bytes`,
-        thumbnailPath
+        duration: `${Date.now() - startTime}ms`,
+        totalSize: `${Object.values(manifest).reduce((sum, info) => sum + info.bytes, 0)} bytes`,
+        renditionDir
       });
 
-      return thumbnailPath;
+      return manifest;
     } catch (error) {
       logger.error('Failed to generate thumbnail', {
         eventId,
@@ -89,45 +119,79 @@ export class ThumbnailGenerator {
     }
   }
 
-  private async generateImageThumbnail(inputPath: string, outputPath: string): Promise<void> {
-    await sharp(inputPath)
-      .resize(this.THUMBNAIL_WIDTH, this.THUMBNAIL_HEIGHT, {
-        fit: 'cover',
-        position: 'center'
+  /**
+   * Decoded frame (video) or image path; null when a video frame can't be extracted
+   */
+  private async loadFrame(mediaPath: string, frame: FramePosition): Promise<string | Buffer | null> {
+    if (!isVideoFile(mediaPath)) {
+      return mediaPath;
+    }
+    if (!(await this.frameExtractor.isAvailable())) {
+      return null;
+    }
+
+    try {
+      return await this.frameExtractor.extractFrame(mediaPath, frame);
+    } catch (error) {
+      // Fallback: a placeholder thumbnail
+      logger.warn('Cannot extract video frame, creating placeholder', {
+        mediaPath,
+        frame,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async writeRendition(input: string | Buffer, spec: RenditionSpec, outputPath: string): Promise<RenditionInfo> {
+    const format = spec.format || 'webp';
+    const info = await sharp(input)
+      .resize(spec.width, spec.height, {
+        fit: spec.fit === 'cover' ? 'cover' : 'inside',
+        position: 'center',
+        withoutEnlargement: spec.fit !== 'cover'
       })
-      .jpeg({ 
-        quality: this.QUALITY,
-        progressive: true
+      .toFormat(format, {
+        quality: spec.quality,
+        ...(format === 'jpeg' ? { progressive: true } : {})
       })
-      .toFile(outputPath);
+      .toBuffer({ resolveWithObject: true });
+
+    // With encryption on, files are sealed; bytes is the image's own size
+    fs.writeFileSync(outputPath, this.cipher ? this.cipher.encryptBuffer(info.data) : info.data);
+    return { path: outputPath, width: info.info.width, height: info.info.height, format, bytes: info.info.size };
   }
 
-  private async generateVideoThumbnail(inputPath: string, outputPath: string): Promise<void> {
-    // For video files, we'll try to read them as images first
-    // This works for some video formats that Sharp can handle
-    // In a full implementation, you'd use ffmpeg or similar
-    
-    try {
-      // Try to extract metadata and read as image
-      const metadata = await sharp(inputPath).metadata();
-      
-      if (metadata.width && metadata.height) {
-        // Sharp can handle this file
-        await this.generateImageThumbnail(inputPath, outputPath);
-      } else {
-        throw new Error('Cannot extract frame from video file');
-      }
-    } catch (error) {
-      // Fallback: create a placeholder thumbnail
-      logger.warn('Cannot extract video frame, creating placeholder', { inputPath });
-      await this.createPlaceholderThumbnail(outputPath, 'VIDEO');
+  private async describeExisting(outputs: Array<{ spec: RenditionSpec; outputPath: string }>): Promise<RenditionManifest> {
+    const manifest: RenditionManifest = {};
+    for (const { spec, outputPath } of outputs) {
+      const image = this.readRendition(outputPath);
+      const { width = 0, height = 0 } = await sharp(image).metadata();
+      manifest[spec.name] = {
+        path: outputPath,
+        width,
+        height,
+        format: spec.format || 'webp',
+        bytes: image.length
+      };
     }
+    return manifest;
   }
 
-  private async createPlaceholderThumbnail(outputPath: string, type: string = 'IMAGE'): Promise<void> {
+  /**
+   * A rendition's image bytes, decrypted when encryption is on
+   */
+  readRendition(filePath: string): Buffer {
+    const data = fs.readFileSync(filePath);
+    return this.cipher ? this.cipher.decryptBuffer(data) : data;
+  }
+
+  private async createPlaceholderThumbnail(spec: RenditionSpec, outputPath: string, type: string = 'IMAGE'): Promise<RenditionInfo> {
     // Create a simple colored rectangle as placeholder
+    const width = spec.width || PLACEHOLDER_WIDTH;
+    const height = spec.height || PLACEHOLDER_HEIGHT;
     const svg = `
-      <svg width="${this.THUMBNAIL_WIDTH}" height="${this.THUMBNAIL_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+      <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
         <rect width="100%" height="100%" fill="#f0f0f0"/>
         <text x="50%" y="50%" text-anchor="middle" dy=".3em" font-family="Arial, sans-serif" font-size="14" fill="#666">
           ${type}
@@ -135,14 +199,7 @@ export class ThumbnailGenerator {
       </svg>
     `;
 
-    await sharp(Buffer.from(svg))
-      .jpeg({ quality: this.QUALITY })
-      .toFile(outputPath);
-  }
-
-  private isVideoFile(extension: string): boolean {
-    const videoExtensions = ['.mp4', '.mov', '.avi', '.mkv', '.webm', '.m4v'];
-    return videoExtensions.includes(extension);
+    return this.writeRendition(Buffer.from(svg), spec, outputPath);
   }
 
   /**
@@ -191,7 +248,8 @@ export class ThumbnailGenerator {
         const stats = fs.statSync(filePath);
         
         if (stats.mtime.getTime() < cutoffTime) {
-          fs.unlinkSync(filePath);
+          // A directory is one memory's rendition set
+          fs.rmSync(filePath, { recursive: true, force: true });
           deletedCount++;
         }
       }
@@ -211,35 +269,44 @@ export class ThumbnailGenerator {
   }
 
   /**
-   * Get thumbnail statistics
+   * Get thumbnail statistics (a memory's rendition set counts as one thumbnail)
    */
   getStats(): {
     totalThumbnails: number;
     totalSizeBytes: number;
     thumbsDir: string;
+    renditions: string[];
   } {
     try {
       const files = fs.readdirSync(this.thumbsDir);
       let totalSize = 0;
 
       for (const file of files) {
-        const filePath = path.join(this.thumbsDir, file);
-        const stats = fs.statSync(filePath);
-        totalSize += stats.size;
+        totalSize += this.sizeOf(path.join(this.thumbsDir, file));
       }
 
       return {
         totalThumbnails: files.length,
         totalSizeBytes: totalSize,
-        thumbsDir: this.thumbsDir
+        thumbsDir: this.thumbsDir,
+        renditions: this.renditions.map(spec => spec.name)
       };
     } catch (error) {
       logger.error('Failed to get thumbnail stats:', error);
       return {
         totalThumbnails: 0,
         totalSizeBytes: 0,
-        thumbsDir: this.thumbsDir
+        thumbsDir: this.thumbsDir,
+        renditions: this.renditions.map(spec => spec.name)
       };
     }
   }
+
+  private sizeOf(filePath: string): number {
+    const stats = fs.statSync(filePath);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+    return fs.readdirSync(filePath).reduce((sum, file) => sum + this.sizeOf(path.join(filePath, file)), 0);
+  }
 }
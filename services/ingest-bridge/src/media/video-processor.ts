@@ -1,84 +1,140 @@
 /**
  * Video Processing Service
- * Handles immediate video cleanup and similarity checking for storage optimization
+ * Similarity checking of captured frames for storage optimization. Frames inside
+ * Screenpipe's video chunks are decoded first; the chunks themselves belong to
+ * Screenpipe (many frames share one) and are never deleted here.
  */
 
 import fs from 'fs/promises';
-import path from 'path';
-import crypto from 'crypto';
+import { DatabaseManager } from '../database/manager';
 import { createLogger } from '../utils/logger';
+import { FrameExtractor, isVideoFile } from './frame-extractor';
+import { computeFrameHashes, hammingDistance } from './perceptual-hash';
 
 const logger = createLogger('video-processor');
 
 interface VideoFrame {
   filePath: string;
+  memoryId: string;
+  frameKey: string;  // App + window title; frames are only compared within one window
   timestamp: number;
-  hash: string;
-  size: number;
+  dhash: string;
+  phash: string;
+  size: number;      // Bytes of the image, or of the decoded frame for a video chunk
+}
+
+/**
+ * Where a frame was captured
+ */
+export interface FrameContext {
+  memoryId: string;
+  app: string;
+  windowTitle?: string | null;
+  timestamp: number;
+  frameIndex?: number | null; // Screenpipe's offset_index of the frame in its video chunk
 }
 
 interface SimilarityResult {
   isDuplicate: boolean;
-  similarityScore: number;
+  similarityScore: number; // 1 - Hamming distance / 64 to the closest recent frame; 0 if none
+  distance?: number;       // Hamming distance (max of dHash and pHash) to that frame
   previousFrame?: VideoFrame;
 }
 
 export class VideoProcessor {
-  private processedFrames = new Map<string, VideoFrame>();
-  private readonly SIMILARITY_THRESHOLD = 0.85; // 85% similarity threshold
-  private readonly MAX_FRAME_CACHE = 100; // Keep last 100 frames for comparison
-  private readonly CLEANUP_DELAY_MS = 30000; // 30 seconds delay before cleanup
+  private processedFrames = new Map<string, VideoFrame[]>(); // By frame key, newest first
+  private loadedKeys = new Set<string>();
+  private framesSincePrune = 0;
+  private duplicates = 0;
+  private duplicateBytes = 0;
+  private unhashable = 0;
+  private readonly HASH_BITS = 64;
+  private readonly MAX_DISTANCE = parseInt(process.env.FRAME_DEDUP_MAX_DISTANCE || '6'); // Bits; at most this far apart = duplicate
+  private readonly DEDUP_WINDOW_MS = parseInt(process.env.FRAME_DEDUP_WINDOW_MS || '600000'); // Compare with frames from the last 10 minutes
+  private readonly FRAMES_PER_KEY = 10; // Recent kept frames compared per window
+  private readonly MAX_FRAME_KEYS = 100; // Windows held in memory
+  private readonly PRUNE_EVERY = 100; // Kept frames between deletes of expired hashes
 
-  constructor() {
+  constructor(
+    private databaseManager?: DatabaseManager,
+    private frameExtractor: FrameExtractor = new FrameExtractor()
+  ) {
     logger.info('Video Processor initialized');
   }
 
   /**
-   * Process a video file: extract frame info, check similarity, schedule cleanup
+   * Process a captured frame: decode it (out of its video chunk, by frame index or
+   * timestamp), hash it and check similarity. The decoded frame is returned so the
+   * thumbnail stage doesn't decode it again.
    */
-  async processVideoFile(filePath: string, ocrText: string): Promise<{
+  async processVideoFile(filePath: string, context: FrameContext): Promise<{
     shouldKeep: boolean;
     similarityResult: SimilarityResult;
-    frameInfo: VideoFrame;
+    frameInfo: VideoFrame | null;
+    frame: Buffer | null;
   }> {
     try {
       logger.debug('Processing video file', { filePath });
 
-      // Get file stats and create frame info
-      const stats = await fs.stat(filePath);
+      let frame: Buffer | null = null;
+      let hashes;
+      let size: number;
+      try {
+        if (isVideoFile(filePath)) {
+          if (!(await this.frameExtractor.isAvailable())) {
+            throw new Error('ffmpeg not available');
+          }
+          frame = await this.frameExtractor.extractFrame(filePath, {
+            frameIndex: context.frameIndex,
+            timestamp: context.timestamp
+          });
+          size = frame.length;
+        } else {
+          size = (await fs.stat(filePath)).size;
+        }
+        hashes = await computeFrameHashes(frame || filePath);
+      } catch (error: any) {
+        // A frame that can't be decoded is kept, unchecked
+        this.unhashable++;
+        logger.debug('Cannot decode frame for hashing, keeping it', { filePath, error: error.message });
+        return { shouldKeep: true, similarityResult: { isDuplicate: false, similarityScore: 0 }, frameInfo: null, frame };
+      }
+
       const frameInfo: VideoFrame = {
         filePath,
-        timestamp: stats.mtime.getTime(),
-        hash: await this.generateContentHash(filePath, ocrText),
-        size: stats.size
+        memoryId: context.memoryId,
+        frameKey: `${context.app}\0${context.windowTitle || ''}`,
+        timestamp: context.timestamp,
+        dhash: hashes.dhash,
+        phash: hashes.phash,
+        size
       };
 
-      // Check similarity with recent frames
-      const similarityResult = await this.checkSimilarity(frameInfo, ocrText);
+      // Check similarity with recent frames of the same window
+      const similarityResult = await this.checkSimilarity(frameInfo);
 
       // Decide whether to keep the frame
       const shouldKeep = !similarityResult.isDuplicate;
 
       if (shouldKeep) {
-        // Add to processed frames cache
-        this.addToFrameCache(frameInfo);
+        await this.addToFrameCache(frameInfo);
         logger.debug('Frame marked for keeping', { 
           filePath, 
-          hash: frameInfo.hash.substring(0, 8),
-          size: frameInfo.size 
+          dhash: frameInfo.dhash,
+          distance: similarityResult.distance
         });
       } else {
+        this.duplicates++;
+        this.duplicateBytes += frameInfo.size;
         logger.debug('Frame marked as duplicate', { 
           filePath, 
+          distance: similarityResult.distance,
           similarityScore: similarityResult.similarityScore,
-          previousFrame: similarityResult.previousFrame?.filePath 
+          previousFrame: similarityResult.previousFrame?.memoryId 
         });
       }
 
-      // Schedule cleanup regardless (we'll keep the OCR data, just remove video)
-      this.scheduleVideoCleanup(filePath, shouldKeep ? 'processed' : 'duplicate');
-
-      return { shouldKeep, similarityResult, frameInfo };
+      return { shouldKeep, similarityResult, frameInfo, frame };
 
     } catch (error: any) {
       logger.error('Error processing video file', { filePath, error: error.message });
@@ -87,134 +143,109 @@ export class VideoProcessor {
   }
 
   /**
-   * Generate a content hash based on file size, OCR text, and basic file info
-   * This is a lightweight alternative to actual image similarity
+   * Compare with the recent kept frames of the same app/window. The closest one sets
+   * the score; within MAX_DISTANCE bits on both hashes the frame is a duplicate.
    */
-  private async generateContentHash(filePath: string, ocrText: string): Promise<string> {
-    try {
-      const stats = await fs.stat(filePath);
-      const fileName = path.basename(filePath);
-      
-      // Create hash from file size, OCR text (first 500 chars), and filename pattern
-      const contentString = [
-        stats.size.toString(),
-        ocrText.substring(0, 500).trim(),
-        fileName.replace(/\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}/, 'TIMESTAMP'), // Normalize timestamp
-      ].join('|');
-
-      return crypto.createHash('sha256').update(contentString).digest('hex');
-    } catch (error: any) {
-      logger.error('Error generating content hash', { filePath, error: error.message });
-      throw error;
-    }
-  }
-
-  /**
-   * Check similarity with recently processed frames
-   */
-  private async checkSimilarity(frameInfo: VideoFrame, ocrText: string): Promise<SimilarityResult> {
-    const recentFrames = Array.from(this.processedFrames.values())
-      .filter(frame => frameInfo.timestamp - frame.timestamp < 60000) // Within last minute
-      .sort((a, b) => b.timestamp - a.timestamp) // Most recent first
-      .slice(0, 10); // Check against last 10 frames
+  private async checkSimilarity(frameInfo: VideoFrame): Promise<SimilarityResult> {
+    const recentFrames = (await this.getRecentFrames(frameInfo.frameKey, frameInfo.timestamp))
+      .filter(frame => frame.memoryId !== frameInfo.memoryId) // A retried event isn't its own duplicate
+      .filter(frame => Math.abs(frameInfo.timestamp - frame.timestamp) < this.DEDUP_WINDOW_MS);
 
+    let closest: { frame: VideoFrame; distance: number } | null = null;
     for (const previousFrame of recentFrames) {
-      const similarity = this.calculateSimilarity(frameInfo, previousFrame, ocrText);
-      
-      if (similarity >= this.SIMILARITY_THRESHOLD) {
-        return {
-          isDuplicate: true,
-          similarityScore: similarity,
-          previousFrame
-        };
+      const distance = this.calculateDistance(frameInfo, previousFrame);
+      if (!closest || distance < closest.distance) {
+        closest = { frame: previousFrame, distance };
       }
     }
 
+    if (!closest) {
+      return { isDuplicate: false, similarityScore: 0 };
+    }
+
     return {
-      isDuplicate: false,
-      similarityScore: 0
+      isDuplicate: closest.distance <= this.MAX_DISTANCE,
+      similarityScore: 1 - closest.distance / this.HASH_BITS,
+      distance: closest.distance,
+      previousFrame: closest.frame
     };
   }
 
   /**
-   * Calculate similarity between two frames
-   * Uses hash comparison and file size as lightweight similarity metrics
+   * Hamming distance between two frames: the larger of the dHash and pHash distances,
+   * so both the gradient layout and the overall structure have to agree
    */
-  private calculateSimilarity(frame1: VideoFrame, frame2: VideoFrame, ocrText: string): number {
-    // Exact hash match = 100% similarity
-    if (frame1.hash === frame2.hash) {
-      return 1.0;
-    }
-
-    // File size similarity (within 10% = high similarity)
-    const sizeDiff = Math.abs(frame1.size - frame2.size) / Math.max(frame1.size, frame2.size);
-    const sizeSimilarity = Math.max(0, 1 - sizeDiff * 2); // Size difference penalty
-
-    // Time proximity bonus (closer in time = more likely to be similar)
-    const timeDiff = Math.abs(frame1.timestamp - frame2.timestamp);
-    const timeBonus = timeDiff < 10000 ? 0.2 : 0; // 10 second bonus
-
-    // Hash prefix similarity (first 8 chars)
-    const hashSimilarity = frame1.hash.substring(0, 8) === frame2.hash.substring(0, 8) ? 0.3 : 0;
-
-    return Math.min(1.0, sizeSimilarity + timeBonus + hashSimilarity);
+  private calculateDistance(frame1: VideoFrame, frame2: VideoFrame): number {
+    return Math.max(
+      hammingDistance(frame1.dhash, frame2.dhash),
+      hammingDistance(frame1.phash, frame2.phash)
+    );
   }
 
   /**
-   * Add frame to cache, maintaining size limit
+   * Recent kept frames of a window, loaded from SQLite the first time the window is seen
    */
-  private addToFrameCache(frameInfo: VideoFrame): void {
-    this.processedFrames.set(frameInfo.hash, frameInfo);
-
-    // Maintain cache size limit
-    if (this.processedFrames.size > this.MAX_FRAME_CACHE) {
-      const oldestHash = Array.from(this.processedFrames.entries())
-        .sort(([, a], [, b]) => a.timestamp - b.timestamp)[0][0];
-      this.processedFrames.delete(oldestHash);
+  private async getRecentFrames(frameKey: string, timestamp: number): Promise<VideoFrame[]> {
+    if (this.databaseManager && !this.loadedKeys.has(frameKey)) {
+      this.loadedKeys.add(frameKey);
+      const rows = await this.databaseManager.getRecentFrameHashes(
+        frameKey,
+        timestamp - this.DEDUP_WINDOW_MS,
+        this.FRAMES_PER_KEY
+      );
+      const cached = this.processedFrames.get(frameKey) || [];
+      const known = new Set(cached.map(frame => frame.memoryId));
+      const loaded = rows
+        .filter(row => !known.has(row.memory_id))
+        .map(row => ({
+          filePath: '',
+          memoryId: row.memory_id,
+          frameKey,
+          timestamp: row.ts,
+          dhash: row.dhash,
+          phash: row.phash,
+          size: 0
+        }));
+      this.processedFrames.set(frameKey, [...cached, ...loaded]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, this.FRAMES_PER_KEY));
     }
-  }
 
-  /**
-   * Schedule video file cleanup after processing delay
-   */
-  private scheduleVideoCleanup(filePath: string, reason: 'processed' | 'duplicate'): void {
-    setTimeout(async () => {
-      try {
-        await this.cleanupVideoFile(filePath, reason);
-      } catch (error: any) {
-        logger.error('Error during scheduled cleanup', { filePath, reason, error: error.message });
-      }
-    }, this.CLEANUP_DELAY_MS);
+    return this.processedFrames.get(frameKey) || [];
   }
 
   /**
-   * Actually delete the video file
+   * Add a kept frame to the cache and SQLite, maintaining size limits
    */
-  private async cleanupVideoFile(filePath: string, reason: string): Promise<void> {
-    try {
-      // Check if file still exists
-      await fs.access(filePath);
-      
-      // Get file size for logging
-      const stats = await fs.stat(filePath);
-      const sizeMB = (stats.size / (1024 * 1024)).toFixed(2);
-      
-      // Delete the file
-      await fs.unlink(filePath);
-      
-      logger.info('Video file cleaned up', { 
-        filePath: path.basename(filePath), 
-        reason, 
-        sizeMB: `${sizeMB}MB`,
-        savedSpace: `${sizeMB}MB` 
-      });
-      
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        logger.debug('Video file already deleted', { filePath });
-      } else {
-        logger.error('Failed to cleanup video file', { filePath, reason, error: error.message });
-      }
+  private async addToFrameCache(frameInfo: VideoFrame): Promise<void> {
+    const frames = [frameInfo, ...(this.processedFrames.get(frameInfo.frameKey) || [])]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, this.FRAMES_PER_KEY);
+    this.processedFrames.delete(frameInfo.frameKey);
+    this.processedFrames.set(frameInfo.frameKey, frames); // Re-inserted = most recently used
+
+    // Maintain cache size limit (Map keeps insertion order, so the first key is the stalest)
+    if (this.processedFrames.size > this.MAX_FRAME_KEYS) {
+      const stalestKey = this.processedFrames.keys().next().value as string;
+      this.processedFrames.delete(stalestKey);
+      this.loadedKeys.delete(stalestKey);
+    }
+
+    if (!this.databaseManager) {
+      return;
+    }
+
+    await this.databaseManager.saveFrameHash({
+      memory_id: frameInfo.memoryId,
+      frame_key: frameInfo.frameKey,
+      ts: frameInfo.timestamp,
+      dhash: frameInfo.dhash,
+      phash: frameInfo.phash
+    });
+
+    if (++this.framesSincePrune >= this.PRUNE_EVERY) {
+      this.framesSincePrune = 0;
+      await this.databaseManager.pruneFrameHashes(Date.now() - this.DEDUP_WINDOW_MS);
     }
   }
 
@@ -224,15 +255,19 @@ export class VideoProcessor {
   getStats(): {
     processedFrames: number;
     cacheSize: number;
+    duplicates: number;
+    unhashable: number;
     estimatedSavedSpace: string;
   } {
-    const totalSize = Array.from(this.processedFrames.values())
-      .reduce((sum, frame) => sum + frame.size, 0);
+    const cachedFrames = Array.from(this.processedFrames.values())
+      .reduce((sum, frames) => sum + frames.length, 0);
     
     return {
-      processedFrames: this.processedFrames.size,
+      processedFrames: cachedFrames,
       cacheSize: this.processedFrames.size,
-      estimatedSavedSpace: `${(totalSize / (1024 * 1024)).toFixed(2)}MB`
+      duplicates: this.duplicates,
+      unhashable: this.unhashable,
+      estimatedSavedSpace: `${(this.duplicateBytes / (1024 * 1024)).toFixed(2)}MB`
     };
   }
 
@@ -241,6 +276,7 @@ export class VideoProcessor {
    */
   clearCache(): void {
     this.processedFrames.clear();
+    this.loadedKeys.clear();
     logger.info('Frame cache cleared');
   }
 }
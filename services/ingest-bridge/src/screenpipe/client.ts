@@ -8,7 +8,10 @@
  */
 
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { createHash } from 'crypto';
+import { OcrBox } from '../types/memory';
 import { createLogger } from '../utils/logger';
+import { parseOcrBoxes } from './ocr-boxes';
 
 const logger = createLogger('screenpipe-client');
 
@@ -20,13 +23,25 @@ export interface ScreenpipeEvent {
   window_title: string;
   url?: string;
   ocr_text: string;
+  ocr_boxes?: OcrBox[];    // OCR layout, when Screenpipe returns it
   media_path: string;
   frame_id?: string;
+  offset_index?: number;   // Frame number inside the media_path video chunk
   content_type: 'ocr' | 'audio' | 'ui';
   focused?: boolean;
   browser_url?: string;
+  transcription?: string;  // Audio events only
+  chunk_id?: string;       // Audio events only
+  device_name?: string;    // Audio events only: microphone or system output
+  ui_text?: string;        // Accessibility-tree text for the same window (UI events, or merged into OCR)
+  redactions?: { [type: string]: number }; // Set by the bridge's redaction stage
 }
 
+/**
+ * Screenpipe content types the bridge ingests, each with its own cursor
+ */
+export type IngestContentType = 'ocr' | 'audio';
+
 export interface ScreenpipeSearchQuery {
   q?: string;
   limit?: number;
@@ -57,12 +72,42 @@ export interface ScreenpipeSearchMatch {
   timestamp: string;
   file_path: string;
   ocr_text?: string;
+  text_json?: string | unknown[]; // OCR words with their positions (see ocr-boxes.ts)
   transcription?: string;
+  text?: string;           // UI (accessibility tree) matches
   app_name?: string;
   window_name?: string;
   frame_id?: string;
+  offset_index?: number;
   focused?: boolean;
   browser_url?: string;
+  chunk_id?: string;
+  device_name?: string;
+}
+
+/**
+ * Position of the last Screenpipe frame the bridge has fully processed.
+ * Frames sharing a timestamp are ordered by frame id.
+ */
+export interface IngestCursor {
+  lastTimestamp: number;         // epoch ms
+  lastFrameId: string | null;    // null when the cursor was moved past an empty window
+}
+
+/**
+ * Durable storage for an ingestion cursor (SQLite in production)
+ */
+export interface CursorStore {
+  load(): Promise<IngestCursor | null>;
+  save(cursor: IngestCursor): Promise<void>;
+}
+
+export interface PollOptions {
+  contentType?: IngestContentType;
+  pollIntervalMs?: number;
+  pageSize?: number;
+  cursorStore?: CursorStore;
+  signal?: AbortSignal;
 }
 
 export interface ScreenpipeHealthStatus {
@@ -85,6 +130,14 @@ export class ScreenpipeClient {
   private isHealthy: boolean = false;
   private lastHealthCheck: number = 0;
   private healthCheckInterval: number = 30000; // 30 seconds
+  private readonly MAX_CATCHUP_WINDOW_MS = 10 * 60 * 1000; // Bound each catch-up query to 10 minutes of capture
+  // Screenpipe writes OCR a few seconds after the frame, and transcribes audio in 30s chunks
+  private readonly SETTLE_MS: Record<IngestContentType, number> = { ocr: 10000, audio: 60000 };
+  // Rows written later than that (OCR backlog) land behind the cursor, so each poll
+  // re-scans this far back and picks up frames it hasn't yielded yet
+  private readonly LATE_ARRIVAL_MS = parseInt(process.env.SCREENPIPE_LATE_ARRIVAL_MS || '300000'); // 5 minutes
+  // Frames yielded within the look-back window, so a re-scan doesn't yield them twice
+  private readonly recentlyYielded: Record<IngestContentType, Map<string, number>> = { ocr: new Map(), audio: new Map() };
 
   constructor(baseUrl: string = 'http://localhost:3030') {
     this.baseUrl = baseUrl;
@@ -212,19 +265,7 @@ export class ScreenpipeClient {
     try {
       const result = await this.search(query);
       
-      const events: ScreenpipeEvent[] = result.data.map(match => ({
-        id: match.frame_id || `${match.timestamp}-${Math.random()}`,
-        timestamp: new Date(match.timestamp).getTime(),
-        app: match.app_name || 'unknown',
-        window_title: match.window_name || '',
-        url: match.browser_url,
-        ocr_text: match.ocr_text || '',
-        media_path: match.file_path,
-        frame_id: match.frame_id,
-        content_type: match.type,
-        focused: match.focused,
-        browser_url: match.browser_url
-      }));
+      const events = result.data.map(match => this.toEvent(match));
 
       logger.debug('Retrieved recent events', {
         eventCount: events.length,
@@ -240,6 +281,167 @@ export class ScreenpipeClient {
     }
   }
 
+  /**
+   * Fetch one page of events captured within [startTime, endTime]
+   * 
+   * The end of the window is fixed by the caller so that frames captured while
+   * paging do not shift the offsets of pages not yet read.
+   */
+  async getEventsPage(
+    startTime: number,
+    endTime: number,
+    offset: number,
+    limit: number = 100,
+    contentType: ScreenpipeEvent['content_type'] = 'ocr',
+    includeFrames: boolean = contentType === 'ocr'
+  ): Promise<{ events: ScreenpipeEvent[]; total: number }> {
+    const result = await this.search({
+      limit,
+      offset,
+      content_type: contentType,
+      include_frames: includeFrames,
+      start_time: new Date(startTime).toISOString(),
+      end_time: new Date(endTime).toISOString()
+    });
+
+    return {
+      events: result.data.map(match => this.toEvent(match)),
+      total: result.pagination.total
+    };
+  }
+
+  /**
+   * Fetch every event after the cursor up to endTime, oldest first
+   * 
+   * Pages through the window with `offset` until Screenpipe reports no more
+   * matches, so bursts larger than a single page are never truncated. With a
+   * `lookbackMs`, the window starts that much before the cursor, and events behind
+   * the cursor are returned too unless `isKnown` says they were already handled.
+   * That part of the window is fetched without frame images: nearly all of it was
+   * ingested already, and late frames are decoded from their video chunk anyway.
+   * 
+   * Debug: Log page count and catch-up size
+   */
+  async getEventsSince(
+    cursor: IngestCursor,
+    endTime: number,
+    pageSize: number = 100,
+    contentType: IngestContentType = 'ocr',
+    lookbackMs: number = 0,
+    isKnown: (event: ScreenpipeEvent) => boolean = () => true
+  ): Promise<ScreenpipeEvent[]> {
+    const behind = lookbackMs > 0
+      ? await this.getWindow(cursor.lastTimestamp - lookbackMs, cursor.lastTimestamp, pageSize, contentType, false)
+      : { events: [], pages: 0 };
+    const ahead = await this.getWindow(cursor.lastTimestamp, endTime, pageSize, contentType);
+    const pages = behind.pages + ahead.pages;
+
+    // Both windows include the cursor's own timestamp
+    const events = [...new Map([...behind.events, ...ahead.events].map(event => [event.id, event])).values()];
+    const pending = events
+      .filter(event => isAfterCursor(event, cursor) || !isKnown(event))
+      .sort(compareEvents);
+    const late = pending.filter(event => !isAfterCursor(event, cursor)).length;
+
+    logger.debug('Fetched events since cursor', {
+      contentType,
+      cursor: new Date(cursor.lastTimestamp).toISOString(),
+      windowEnd: new Date(endTime).toISOString(),
+      pages,
+      fetched: events.length,
+      pending: pending.length,
+      late
+    });
+    if (late > 0) {
+      logger.info('Picked up frames written after the cursor passed them', { contentType, late });
+    }
+
+    return pending;
+  }
+
+  /**
+   * Fetch all UI-tree (accessibility) text captured within [startTime, endTime]
+   */
+  async getUiEvents(startTime: number, endTime: number, pageSize: number = 100): Promise<ScreenpipeEvent[]> {
+    return (await this.getWindow(startTime, endTime, pageSize, 'ui')).events;
+  }
+
+  /**
+   * Page through every event captured within [startTime, endTime]
+   */
+  private async getWindow(
+    startTime: number,
+    endTime: number,
+    pageSize: number,
+    contentType: ScreenpipeEvent['content_type'],
+    includeFrames?: boolean
+  ): Promise<{ events: ScreenpipeEvent[]; pages: number }> {
+    const events: ScreenpipeEvent[] = [];
+    let offset = 0;
+    let pages = 0;
+
+    while (true) {
+      const page = await this.getEventsPage(startTime, endTime, offset, pageSize, contentType, includeFrames);
+      events.push(...page.events);
+      pages++;
+      offset += page.events.length;
+
+      if (page.events.length < pageSize || offset >= page.total) {
+        break;
+      }
+    }
+
+    return { events, pages };
+  }
+
+  private toEvent(match: ScreenpipeSearchMatch): ScreenpipeEvent {
+    if (match.type === 'audio') {
+      // A chunk is transcribed in segments, so the chunk id alone is not unique
+      const timestamp = new Date(match.timestamp).getTime();
+      return {
+        id: `audio_${match.chunk_id ?? 'unknown'}_${timestamp}`,
+        timestamp,
+        app: match.device_name || 'audio',
+        window_title: '',
+        ocr_text: '',
+        media_path: match.file_path,
+        content_type: 'audio',
+        transcription: match.transcription || '',
+        chunk_id: match.chunk_id,
+        device_name: match.device_name
+      };
+    }
+
+    if (match.type === 'ui') {
+      return {
+        id: `ui_${match.timestamp}_${match.app_name ?? ''}_${match.window_name ?? ''}`,
+        timestamp: new Date(match.timestamp).getTime(),
+        app: match.app_name || 'unknown',
+        window_title: match.window_name || '',
+        ocr_text: '',
+        media_path: match.file_path,
+        content_type: 'ui',
+        ui_text: match.text || ''
+      };
+    }
+
+    return {
+      id: match.frame_id || ocrEventId(match),
+      timestamp: new Date(match.timestamp).getTime(),
+      app: match.app_name || 'unknown',
+      window_title: match.window_name || '',
+      url: match.browser_url,
+      ocr_text: match.ocr_text || '',
+      ocr_boxes: match.text_json ? parseOcrBoxes(match.text_json) : undefined,
+      media_path: match.file_path,
+      frame_id: match.frame_id,
+      offset_index: match.offset_index,
+      content_type: match.type,
+      focused: match.focused,
+      browser_url: match.browser_url
+    };
+  }
+
   /**
    * Get frame data for a specific frame ID
    * 
@@ -332,22 +534,45 @@ export class ScreenpipeClient {
   /**
    * Start continuous polling for new events
    * 
-   * Returns an async iterator that yields new events as they become available.
+   * Returns an async iterator that yields new events, oldest first, in chunks of
+   * at most `pageSize`. The cursor is advanced (and persisted through
+   * `cursorStore`, when given) only after the consumer has finished with a chunk,
+   * so a restart resumes from the last fully processed frame. While behind, the
+   * iterator catches up window by window without waiting between polls.
+   * Each poll also re-scans SCREENPIPE_LATE_ARRIVAL_MS behind the cursor for rows
+   * Screenpipe wrote late; frames already yielded are skipped by id, and after a
+   * restart the consumer's own duplicate check drops the ones it already stored.
    * This is the main method used by the ingest bridge for real-time data ingestion.
    * 
    * Debug: Log polling intervals and event rates
    */
-  async *pollEvents(pollIntervalMs: number = 5000): AsyncGenerator<ScreenpipeEvent[], void, unknown> {
-    let lastTimestamp = Date.now() - 60000; // Start from 1 minute ago
+  async *pollEvents(options: PollOptions = {}): AsyncGenerator<ScreenpipeEvent[], void, unknown> {
+    const { contentType = 'ocr', pollIntervalMs = 5000, pageSize = 100, cursorStore, signal } = options;
+
+    let cursor: IngestCursor = (await cursorStore?.load()) ?? {
+      lastTimestamp: Date.now() - 60000, // Start from 1 minute ago
+      lastFrameId: null
+    };
     let pollCount = 0;
     let totalEvents = 0;
+    const yielded = this.recentlyYielded[contentType];
+
+    // Late frames sort before the cursor, which never moves back
+    const advance = async (next: IngestCursor) => {
+      if (compareCursors(next, cursor) <= 0) return;
+      cursor = next;
+      await cursorStore?.save(cursor);
+    };
 
     logger.info('Starting event polling', {
+      contentType,
       pollIntervalMs,
-      startingFrom: new Date(lastTimestamp).toISOString()
+      pageSize,
+      persisted: !!cursorStore,
+      startingFrom: new Date(cursor.lastTimestamp).toISOString()
     });
 
-    while (true) {
+    while (!signal?.aborted) {
       try {
         // Check health periodically
         if (Date.now() - this.lastHealthCheck > this.healthCheckInterval) {
@@ -360,28 +585,46 @@ export class ScreenpipeClient {
           continue;
         }
 
-        const events = await this.getRecentEvents(lastTimestamp, 100);
+        const settledUntil = Date.now() - this.SETTLE_MS[contentType];
+        const windowEnd = Math.min(cursor.lastTimestamp + this.MAX_CATCHUP_WINDOW_MS, settledUntil);
+        const events = windowEnd > cursor.lastTimestamp - this.LATE_ARRIVAL_MS
+          ? await this.getEventsSince(cursor, windowEnd, pageSize, contentType, this.LATE_ARRIVAL_MS, event => yielded.has(event.id))
+          : [];
         pollCount++;
         totalEvents += events.length;
 
-        if (events.length > 0) {
-          // Update timestamp to the most recent event
-          lastTimestamp = Math.max(...events.map(e => e.timestamp)) + 1;
-          
-          logger.debug('Poll completed', {
-            pollNumber: pollCount,
-            newEvents: events.length,
-            totalEventsPolled: totalEvents,
-            latestTimestamp: new Date(lastTimestamp).toISOString()
-          });
-
-          yield events;
-        } else {
-          logger.debug('Poll completed - no new events', { pollNumber: pollCount });
+        for (let i = 0; i < events.length; i += pageSize) {
+          const chunk = events.slice(i, i + pageSize);
+          yield chunk;
+
+          for (const event of chunk) {
+            yielded.set(event.id, event.timestamp);
+          }
+          const last = chunk[chunk.length - 1];
+          await advance({ lastTimestamp: last.timestamp, lastFrameId: sequenceId(last) });
         }
 
-        // Wait before next poll
-        await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+        // The whole window has been seen; move to its end so it isn't fetched as new
+        // again. Rows written into it later are still found by the look-back.
+        await advance({ lastTimestamp: windowEnd, lastFrameId: null });
+
+        // Forget frames that have fallen out of the look-back window
+        for (const [id, timestamp] of yielded) {
+          if (timestamp < cursor.lastTimestamp - this.LATE_ARRIVAL_MS) yielded.delete(id);
+        }
+
+        logger.debug('Poll completed', {
+          contentType,
+          pollNumber: pollCount,
+          newEvents: events.length,
+          totalEventsPolled: totalEvents,
+          cursor: new Date(cursor.lastTimestamp).toISOString()
+        });
+
+        // Keep going without waiting until we have caught up with the settled edge
+        if (windowEnd >= settledUntil) {
+          await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+        }
 
       } catch (error) {
         logger.error('Polling error:', error);
@@ -412,6 +655,67 @@ export class ScreenpipeClient {
   }
 }
 
+function isAfterCursor(event: ScreenpipeEvent, cursor: IngestCursor): boolean {
+  if (event.timestamp !== cursor.lastTimestamp) {
+    return event.timestamp > cursor.lastTimestamp;
+  }
+  if (cursor.lastFrameId === null) {
+    return true;
+  }
+  return compareFrameIds(sequenceId(event), cursor.lastFrameId) > 0;
+}
+
+/**
+ * Order of two cursor positions; a null frame id sits before every frame at its timestamp
+ */
+function compareCursors(a: IngestCursor, b: IngestCursor): number {
+  if (a.lastTimestamp !== b.lastTimestamp) {
+    return a.lastTimestamp - b.lastTimestamp;
+  }
+  if (a.lastFrameId === b.lastFrameId) {
+    return 0;
+  }
+  if (a.lastFrameId === null || b.lastFrameId === null) {
+    return a.lastFrameId === null ? -1 : 1;
+  }
+  return compareFrameIds(a.lastFrameId, b.lastFrameId);
+}
+
+function compareEvents(a: ScreenpipeEvent, b: ScreenpipeEvent): number {
+  return a.timestamp - b.timestamp || compareFrameIds(sequenceId(a), sequenceId(b));
+}
+
+/**
+ * Tie-breaker for events sharing a timestamp: the frame id, or the audio chunk id
+ */
+function sequenceId(event: ScreenpipeEvent): string {
+  return event.frame_id ?? event.chunk_id ?? event.id;
+}
+
+/**
+ * Id for an OCR match without a frame id, the same every time the row is fetched, so
+ * the look-back recognizes it
+ */
+function ocrEventId(match: ScreenpipeSearchMatch): string {
+  const digest = createHash('sha256')
+    .update([match.app_name ?? '', match.window_name ?? '', match.ocr_text ?? ''].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+  return `ocr_${new Date(match.timestamp).getTime()}_${digest}`;
+}
+
+/**
+ * Screenpipe frame ids are numeric strings; compare them numerically when possible
+ */
+function compareFrameIds(a: string, b: string): number {
+  const numA = Number(a);
+  const numB = Number(b);
+  if (Number.isFinite(numA) && Number.isFinite(numB)) {
+    return numA - numB;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 /**
  * Factory function to create and test a Screenpipe client
  * 
@@ -0,0 +1,84 @@
+/**
+ * OCR Boxes
+ * Normalizes the per-word layout Screenpipe keeps with each frame's OCR (`text_json`)
+ * into boxes in fractions of the frame, whatever engine produced it
+ */
+
+import { OcrBox } from '../types/memory';
+
+const TESSERACT_WORD_LEVEL = 5;
+const TESSERACT_PAGE_LEVEL = 1;
+
+/**
+ * Boxes from a frame's `text_json`, as a JSON string or already parsed. Two layouts
+ * are understood:
+ * - Tesseract/Windows: `{level, left, top, width, height, text}` in pixels; the page
+ *   entry (level 1) gives the frame size, else the words' extent does
+ * - Apple Vision: `{text, bounding_box: {x, y, width, height}}` in fractions with the
+ *   origin at the bottom left
+ * Anything else yields no boxes.
+ */
+export function parseOcrBoxes(textJson: unknown): OcrBox[] {
+  let entries = textJson;
+  if (typeof entries === 'string') {
+    try {
+      entries = JSON.parse(entries);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const boxes = entries.some(entry => entry?.bounding_box)
+    ? fromNormalized(entries)
+    : fromPixels(entries);
+  return boxes.filter(box => box.w > 0 && box.h > 0 && box.x >= 0 && box.y >= 0 && box.x + box.w <= 1.0001 && box.y + box.h <= 1.0001);
+}
+
+function fromPixels(entries: any[]): OcrBox[] {
+  const rects = entries
+    .filter(entry => entry && entry.left !== undefined && entry.top !== undefined)
+    .map(entry => ({
+      level: entry.level !== undefined ? Number(entry.level) : TESSERACT_WORD_LEVEL,
+      text: String(entry.text ?? '').trim(),
+      left: Number(entry.left),
+      top: Number(entry.top),
+      width: Number(entry.width),
+      height: Number(entry.height)
+    }))
+    .filter(rect => [rect.left, rect.top, rect.width, rect.height].every(Number.isFinite));
+
+  const words = rects.filter(rect => rect.level === TESSERACT_WORD_LEVEL && rect.text.length > 0);
+  const page = rects.find(rect => rect.level === TESSERACT_PAGE_LEVEL);
+  const frameWidth = page?.width || Math.max(0, ...words.map(word => word.left + word.width));
+  const frameHeight = page?.height || Math.max(0, ...words.map(word => word.top + word.height));
+  if (frameWidth <= 0 || frameHeight <= 0) {
+    return [];
+  }
+
+  return words.map(word => toBox(
+    word.text,
+    word.left / frameWidth,
+    word.top / frameHeight,
+    word.width / frameWidth,
+    word.height / frameHeight
+  ));
+}
+
+function fromNormalized(entries: any[]): OcrBox[] {
+  return entries
+    .filter(entry => entry?.bounding_box && String(entry.text ?? '').trim().length > 0)
+    .map(entry => {
+      const { x, y, width, height } = entry.bounding_box;
+      // Flip to a top-left origin like the pixel layout
+      return toBox(String(entry.text).trim(), Number(x), 1 - Number(y) - Number(height), Number(width), Number(height));
+    })
+    .filter(box => [box.x, box.y, box.w, box.h].every(Number.isFinite));
+}
+
+function toBox(text: string, x: number, y: number, w: number, h: number): OcrBox {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return { text, x: round(x), y: round(y), w: round(w), h: round(h) };
+}
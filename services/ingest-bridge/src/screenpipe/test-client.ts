@@ -169,7 +169,7 @@ class ScreenpipeClientTester {
     const startTime = Date.now();
     const testDuration = 10000; // 10 seconds
     
-    const pollIterator = this.client.pollEvents(2000); // Poll every 2 seconds
+    const pollIterator = this.client.pollEvents({ pollIntervalMs: 2000 }); // Poll every 2 seconds
     
     // Create a timeout promise
     const timeoutPromise = new Promise<void>((resolve) => {
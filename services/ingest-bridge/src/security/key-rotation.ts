@@ -0,0 +1,107 @@
+/**
+ * Key Rotation
+ * Re-encrypts everything stored with a new key, or encrypts a store that was kept in
+ * plaintext: thumbnail files first, then the vector store (documents and metadata,
+ * then the vectors.db file), then the SQLite file. Until the last step the old key
+ * still opens the database, and files and vectors already under the new key are
+ * skipped, so an interrupted rotation is finished by running it again. Run it with
+ * the ingest bridge and search API stopped.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MemoryCipher, VectorStore, createVectorStore } from '@photographic-memory/mem-store';
+import { DatabaseManager } from '../database/manager';
+import { EmbeddingsService } from '../embeddings/service';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('key-rotation');
+
+export interface RotationReport {
+  key: string;          // Fingerprint of the new key
+  thumbnails: number;   // Files rewritten
+  vectors: number;      // Vector store entries rewritten
+  durationMs: number;
+}
+
+export class KeyRotation {
+  private thumbsDir: string;
+
+  /**
+   * @param current The key everything is encrypted with now, or null for plaintext
+   */
+  constructor(
+    private databaseManager: DatabaseManager,
+    private current: MemoryCipher | null,
+    private dataDir: string = './data'
+  ) {
+    this.thumbsDir = path.join(dataDir, 'thumbs');
+  }
+
+  async rotate(next: MemoryCipher): Promise<RotationReport> {
+    const startedAt = Date.now();
+    const keyring = next.withPrevious(this.current);
+
+    const thumbnails = this.resealFiles(this.thumbsDir, next, keyring);
+    logger.info('Thumbnails re-encrypted', { files: thumbnails, key: next.fingerprint });
+
+    const store = await this.openVectorStore(next);
+    const collections = (await this.databaseManager.listEmbeddingCollections()).map(row => row.name);
+    const embeddings = new EmbeddingsService(store, undefined, this.current);
+    const vectors = collections.length > 0 ? await embeddings.resealCollections(collections, next) : 0;
+    await store.rekey(next);
+    await store.close();
+
+    await this.databaseManager.rekey(next);
+
+    const report = { key: next.fingerprint, thumbnails, vectors, durationMs: Date.now() - startedAt };
+    logger.info('Key rotation finished', { ...report });
+    return report;
+  }
+
+  /**
+   * The vector store, opened with the current key or, when an interrupted rotation
+   * already re-encrypted it, with the new one
+   */
+  private async openVectorStore(next: MemoryCipher): Promise<VectorStore> {
+    const sqliteDir = path.join(this.dataDir, 'sqlite');
+    const store = createVectorStore(this.current, sqliteDir);
+    try {
+      await store.open();
+      return store;
+    } catch (error) {
+      const rotated = createVectorStore(next, sqliteDir);
+      await rotated.open().catch(() => { throw error; });
+      return rotated;
+    }
+  }
+
+  /**
+   * Rewrite every file under `directory` not yet encrypted with `next`. Each file is
+   * written beside the original and renamed over it, so none is ever half-written.
+   */
+  private resealFiles(directory: string, next: MemoryCipher, keyring: MemoryCipher): number {
+    if (!fs.existsSync(directory)) {
+      return 0;
+    }
+
+    let rewritten = 0;
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const filePath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        rewritten += this.resealFiles(filePath, next, keyring);
+        continue;
+      }
+      if (!entry.isFile() || entry.name.endsWith('.rotating')) continue;
+
+      const data = fs.readFileSync(filePath);
+      if (next.owns(data)) continue;
+
+      const tempPath = `${filePath}.rotating`;
+      fs.writeFileSync(tempPath, next.encryptBuffer(keyring.decryptBuffer(data)));
+      fs.renameSync(tempPath, filePath);
+      rewritten++;
+    }
+    return rewritten;
+  }
+}
@@ -0,0 +1,121 @@
+#!/usr/bin/env tsx
+
+/**
+ * Frame Dedup Test
+ * Generates a Screenpipe-style video chunk with ffmpeg (three identical frames, then a
+ * different one) and checks VideoProcessor hashes the frames decoded out of it
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FrameExtractor } from '../media/frame-extractor';
+import { FrameContext, VideoProcessor } from '../media/video-processor';
+import { logger } from '../utils/logger';
+
+const FRAME_COUNT = 4;       // Frames 0-2 are a checkerboard, frame 3 horizontal stripes
+const CHUNK_START = Date.UTC(2024, 0, 15, 10, 0, 0);
+const CHUNK_NAME = 'monitor_1_2024-01-15_10-00-00.mp4';
+
+class FrameDedupTest {
+  private workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'frame-dedup-'));
+  private videoPath = path.join(this.workDir, CHUNK_NAME);
+  private extractor = new FrameExtractor();
+  private checks = 0;
+  private failures: string[] = [];
+
+  async run(): Promise<boolean> {
+    logger.info('🧪 Testing frame dedup on a video chunk...');
+
+    try {
+      if (!(await this.extractor.isAvailable())) {
+        logger.warn('⚠️  Skipped: ffmpeg is not available (set FFMPEG_PATH if it is not on PATH)');
+        return true;
+      }
+      this.createFixture();
+      const processor = new VideoProcessor(undefined, this.extractor);
+
+      await this.check('First frame of the chunk is hashed and kept', async () => {
+        const result = await processor.processVideoFile(this.videoPath, this.frame(0));
+        if (!result.frameInfo) return 'the frame was not decoded for hashing';
+        if (!result.frame) return 'the decoded frame was not returned';
+        return result.shouldKeep ? null : 'marked as a duplicate';
+      });
+
+      await this.check('An identical later frame of the same chunk is a duplicate', async () => {
+        const result = await processor.processVideoFile(this.videoPath, this.frame(2));
+        return result.similarityResult.isDuplicate
+          ? null
+          : `distance ${result.similarityResult.distance ?? 'none'}, expected a duplicate`;
+      });
+
+      await this.check('A different frame of the same chunk is kept', async () => {
+        const result = await processor.processVideoFile(this.videoPath, this.frame(3));
+        return result.shouldKeep ? null : `distance ${result.similarityResult.distance}, expected to keep it`;
+      });
+
+      await this.check('Frame found by capture timestamp when there is no index', async () => {
+        const result = await processor.processVideoFile(this.videoPath, { ...this.frame(1), frameIndex: null, memoryId: 'frame-1-ts' });
+        return result.similarityResult.isDuplicate ? null : 'expected frame 1 to match frame 0';
+      });
+
+      await this.check('The chunk is left for Screenpipe', async () => {
+        return fs.existsSync(this.videoPath) ? null : 'the video chunk was deleted';
+      });
+    } finally {
+      fs.rmSync(this.workDir, { recursive: true, force: true });
+    }
+
+    logger.info('');
+    logger.info(`Overall: ${this.checks - this.failures.length}/${this.checks} tests passed`);
+    return this.failures.length === 0;
+  }
+
+  private frame(index: number): FrameContext {
+    return {
+      memoryId: `frame-${index}`,
+      app: 'Code',
+      windowTitle: 'app.ts',
+      timestamp: CHUNK_START + index * 1000,
+      frameIndex: index
+    };
+  }
+
+  /**
+   * One frame per second in a chunk named like Screenpipe's
+   */
+  private createFixture(): void {
+    execFileSync(process.env.FFMPEG_PATH || 'ffmpeg', [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-f', 'lavfi', '-i', `color=c=black:s=320x240:r=1:d=${FRAME_COUNT}`,
+      '-vf', "format=gray,geq=lum='if(lt(N,3),255*mod(floor(X/40)+floor(Y/60),2),255*mod(floor(Y/30),2))',format=yuv420p",
+      '-c:v', 'mpeg4', '-q:v', '2',
+      this.videoPath
+    ]);
+    logger.info(`Created ${FRAME_COUNT}-frame fixture video`, { videoPath: this.videoPath });
+  }
+
+  private async check(name: string, test: () => Promise<string | null>): Promise<void> {
+    this.checks++;
+    try {
+      const problem = await test();
+      if (problem) {
+        logger.warn(`❌ ${name}: ${problem}`);
+        this.failures.push(name);
+      } else {
+        logger.info(`✅ ${name}`);
+      }
+    } catch (error) {
+      logger.warn(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+      this.failures.push(name);
+    }
+  }
+}
+
+if (require.main === module) {
+  new FrameDedupTest().run().then(passed => {
+    console.log(passed ? '✅ Frame dedup test PASSED' : '❌ Frame dedup test FAILED');
+    process.exit(passed ? 0 : 1);
+  });
+}
@@ -0,0 +1,215 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migration Test
+ * Builds a version 0 database (the schema of the first release, with a few memories)
+ * and checks that opening it upgrades it to the latest schema without losing anything
+ */
+
+import * as sqlite3 from '@journeyapps/sqlcipher';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, SchemaMigrator } from '@photographic-memory/mem-store';
+import { DatabaseManager } from '../database/manager';
+import { logger } from '../utils/logger';
+
+// The first release's schema: no schema_version table, a narrower FTS5 index and
+// triggers that deleted from it directly
+const VERSION_0_SCHEMA = [
+  `CREATE TABLE memories (
+    id TEXT PRIMARY KEY,
+    ts INTEGER NOT NULL,
+    session_id TEXT,
+    app TEXT NOT NULL,
+    window_title TEXT,
+    url TEXT,
+    url_host TEXT,
+    media_path TEXT,
+    thumb_path TEXT,
+    ocr_text TEXT NOT NULL,
+    asr_text TEXT,
+    entities TEXT,
+    topics TEXT,
+    video_processed INTEGER DEFAULT 0,
+    video_kept INTEGER DEFAULT 1,
+    similarity_score REAL DEFAULT 0.0,
+    created_at INTEGER DEFAULT (strftime('%s', 'now'))
+  )`,
+  `CREATE VIRTUAL TABLE memories_fts USING fts5(
+    id UNINDEXED, ocr_text, window_title, app UNINDEXED, url_host UNINDEXED,
+    content='memories', content_rowid='rowid'
+  )`,
+  'CREATE INDEX idx_memories_ts ON memories(ts DESC)',
+  `CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+    INSERT INTO memories_fts(id, ocr_text, window_title, app, url_host)
+    VALUES (new.id, new.ocr_text, new.window_title, new.app, new.url_host);
+  END`,
+  `CREATE TRIGGER memories_fts_delete AFTER DELETE ON memories BEGIN
+    DELETE FROM memories_fts WHERE id = old.id;
+  END`,
+  `CREATE TRIGGER memories_fts_update AFTER UPDATE ON memories BEGIN
+    DELETE FROM memories_fts WHERE id = old.id;
+    INSERT INTO memories_fts(id, ocr_text, window_title, app, url_host)
+    VALUES (new.id, new.ocr_text, new.window_title, new.app, new.url_host);
+  END`
+];
+
+const FIXTURE_MEMORIES = [
+  { id: 'v0-invoice', ts: Date.UTC(2024, 0, 15), app: 'Chrome', ocr_text: 'Invoice 4471 due Friday', asr_text: null },
+  { id: 'v0-standup', ts: Date.UTC(2024, 0, 16), app: 'Zoom', ocr_text: 'Standup notes', asr_text: 'ship the quarterly roadmap' },
+  { id: 'v0-editor', ts: Date.UTC(2024, 0, 17), app: 'Code', ocr_text: 'function migrate() {}', asr_text: null }
+];
+
+class MigrationTest {
+  private workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  private checks = 0;
+  private failures: string[] = [];
+
+  async run(): Promise<boolean> {
+    logger.info('🧪 Testing schema migrations...');
+
+    try {
+      const dataDir = path.join(this.workDir, 'sqlite');
+      const dbPath = path.join(dataDir, 'memories.db');
+      await this.createFixture(dbPath);
+
+      const databaseManager = new DatabaseManager(dataDir, null);
+      await databaseManager.initialize();
+      await databaseManager.close();
+
+      await this.check('Version 0 is upgraded to the latest version', async () => {
+        const versions = await this.query(dbPath, 'SELECT version, name FROM schema_version ORDER BY version');
+        const expected = MIGRATIONS.map(migration => migration.version).join(',');
+        const actual = versions.map(row => row.version).join(',');
+        if (actual !== expected) return `applied ${actual || 'nothing'}, expected ${expected}`;
+        return versions[versions.length - 1].version === LATEST_SCHEMA_VERSION ? null : 'not at the latest version';
+      });
+
+      await this.check('Memories survive the upgrade', async () => {
+        const rows = await this.query(dbPath, 'SELECT id, ocr_text FROM memories ORDER BY ts');
+        const expected = FIXTURE_MEMORIES.map(memory => `${memory.id}:${memory.ocr_text}`).join('|');
+        const actual = rows.map(row => `${row.id}:${row.ocr_text}`).join('|');
+        return actual === expected ? null : `got ${actual}`;
+      });
+
+      await this.check('Columns added since version 0 exist', async () => {
+        const columns = (await this.query(dbPath, 'PRAGMA table_info(memories)')).map(row => row.name);
+        const missing = ['ui_text', 'renditions', 'ocr_boxes', 'open_count'].filter(column => !columns.includes(column));
+        return missing.length === 0 ? null : `missing ${missing.join(', ')}`;
+      });
+
+      await this.check('FTS5 index is rebuilt with the transcript column', async () => {
+        const rows = await this.query(dbPath, "SELECT id FROM memories_fts WHERE memories_fts MATCH 'roadmap'");
+        return rows.length === 1 && rows[0].id === 'v0-standup' ? null : `matched ${JSON.stringify(rows)}`;
+      });
+
+      await this.check('FTS5 index matches the memories table', async () => {
+        const checker = new DatabaseManager(dataDir, null);
+        await checker.initialize();
+        try {
+          const report = await checker.verifyFtsIndex();
+          return report.consistent ? null : `index out of sync: ${JSON.stringify(report)}`;
+        } finally {
+          await checker.close();
+        }
+      });
+
+      await this.check('A backup of the version 0 database is kept', async () => {
+        const backupDir = path.join(dataDir, 'backups');
+        const backups = fs.existsSync(backupDir) ? fs.readdirSync(backupDir) : [];
+        if (backups.length !== 1 || !backups[0].startsWith('memories-v0-')) return `backups: ${backups.join(', ') || 'none'}`;
+        const tables = await this.query(path.join(backupDir, backups[0]), "SELECT name FROM sqlite_master WHERE name = 'schema_version'");
+        return tables.length === 0 ? null : 'the backup was taken after migrating';
+      });
+
+      await this.check('Reopening an up-to-date database changes nothing', async () => {
+        const reopened = new DatabaseManager(dataDir, null);
+        await reopened.initialize();
+        await reopened.close();
+        const backups = fs.readdirSync(path.join(dataDir, 'backups'));
+        const versions = await this.query(dbPath, 'SELECT version FROM schema_version');
+        return backups.length === 1 && versions.length === MIGRATIONS.length ? null : 'migrated or backed up again';
+      });
+
+      await this.check('A failing migration is rolled back', async () => {
+        const failing = [...MIGRATIONS, {
+          version: LATEST_SCHEMA_VERSION + 1,
+          name: 'broken',
+          up: async (db: { run(sql: string): Promise<void> }) => {
+            await db.run('ALTER TABLE memories ADD COLUMN half_applied TEXT');
+            await db.run('SELECT * FROM no_such_table');
+          }
+        }];
+        const error = await this.withDatabase(dbPath, db => new SchemaMigrator(db, dbPath, failing).migrate())
+          .then(() => null, (err: Error) => err.message);
+        if (!error?.includes('broken')) return `expected the migration to fail, got ${error}`;
+        const columns = (await this.query(dbPath, 'PRAGMA table_info(memories)')).map(row => row.name);
+        return columns.includes('half_applied') ? 'the failed migration left a column behind' : null;
+      });
+
+      await this.check('A database from a newer build is refused', async () => {
+        await this.query(dbPath, 'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)', [LATEST_SCHEMA_VERSION + 5, 'future', Date.now()]);
+        const error = await this.withDatabase(dbPath, db => new SchemaMigrator(db, dbPath).migrate())
+          .then(() => null, (err: Error) => err.message);
+        return error?.includes('newer than this build') ? null : `expected a refusal, got ${error}`;
+      });
+    } finally {
+      fs.rmSync(this.workDir, { recursive: true, force: true });
+    }
+
+    logger.info('');
+    logger.info(`Overall: ${this.checks - this.failures.length}/${this.checks} tests passed`);
+    return this.failures.length === 0;
+  }
+
+  private async createFixture(dbPath: string): Promise<void> {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    for (const sql of VERSION_0_SCHEMA) {
+      await this.query(dbPath, sql);
+    }
+    for (const memory of FIXTURE_MEMORIES) {
+      await this.query(dbPath, 'INSERT INTO memories (id, ts, app, ocr_text, asr_text) VALUES (?, ?, ?, ?, ?)',
+        [memory.id, memory.ts, memory.app, memory.ocr_text, memory.asr_text]);
+    }
+    logger.info('Created version 0 fixture database', { dbPath, memories: FIXTURE_MEMORIES.length });
+  }
+
+  private async withDatabase<T>(dbPath: string, fn: (db: sqlite3.Database) => Promise<T>): Promise<T> {
+    const db = new sqlite3.Database(dbPath);
+    try {
+      return await fn(db);
+    } finally {
+      await new Promise<void>(resolve => db.close(() => resolve()));
+    }
+  }
+
+  private query(dbPath: string, sql: string, params: any[] = []): Promise<any[]> {
+    return this.withDatabase(dbPath, db => new Promise((resolve, reject) => {
+      db.all(sql, params, (err, rows: any[]) => (err ? reject(err) : resolve(rows)));
+    }));
+  }
+
+  private async check(name: string, test: () => Promise<string | null>): Promise<void> {
+    this.checks++;
+    try {
+      const problem = await test();
+      if (problem) {
+        logger.warn(`❌ ${name}: ${problem}`);
+        this.failures.push(name);
+      } else {
+        logger.info(`✅ ${name}`);
+      }
+    } catch (error) {
+      logger.warn(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+      this.failures.push(name);
+    }
+  }
+}
+
+if (require.main === module) {
+  new MigrationTest().run().then(passed => {
+    console.log(passed ? '✅ Migration test PASSED' : '❌ Migration test FAILED');
+    process.exit(passed ? 0 : 1);
+  });
+}
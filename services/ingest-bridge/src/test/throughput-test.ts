@@ -7,7 +7,7 @@
  * - Process ≥3,000 rows/hour sustained throughput
  * - Handle ≥200 rows/minute peak processing
  * - SQLite FTS5 index responds to queries <50ms
- * - Chroma vector insertion completes <100ms per document
+ * - Vector insertion completes <100ms per document
  * - Thumbnail generation <200ms per image
  * - Memory usage stable under 200MB for service
  */
@@ -20,6 +20,7 @@ import { ScreenpipeClient } from '../screenpipe/client';
 import { logger } from '../utils/logger';
 import * as fs from 'fs';
 import * as path from 'path';
+import { MemoryCipher, createVectorStore } from '@photographic-memory/mem-store';
 
 interface TestResults {
   throughputTest: {
@@ -30,7 +31,7 @@ interface TestResults {
   };
   performanceTest: {
     sqliteQueryTimeMs: number;
-    chromaInsertTimeMs: number;
+    vectorInsertTimeMs: number;
     thumbnailGenerationTimeMs: number;
     success: boolean;
   };
@@ -105,7 +106,7 @@ class ThroughputTester {
     logger.info('Starting throughput test...');
     
     const databaseManager = new DatabaseManager(path.join(this.testDataDir, 'sqlite'));
-    const embeddingsService = new EmbeddingsService(path.join(this.testDataDir, 'chroma'));
+    const embeddingsService = new EmbeddingsService(createVectorStore(MemoryCipher.load(), path.join(this.testDataDir, 'sqlite')));
     
     await databaseManager.initialize();
     await embeddingsService.initialize();
@@ -120,14 +121,20 @@ class ThroughputTester {
     let processedCount = 0;
     const processingTimes: number[] = [];
 
-    for (const event of testEvents) {
-      const eventStartTime = Date.now();
+    // Process in micro-batches like the ingest loop: one embedding request and
+    // one write per store for each batch
+    const batchSize = parseInt(process.env.INGEST_BATCH_SIZE || '32');
+    for (let offset = 0; offset < testEvents.length; offset += batchSize) {
+      const batch = testEvents.slice(offset, offset + batchSize);
+      const batchStartTime = Date.now();
       
       try {
         // Simulate the full processing pipeline
-        const embedding = await embeddingsService.generateEmbedding(event.ocr_text);
+        const embeddings = await embeddingsService.generateEmbeddingsBatch(
+          batch.map(event => event.ocr_text)
+        );
         
-        const memoryObject = {
+        const memoryObjects = batch.map((event, i) => ({
           id: event.id,
           ts: event.timestamp,
           app: event.app,
@@ -140,24 +147,23 @@ class ThroughputTester {
           asr_text: null,
           entities: [],
           topics: [],
-          embedding,
+          embedding: embeddings[i],
           video_processed: false,
           video_kept: true,
           similarity_score: 0.0
-        };
+        }));
 
-        await databaseManager.storeMemoryObject(memoryObject);
-        await embeddingsService.storeEmbedding(memoryObject);
+        await databaseManager.storeMemoryObjects(memoryObjects);
+        await embeddingsService.storeEmbeddings(memoryObjects);
         
-        processedCount++;
-        const eventTime = Date.now() - eventStartTime;
-        processingTimes.push(eventTime);
+        processedCount += batch.length;
+        // Per-row time is the batch time spread over its rows
+        const batchTime = Date.now() - batchStartTime;
+        processingTimes.push(...batch.map(() => batchTime / batch.length));
         
-        if (processedCount % 10 === 0) {
-          logger.info(`Processed ${processedCount}/${testEvents.length} events`);
-        }
+        logger.info(`Processed ${processedCount}/${testEvents.length} events`);
       } catch (error) {
-        logger.error(`Failed to process event ${event.id}:`, error);
+        logger.error(`Failed to process batch at offset ${offset}:`, error);
       }
     }
 
@@ -180,7 +186,7 @@ class ThroughputTester {
     logger.info('Starting performance test...');
     
     const databaseManager = new DatabaseManager(path.join(this.testDataDir, 'sqlite'));
-    const embeddingsService = new EmbeddingsService(path.join(this.testDataDir, 'chroma'));
+    const embeddingsService = new EmbeddingsService(createVectorStore(MemoryCipher.load(), path.join(this.testDataDir, 'sqlite')));
     const thumbnailGenerator = new ThumbnailGenerator(this.testDataDir);
     
     await databaseManager.initialize();
@@ -196,9 +202,9 @@ class ThroughputTester {
     }
     const sqliteQueryTime = Date.now() - sqliteStartTime;
 
-    // Test Chroma vector insertion performance
-    logger.info('Testing Chroma vector insertion performance...');
-    const chromaStartTime = Date.now();
+    // Test vector insertion performance
+    logger.info('Testing vector insertion performance...');
+    const vectorStartTime = Date.now();
     const testEmbedding = await embeddingsService.generateEmbedding('test text for performance');
     const testMemoryObject = {
       id: 'perf_test_1',
@@ -219,7 +225,7 @@ class ThroughputTester {
       similarity_score: 0.0
     };
     await embeddingsService.storeEmbedding(testMemoryObject);
-    const chromaInsertTime = Date.now() - chromaStartTime;
+    const vectorInsertTime = Date.now() - vectorStartTime;
 
     // Test thumbnail generation performance
     logger.info('Testing thumbnail generation performance...');
@@ -230,9 +236,9 @@ class ThroughputTester {
 
     this.testResults.performanceTest = {
       sqliteQueryTimeMs: sqliteQueryTime,
-      chromaInsertTimeMs: chromaInsertTime,
+      vectorInsertTimeMs: vectorInsertTime,
       thumbnailGenerationTimeMs: thumbnailTime,
-      success: sqliteQueryTime < 50 && chromaInsertTime < 100 && thumbnailTime < 200
+      success: sqliteQueryTime < 50 && vectorInsertTime < 100 && thumbnailTime < 200
     };
 
     logger.info('Performance test results:', this.testResults.performanceTest);
@@ -245,7 +251,7 @@ class ThroughputTester {
     let peakMemory = initialMemory;
 
     const databaseManager = new DatabaseManager(path.join(this.testDataDir, 'sqlite'));
-    const embeddingsService = new EmbeddingsService(path.join(this.testDataDir, 'chroma'));
+    const embeddingsService = new EmbeddingsService(createVectorStore(MemoryCipher.load(), path.join(this.testDataDir, 'sqlite')));
     
     await databaseManager.initialize();
     await embeddingsService.initialize();
@@ -377,7 +383,7 @@ if (require.main === module) {
       
       console.log('⚡ Performance Test:');
       console.log(`  SQLite query time: ${results.performanceTest.sqliteQueryTimeMs}ms (target: <50ms)`);
-      console.log(`  Chroma insert time: ${results.performanceTest.chromaInsertTimeMs}ms (target: <100ms)`);
+      console.log(`  Vector insert time: ${results.performanceTest.vectorInsertTimeMs}ms (target: <100ms)`);
       console.log(`  Thumbnail generation: ${results.performanceTest.thumbnailGenerationTimeMs}ms (target: <200ms)`);
       console.log(`  Status: ${results.performanceTest.success ? '✅ PASS' : '❌ FAIL'}\n`);
       
@@ -0,0 +1,237 @@
+#!/usr/bin/env tsx
+
+/**
+ * Transaction Test
+ * Makes multi-statement SQLite writes fail partway through and checks they leave
+ * nothing behind
+ */
+
+import * as sqlite3 from '@journeyapps/sqlcipher';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseManager, SessionRow } from '../database/manager';
+import { MemoryPurger } from '../database/memory-purger';
+import { EmbeddingsService } from '../embeddings/service';
+import { MemoryObjectWithEmbedding } from '../types/memory';
+import { logger } from '../utils/logger';
+
+const BASE_TS = Date.UTC(2024, 5, 1, 9);
+
+function memory(index: number, overrides: Partial<MemoryObjectWithEmbedding> = {}): MemoryObjectWithEmbedding {
+  return {
+    id: `mem-${index}`,
+    ts: BASE_TS + index * 1000,
+    session_id: 'ses-a',
+    app: 'Safari',
+    window_title: 'Quarterly plan',
+    ocr_text: `roadmap item ${index}`,
+    entities: [`person:Alex ${index}`],
+    video_processed: false,
+    video_kept: true,
+    similarity_score: 0,
+    ...overrides
+  };
+}
+
+function session(overrides: Partial<SessionRow> = {}): SessionRow {
+  return {
+    id: 'ses-a',
+    start_ts: BASE_TS,
+    end_ts: BASE_TS + 1000,
+    app: 'Safari',
+    url_host: null,
+    title: 'Quarterly plan',
+    memory_count: 0,
+    ...overrides
+  };
+}
+
+class TransactionTest {
+  private workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transactions-'));
+  private dataDir = path.join(this.workDir, 'sqlite');
+  private dbPath = path.join(this.dataDir, 'memories.db');
+  private checks = 0;
+  private failures: string[] = [];
+
+  async run(): Promise<boolean> {
+    logger.info('🧪 Testing SQLite transactions...');
+
+    const databaseManager = new DatabaseManager(this.dataDir, null);
+    await databaseManager.initialize();
+    try {
+      await this.check('A session that fails to save rolls back its memories', async () => {
+        const error = await databaseManager
+          .storeMemoryObjects([memory(1), memory(2)], [session({ app: null as any })])
+          .then(() => null, (err: Error) => err.message);
+        if (!error) return 'the store succeeded';
+        return this.expectEmpty();
+      });
+
+      await this.check('A failing second chunk rolls back the first', async () => {
+        // 500 rows per INSERT: the first chunk is written before the bad row is reached
+        const memories = Array.from({ length: 600 }, (_, i) => memory(i));
+        memories[550] = memory(550, { ocr_text: null as any });
+        const error = await databaseManager
+          .storeMemoryObjects(memories, [session()])
+          .then(() => null, (err: Error) => err.message);
+        if (!error) return 'the store succeeded';
+        return this.expectEmpty();
+      });
+
+      await this.check('A retried batch is stored once, with its session', async () => {
+        await databaseManager.storeMemoryObjects([memory(1), memory(2)], [session()]);
+        await databaseManager.storeMemoryObjects([memory(1), memory(2)], [session()]);
+        const [counts] = await this.query(`
+          SELECT
+            (SELECT COUNT(*) FROM memories) AS memories,
+            (SELECT COUNT(*) FROM memory_entities) AS entities,
+            (SELECT memory_count FROM sessions WHERE id = 'ses-a') AS session_count
+        `);
+        return counts.memories === 2 && counts.entities === 2 && counts.session_count === 2
+          ? null
+          : `got ${JSON.stringify(counts)}`;
+      });
+
+      await this.check('A delete that fails at its sessions keeps the memories whole', async () => {
+        // Runs after the memories, FTS rows and entities are already deleted
+        await this.query(`
+          CREATE TRIGGER fail_session_update BEFORE UPDATE ON sessions
+          BEGIN SELECT RAISE(ABORT, 'injected failure'); END
+        `);
+        const error = await databaseManager
+          .deleteMemories(['mem-1', 'mem-2'])
+          .then(() => null, (err: Error) => err.message);
+        await this.query('DROP TRIGGER fail_session_update');
+        if (!error) return 'the delete succeeded';
+
+        const [counts] = await this.query(`
+          SELECT
+            (SELECT COUNT(*) FROM memories) AS memories,
+            (SELECT COUNT(*) FROM memories_fts WHERE memories_fts MATCH 'roadmap') AS fts,
+            (SELECT COUNT(*) FROM memory_entities) AS entities,
+            (SELECT memory_count FROM sessions WHERE id = 'ses-a') AS session_count
+        `);
+        if (counts.memories !== 2 || counts.fts !== 2 || counts.entities !== 2 || counts.session_count !== 2) {
+          return `half deleted: ${JSON.stringify(counts)}`;
+        }
+
+        await databaseManager.deleteMemories(['mem-1', 'mem-2']);
+        return this.expectEmpty();
+      });
+
+      await this.check('A purge whose vector store fails leaves the vector deletion recorded', async () => {
+        await this.query('DELETE FROM pending_deletions'); // Left by the deletes above
+        const thumbPath = path.join(this.workDir, 'thumbs', 'mem-3', 'thumb.jpg');
+        fs.mkdirSync(path.dirname(thumbPath), { recursive: true });
+        fs.writeFileSync(thumbPath, 'jpeg');
+        await databaseManager.storeMemoryObjects([memory(3, { thumb_path: thumbPath })], [session()]);
+
+        let storeUp = false;
+        const deletedVectors: string[] = [];
+        const embeddingsService = {
+          deleteEmbeddings: async (ids: string[]) => {
+            if (!storeUp) throw new Error('vector store unreachable');
+            deletedVectors.push(...ids);
+          }
+        } as unknown as EmbeddingsService;
+        const purger = new MemoryPurger(databaseManager, embeddingsService);
+
+        const result = await purger.purge(['mem-3']);
+        const pending = await this.query('SELECT kind, target FROM pending_deletions');
+        if (result.memories !== 1 || result.thumbnails !== 1 || fs.existsSync(thumbPath)) {
+          return `purge reported ${JSON.stringify(result)}, thumbnail ${fs.existsSync(thumbPath) ? 'kept' : 'deleted'}`;
+        }
+        if (pending.length !== 1 || pending[0].kind !== 'vector' || pending[0].target !== 'mem-3') {
+          return `pending after the failure: ${JSON.stringify(pending)}`;
+        }
+
+        storeUp = true;
+        await purger.processPendingDeletions();
+        const [left] = await this.query('SELECT COUNT(*) AS count FROM pending_deletions');
+        return deletedVectors.join(',') === 'mem-3' && left.count === 0
+          ? null
+          : `retry deleted ${JSON.stringify(deletedVectors)}, ${left.count} still pending`;
+      });
+
+      await this.check('A retried stale memory keeps the dwell and duplicates recorded since', async () => {
+        await databaseManager.storeMemoryObjects([memory(5)], [session()]);
+        await this.query(`UPDATE memories SET last_seen_ts = ?, duplicate_count = 4 WHERE id = 'mem-5'`, [BASE_TS + 60000]);
+        await databaseManager.storeMemoryObjects([memory(5, { last_seen_ts: BASE_TS + 5000, duplicate_count: 1 })], [session()]);
+        const [row] = await this.query(`SELECT last_seen_ts, duplicate_count FROM memories WHERE id = 'mem-5'`);
+        return row.last_seen_ts === BASE_TS + 60000 && row.duplicate_count === 4
+          ? null
+          : `got ${JSON.stringify(row)}`;
+      });
+
+      await this.check('A write made while a transaction is open is not rolled back with it', async () => {
+        let began!: () => void;
+        const open = new Promise<void>(resolve => { began = resolve; });
+        const failing = databaseManager.transaction(async () => {
+          began();
+          await new Promise(resolve => setTimeout(resolve, 50));
+          throw new Error('injected failure');
+        }).then(() => null, (err: Error) => err.message);
+
+        await open;
+        await databaseManager.saveIngestCursor('audio', { lastTimestamp: BASE_TS, lastFrameId: 'audio-1' });
+        if (!(await failing)) return 'the transaction succeeded';
+
+        const cursor = await databaseManager.getIngestCursor('audio');
+        return cursor?.lastFrameId === 'audio-1' ? null : `cursor after the rollback: ${JSON.stringify(cursor)}`;
+      });
+    } finally {
+      await databaseManager.close();
+      fs.rmSync(this.workDir, { recursive: true, force: true });
+    }
+
+    logger.info('');
+    logger.info(`Overall: ${this.checks - this.failures.length}/${this.checks} tests passed`);
+    return this.failures.length === 0;
+  }
+
+  /**
+   * Nothing of a failed write may be left: no memories, index entries, entities or sessions
+   */
+  private async expectEmpty(): Promise<string | null> {
+    const [counts] = await this.query(`
+      SELECT
+        (SELECT COUNT(*) FROM memories) AS memories,
+        (SELECT COUNT(*) FROM memories_fts WHERE memories_fts MATCH 'roadmap') AS fts,
+        (SELECT COUNT(*) FROM memory_entities) AS entities,
+        (SELECT COUNT(*) FROM sessions) AS sessions
+    `);
+    const left = Object.entries(counts).filter(([, count]) => count !== 0);
+    return left.length === 0 ? null : `left behind ${JSON.stringify(Object.fromEntries(left))}`;
+  }
+
+  private query(sql: string, params: any[] = []): Promise<any[]> {
+    const db = new sqlite3.Database(this.dbPath);
+    return new Promise<any[]>((resolve, reject) => {
+      db.all(sql, params, (err, rows: any[]) => (err ? reject(err) : resolve(rows)));
+    }).finally(() => new Promise<void>(resolve => db.close(() => resolve())));
+  }
+
+  private async check(name: string, test: () => Promise<string | null>): Promise<void> {
+    this.checks++;
+    try {
+      const problem = await test();
+      if (problem) {
+        logger.warn(`❌ ${name}: ${problem}`);
+        this.failures.push(name);
+      } else {
+        logger.info(`✅ ${name}`);
+      }
+    } catch (error) {
+      logger.warn(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+      this.failures.push(name);
+    }
+  }
+}
+
+if (require.main === module) {
+  new TransactionTest().run().then(passed => {
+    console.log(passed ? '✅ Transaction test PASSED' : '❌ Transaction test FAILED');
+    process.exit(passed ? 0 : 1);
+  });
+}
@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+
+/**
+ * Video Thumbnail Test
+ * Generates a small Screenpipe-style video chunk with ffmpeg (each frame a different
+ * shade of red) and checks that thumbnails and renditions come from the requested frame
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { FrameExtractor } from '../media/frame-extractor';
+import { ThumbnailGenerator } from '../media/thumbnails';
+import { logger } from '../utils/logger';
+
+const FRAME_COUNT = 5;
+const RED_STEP = 50;         // Frame N is rgb(N * 50, 0, 0)
+const COLOR_TOLERANCE = 20;  // Lossy encoding shifts colors a little
+const CHUNK_START = Date.UTC(2024, 0, 15, 10, 0, 0);
+const CHUNK_NAME = 'monitor_1_2024-01-15_10-00-00.mp4';
+
+class VideoThumbnailTest {
+  private workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'video-thumbnails-'));
+  private videoPath = path.join(this.workDir, CHUNK_NAME);
+  private extractor = new FrameExtractor();
+  private thumbnails = new ThumbnailGenerator(this.workDir);
+  private checks = 0;
+  private failures: string[] = [];
+
+  async run(): Promise<boolean> {
+    logger.info('🧪 Testing video frame extraction...');
+
+    try {
+      if (!(await this.extractor.isAvailable())) {
+        logger.warn('⚠️  Skipped: ffmpeg is not available (set FFMPEG_PATH if it is not on PATH)');
+        return true;
+      }
+      this.createFixture();
+
+      await this.check('Frame by index', async () => {
+        const frame = await this.extractor.extractFrame(this.videoPath, { frameIndex: 3 });
+        return this.expectRed(frame, 3 * RED_STEP);
+      });
+
+      await this.check('Frame by capture timestamp', async () => {
+        const frame = await this.extractor.extractFrame(this.videoPath, { timestamp: CHUNK_START + 2000 });
+        return this.expectRed(frame, 2 * RED_STEP);
+      });
+
+      await this.check('Thumbnail from the captured frame', async () => {
+        const thumbPath = await this.thumbnails.generateThumbnail(this.videoPath, 'frame-4', { frameIndex: 4 });
+        if (!thumbPath) return 'no thumbnail generated';
+        const { width, height } = await sharp(thumbPath).metadata();
+        if (width !== 300 || height !== 200) return `thumbnail is ${width}x${height}`;
+        return this.expectRed(fs.readFileSync(thumbPath), 4 * RED_STEP);
+      });
+
+      await this.check('Renditions keep the frame\'s aspect ratio', async () => {
+        const manifest = await this.thumbnails.generateRenditions(this.videoPath, 'frame-2', { frameIndex: 2 });
+        if (!manifest?.medium || !manifest.full) return 'missing medium or full rendition';
+        for (const name of ['medium', 'full']) {
+          const { width, height } = await sharp(manifest[name].path).metadata();
+          if (width !== 320 || height !== 240) return `${name} is ${width}x${height}`;
+        }
+        return this.expectRed(fs.readFileSync(manifest.full.path), 2 * RED_STEP);
+      });
+
+      await this.check('Renditions from a decoded frame once the chunk is gone', async () => {
+        const chunkCopy = path.join(this.workDir, 'copy', CHUNK_NAME);
+        fs.mkdirSync(path.dirname(chunkCopy), { recursive: true });
+        fs.copyFileSync(this.videoPath, chunkCopy);
+        const decoded = await this.extractor.extractFrame(chunkCopy, { frameIndex: 1 });
+        fs.rmSync(chunkCopy);
+
+        const manifest = await this.thumbnails.generateRenditions(chunkCopy, 'frame-1', { frameIndex: 1 }, decoded);
+        if (!manifest?.full) return 'no renditions generated';
+        return this.expectRed(fs.readFileSync(manifest.full.path), RED_STEP);
+      });
+
+      await this.check('Placeholder for a frame past the end', async () => {
+        const thumbPath = await this.thumbnails.generateThumbnail(this.videoPath, 'frame-99', { frameIndex: 99 });
+        if (!thumbPath) return 'no thumbnail generated';
+        const { channels } = await sharp(thumbPath).stats();
+        return channels[0].mean > 200 && channels[2].mean > 200 ? null : 'expected the grey placeholder';
+      });
+    } finally {
+      fs.rmSync(this.workDir, { recursive: true, force: true });
+    }
+
+    logger.info('');
+    logger.info(`Overall: ${this.checks - this.failures.length}/${this.checks} tests passed`);
+    return this.failures.length === 0;
+  }
+
+  /**
+   * One frame per second, each a solid shade of red, in a chunk named like Screenpipe's
+   */
+  private createFixture(): void {
+    execFileSync(process.env.FFMPEG_PATH || 'ffmpeg', [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-f', 'lavfi', '-i', `color=c=black:s=320x240:r=1:d=${FRAME_COUNT}`,
+      '-vf', `format=gbrp,geq=r='N*${RED_STEP}':g=0:b=0,format=yuv420p`,
+      '-c:v', 'mpeg4', '-q:v', '2',
+      this.videoPath
+    ]);
+    logger.info(`Created ${FRAME_COUNT}-frame fixture video`, { videoPath: this.videoPath });
+  }
+
+  private async expectRed(image: Buffer, expected: number): Promise<string | null> {
+    const { channels } = await sharp(image).stats();
+    const [red, green, blue] = channels.map(channel => channel.mean);
+    return Math.abs(red - expected) <= COLOR_TOLERANCE && green <= COLOR_TOLERANCE && blue <= COLOR_TOLERANCE
+      ? null
+      : `expected red ≈ ${expected}, got rgb(${red.toFixed(0)}, ${green.toFixed(0)}, ${blue.toFixed(0)})`;
+  }
+
+  private async check(name: string, test: () => Promise<string | null>): Promise<void> {
+    this.checks++;
+    try {
+      const problem = await test();
+      if (problem) {
+        logger.warn(`❌ ${name}: ${problem}`);
+        this.failures.push(name);
+      } else {
+        logger.info(`✅ ${name}`);
+      }
+    } catch (error) {
+      logger.warn(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+      this.failures.push(name);
+    }
+  }
+}
+
+if (require.main === module) {
+  new VideoThumbnailTest().run().then(passed => {
+    console.log(passed ? '✅ Video thumbnail test PASSED' : '❌ Video thumbnail test FAILED');
+    process.exit(passed ? 0 : 1);
+  });
+}
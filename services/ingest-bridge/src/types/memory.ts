@@ -12,13 +12,58 @@ export interface MemoryObject {
   url?: string | null;
   url_host?: string | null;      // "amazon.com", "youtube.com"
   media_path?: string | null;    // file://… (frame) or video segment ref
-  thumb_path?: string | null;    // cached thumbnail
+  thumb_path?: string | null;    // cached thumbnail (the card rendition)
+  renditions?: RenditionManifest | null; // every size made of the captured frame
   ocr_text: string;              // extracted via Screenpipe OCR
+  ocr_boxes?: OcrBox[] | null;   // where the OCR words are on the frame
   asr_text?: string | null;      // optional audio transcript
+  ui_text?: string | null;       // accessibility-tree text of the same window (exact, unlike OCR)
+  text_source?: TextSource;      // where the memory's primary (indexed/embedded) text came from
+  linked_memory_id?: string | null; // audio memories: the screen memory captured at the same time
   entities?: string[];           // optional
   topics?: string[];             // optional
+  redactions?: RedactionCounts;  // secrets replaced with placeholders before storage
+  last_seen_ts?: number | null;  // latest near-duplicate capture folded into this memory
+  duplicate_count?: number;      // near-duplicate captures folded into this memory
+  text_simhash?: string | null;  // SimHash of the normalized primary text (16 hex chars)
+  open_count?: number;           // times opened from search (recorded by search-api)
 }
 
+/**
+ * Number of values redacted from a memory, by type (e.g. { credit_card: 1 })
+ */
+export type RedactionCounts = { [type: string]: number };
+
+/**
+ * A word (or line, depending on the OCR engine) on the frame, in fractions of the
+ * frame's width and height from its top left corner
+ */
+export interface OcrBox {
+  text: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Image files made of a memory's frame, by rendition name (e.g. { small, medium, full })
+ */
+export type RenditionManifest = { [name: string]: RenditionInfo };
+
+export interface RenditionInfo {
+  path: string;
+  width: number;
+  height: number;
+  format: string;  // "jpeg", "webp", "avif", "png"
+  bytes: number;
+}
+
+/**
+ * Origin of a memory's primary text: UI tree, OCR, or speech (audio memories)
+ */
+export type TextSource = 'ui' | 'ocr' | 'asr';
+
 /**
  * Extended memory object for database storage with embeddings
  */
@@ -29,6 +74,12 @@ export interface MemoryObjectWithEmbedding extends MemoryObject {
   similarity_score?: number;     // Similarity score from video processing
 }
 
+/**
+ * Ingest pipeline stages, in the order an event passes through them
+ * ('transcript' is the single stage audio events go through)
+ */
+export type IngestStage = 'video' | 'embedding' | 'thumbnail' | 'store_sqlite' | 'store_vector' | 'transcript';
+
 /**
  * Screenpipe event interface - raw input from capture
  */
@@ -1,3 +1,4 @@
+import { useLogger } from '@photographic-memory/mem-store';
 import winston from 'winston';
 
 export const logger = winston.createLogger({
@@ -26,3 +27,6 @@ if (process.env.NODE_ENV !== 'production') {
 export function createLogger(module: string): winston.Logger {
   return logger.child({ module });
 }
+
+// The shared storage modules (migrations, vector store) log as modules of this service
+useLogger(createLogger);
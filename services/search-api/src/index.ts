@@ -3,7 +3,8 @@
  * Hybrid retrieval + RAG endpoints
  */
 
-import Fastify from 'fastify';
+import Fastify, { FastifyReply, FastifyRequest } from 'fastify';
+import fs from 'fs';
 import { SearchService } from './services/search';
 import { AnswerService } from './services/answer';
 import { logger } from './utils/logger';
@@ -11,6 +12,19 @@ import { z } from 'zod';
 
 const server = Fastify({ logger: false });
 
+// Rendition names as configured in ingest-bridge (small, medium, full by default)
+const RenditionSchema = z.string().regex(/^[a-z0-9_-]+$/, 'Invalid rendition name');
+
+// Match crops are named by a hash of the matched terms (see match-crops.ts)
+const MATCH_THUMB_FILE = /^match-[0-9a-f]{12}\.jpg$/;
+
+const RENDITION_CONTENT_TYPES: { [format: string]: string } = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  png: 'image/png'
+};
+
 // Request validation schemas
 const SearchRequestSchema = z.object({
   q: z.string().min(1, 'Query cannot be empty'),
@@ -18,7 +32,12 @@ const SearchRequestSchema = z.object({
   to: z.string().optional(),
   app: z.string().optional(),
   host: z.string().optional(),
-  k: z.coerce.number().int().min(1).max(20).optional()
+  k: z.coerce.number().int().min(1).max(20).optional(),
+  modality: z.enum(['all', 'screen', 'audio']).optional(),
+  collapse: z.enum(['none', 'session']).optional(),
+  entity: z.string().min(1).optional(),
+  topic: z.string().min(1).optional(),
+  rendition: RenditionSchema.optional()
 });
 
 const AnswerRequestSchema = z.object({
@@ -27,7 +46,25 @@ const AnswerRequestSchema = z.object({
 });
 
 const RecentRequestSchema = z.object({
-  limit: z.coerce.number().int().min(1).max(50).optional()
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  rendition: RenditionSchema.optional()
+});
+
+const SessionRequestSchema = z.object({
+  rendition: RenditionSchema.optional()
+});
+
+const EntitiesRequestSchema = z.object({
+  type: z.enum(['person', 'organization', 'product', 'email', 'url', 'file_path', 'order_number', 'amount']).optional(),
+  q: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
+const SessionsRequestSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  app: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional()
 });
 
 // Services
@@ -37,9 +74,13 @@ let answerService: AnswerService;
 // Health check endpoint
 server.get('/health', async (request, reply) => {
   try {
-    const stats = await searchService.getStats();
+    const [stats, consistency] = await Promise.all([
+      searchService.getStats(),
+      searchService.getConsistencyStatus()
+    ]);
     return {
-      status: 'healthy',
+      // Drift left unrepaired means searches can miss memories
+      status: consistency && !consistency.in_sync ? 'degraded' : 'healthy',
       services: {
         search: { status: 'up' },
         answer: { status: 'up' }
@@ -48,6 +89,7 @@ server.get('/health', async (request, reply) => {
         total_memories: stats.total_memories,
         unique_apps: stats.unique_apps
       },
+      consistency,
       cache: stats.cache_stats,
       timestamp: Date.now()
     };
@@ -113,7 +155,7 @@ server.get('/recent', async (request, reply) => {
     }
 
     const limit = validation.data.limit || 20;
-    const memories = await searchService.getRecentMemories(limit);
+    const memories = await searchService.getRecentMemories(limit, validation.data.rendition);
     return {
       memories,
       count: memories.length,
@@ -132,12 +174,239 @@ server.get('/recent', async (request, reply) => {
   }
 });
 
+// Entities endpoint
+server.get('/entities', async (request, reply) => {
+  try {
+    const validation = EntitiesRequestSchema.safeParse(request.query);
+    if (!validation.success) {
+      reply.status(400).send({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request parameters',
+          details: validation.error.issues
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const entities = await searchService.getEntities(validation.data);
+    return {
+      entities,
+      count: entities.length,
+      timestamp: Date.now()
+    };
+  } catch (error) {
+    logger.error('Entities error:', error);
+    reply.status(500).send({
+      error: {
+        code: 'ENTITIES_ERROR',
+        message: 'Failed to fetch entities',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: Date.now()
+    });
+  }
+});
+
+// Sessions endpoints
+server.get('/sessions', async (request, reply) => {
+  try {
+    const validation = SessionsRequestSchema.safeParse(request.query);
+    if (!validation.success) {
+      reply.status(400).send({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request parameters',
+          details: validation.error.issues
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const sessions = await searchService.getSessions(validation.data);
+    return {
+      sessions,
+      count: sessions.length,
+      timestamp: Date.now()
+    };
+  } catch (error) {
+    logger.error('Sessions error:', error);
+    reply.status(500).send({
+      error: {
+        code: 'SESSIONS_ERROR',
+        message: 'Failed to fetch sessions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: Date.now()
+    });
+  }
+});
+
+server.get('/sessions/:id', async (request, reply) => {
+  try {
+    const validation = SessionRequestSchema.safeParse(request.query);
+    if (!validation.success) {
+      reply.status(400).send({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request parameters',
+          details: validation.error.issues
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const { id } = request.params as { id: string };
+    const result = await searchService.getSession(id, validation.data.rendition);
+    if (!result) {
+      reply.status(404).send({
+        error: {
+          code: 'NOT_FOUND',
+          message: `Session ${id} not found`
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    return {
+      ...result,
+      timestamp: Date.now()
+    };
+  } catch (error) {
+    logger.error('Session error:', error);
+    reply.status(500).send({
+      error: {
+        code: 'SESSIONS_ERROR',
+        message: 'Failed to fetch session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: Date.now()
+    });
+  }
+});
+
+// Rendition image endpoint
+server.get('/memories/:id/renditions/:name', async (request, reply) => {
+  try {
+    const { id, name } = request.params as { id: string; name: string };
+    const rendition = await searchService.getRendition(id, name);
+    if (!rendition || !fs.existsSync(rendition.path)) {
+      reply.status(404).send({
+        error: {
+          code: 'NOT_FOUND',
+          message: `Rendition ${name} of memory ${id} not found`
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    reply
+      .type(RENDITION_CONTENT_TYPES[rendition.format] || 'application/octet-stream')
+      .header('Cache-Control', 'private, max-age=86400');
+    return reply.send(searchService.readImage(rendition.path));
+  } catch (error) {
+    logger.error('Rendition error:', error);
+    reply.status(500).send({
+      error: {
+        code: 'RENDITION_ERROR',
+        message: 'Failed to fetch rendition',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: Date.now()
+    });
+  }
+});
+
+// Card thumbnail and match crop endpoints (the URLs cards carry when thumbnails are encrypted)
+async function sendMemoryImage(request: FastifyRequest, reply: FastifyReply, matchThumb?: string) {
+  try {
+    const { id } = request.params as { id: string };
+    const filePath = await searchService.getImagePath(id, matchThumb);
+    if (!filePath) {
+      reply.status(404).send({
+        error: {
+          code: 'NOT_FOUND',
+          message: `Image of memory ${id} not found`
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    reply
+      .type(filePath.endsWith('.jpg') ? 'image/jpeg' : 'application/octet-stream')
+      .header('Cache-Control', 'private, max-age=86400');
+    return reply.send(searchService.readImage(filePath));
+  } catch (error) {
+    logger.error('Memory image error:', error);
+    reply.status(500).send({
+      error: {
+        code: 'IMAGE_ERROR',
+        message: 'Failed to fetch image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: Date.now()
+    });
+  }
+}
+
+server.get('/memories/:id/thumbnail', async (request, reply) => sendMemoryImage(request, reply));
+
+server.get('/memories/:id/match-thumbs/:file', async (request, reply) => {
+  const { file } = request.params as { file: string };
+  if (!MATCH_THUMB_FILE.test(file)) {
+    reply.status(400).send({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid match thumbnail name'
+      },
+      timestamp: Date.now()
+    });
+    return;
+  }
+  return sendMemoryImage(request, reply, file);
+});
+
+// Record that a memory was opened from search (counts toward keeping it under a storage quota)
+server.post('/memories/:id/open', async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    if (!await searchService.recordOpen(id)) {
+      reply.status(404).send({
+        error: {
+          code: 'NOT_FOUND',
+          message: `Memory ${id} not found`
+        },
+        timestamp: Date.now()
+      });
+      return;
+    }
+    return { id, timestamp: Date.now() };
+  } catch (error) {
+    logger.error('Open error:', error);
+    reply.status(500).send({
+      error: {
+        code: 'OPEN_ERROR',
+        message: 'Failed to record open',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: Date.now()
+    });
+  }
+});
+
 // Statistics endpoint
 server.get('/stats', async (request, reply) => {
   try {
-    const stats = await searchService.getStats();
+    const [stats, storage] = await Promise.all([searchService.getStats(), searchService.getStorageUsage()]);
     return {
       ...stats,
+      storage,
       timestamp: Date.now()
     };
   } catch (error) {
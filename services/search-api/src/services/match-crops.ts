@@ -0,0 +1,216 @@
+/**
+ * Match Crops
+ * A card's thumbnail is center-cropped, so a price or title in the corner of a large
+ * screen is cut away. Using the OCR word boxes the ingest bridge keeps, this crops the
+ * full-size frame around the words that matched the query (or the nugget), caching
+ * each crop next to the memory's renditions (encrypted like them when a key is set).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { MemoryCipher } from '@photographic-memory/mem-store';
+import { logger } from '../utils/logger';
+
+/**
+ * A word (or line) on the frame, in fractions of its width and height from the top
+ * left (set by ingest-bridge)
+ */
+export interface OcrBox {
+  text: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * The part of a frame holding the matched words, in fractions, and the terms found there
+ */
+export interface MatchRegion {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  terms: string[];
+}
+
+interface CropRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Configuration
+const MATCH_THUMB_WIDTH = parseInt(process.env.MATCH_THUMB_WIDTH || '600');
+const MATCH_THUMB_HEIGHT = parseInt(process.env.MATCH_THUMB_HEIGHT || '400');
+const NEIGHBOURHOOD_X = 0.25; // Matches this close (fractions of the frame) are cropped together
+const NEIGHBOURHOOD_Y = 0.15;
+const PADDING_PX = 24;
+const MIN_TERM_LENGTH = 3;    // Shorter terms only count when they contain a digit (e.g. "4k")
+
+export class MatchCropper {
+  private inFlight = new Map<string, Promise<string | null>>();
+
+  constructor(private cipher: MemoryCipher | null = null) {}
+
+  /**
+   * Path of a crop of `source` around the boxes matching `terms`, or null when none
+   * match. Crops are cached per memory and matched terms.
+   */
+  async getMatchThumb(
+    boxes: OcrBox[] | null,
+    source: { path: string; width: number; height: number } | null,
+    terms: string[]
+  ): Promise<string | null> {
+    if (!boxes || boxes.length === 0 || !source) {
+      return null;
+    }
+
+    const region = findMatchRegion(boxes, terms);
+    if (!region) {
+      return null;
+    }
+
+    const key = crypto.createHash('sha1')
+      .update(`${region.terms.join('\0')}\0${MATCH_THUMB_WIDTH}x${MATCH_THUMB_HEIGHT}`)
+      .digest('hex')
+      .slice(0, 12);
+    const cropPath = path.join(path.dirname(source.path), `match-${key}.jpg`);
+    if (fs.existsSync(cropPath)) {
+      return cropPath;
+    }
+
+    // Concurrent searches for the same card share one crop
+    let pending = this.inFlight.get(cropPath);
+    if (!pending) {
+      pending = this.writeCrop(source, region, cropPath).finally(() => this.inFlight.delete(cropPath));
+      this.inFlight.set(cropPath, pending);
+    }
+    return pending;
+  }
+
+  private async writeCrop(
+    source: { path: string; width: number; height: number },
+    region: MatchRegion,
+    cropPath: string
+  ): Promise<string | null> {
+    try {
+      if (!fs.existsSync(source.path)) {
+        return null;
+      }
+
+      const rect = cropRect(region, source.width, source.height, MATCH_THUMB_WIDTH, MATCH_THUMB_HEIGHT);
+      const frame = fs.readFileSync(source.path);
+      const crop = await sharp(this.cipher ? this.cipher.decryptBuffer(frame) : frame)
+        .extract(rect)
+        .resize(MATCH_THUMB_WIDTH, MATCH_THUMB_HEIGHT, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+      fs.writeFileSync(cropPath, this.cipher ? this.cipher.encryptBuffer(crop) : crop);
+
+      logger.debug('Generated match crop', { cropPath, terms: region.terms, rect });
+      return cropPath;
+    } catch (error) {
+      logger.warn('Failed to generate match crop', {
+        source: source.path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+}
+
+/**
+ * The region around the densest cluster of matches: each matching box is tried as an
+ * anchor, and the one with the most distinct terms nearby wins (then the most boxes)
+ */
+export function findMatchRegion(boxes: OcrBox[], terms: string[]): MatchRegion | null {
+  const wanted = matchTerms(terms);
+  if (wanted.length === 0) {
+    return null;
+  }
+
+  const hits = boxes
+    .map(box => {
+      const text = normalize(box.text);
+      return { box, terms: wanted.filter(term => text.includes(term)) };
+    })
+    .filter(hit => hit.terms.length > 0);
+
+  let best: { near: typeof hits; covered: Set<string> } | null = null;
+  for (const anchor of hits) {
+    const near = hits.filter(hit =>
+      Math.abs(centerX(hit.box) - centerX(anchor.box)) <= NEIGHBOURHOOD_X &&
+      Math.abs(centerY(hit.box) - centerY(anchor.box)) <= NEIGHBOURHOOD_Y
+    );
+    const covered = new Set(near.flatMap(hit => hit.terms));
+    if (!best || covered.size > best.covered.size || (covered.size === best.covered.size && near.length > best.near.length)) {
+      best = { near, covered };
+    }
+  }
+  if (!best) {
+    return null;
+  }
+
+  const left = Math.min(...best.near.map(hit => hit.box.x));
+  const top = Math.min(...best.near.map(hit => hit.box.y));
+  const right = Math.max(...best.near.map(hit => hit.box.x + hit.box.w));
+  const bottom = Math.max(...best.near.map(hit => hit.box.y + hit.box.h));
+  return { x: left, y: top, w: right - left, h: bottom - top, terms: [...best.covered].sort() };
+}
+
+/**
+ * Pixel rectangle of a frame to crop for a region: padded, at least the output size
+ * (so text is never upscaled), in the output's aspect ratio, centered on the region
+ * and kept inside the frame
+ */
+export function cropRect(region: MatchRegion, frameWidth: number, frameHeight: number, outWidth: number, outHeight: number): CropRect {
+  const aspect = outWidth / outHeight;
+  let width = Math.max(region.w * frameWidth + 2 * PADDING_PX, outWidth);
+  let height = Math.max(region.h * frameHeight + 2 * PADDING_PX, outHeight);
+  if (width / height < aspect) {
+    width = height * aspect;
+  } else {
+    height = width / aspect;
+  }
+
+  const fit = Math.min(1, frameWidth / width, frameHeight / height);
+  width = Math.floor(width * fit);
+  height = Math.floor(height * fit);
+
+  const centerLeft = (region.x + region.w / 2) * frameWidth - width / 2;
+  const centerTop = (region.y + region.h / 2) * frameHeight - height / 2;
+  return {
+    left: Math.round(Math.min(Math.max(0, centerLeft), frameWidth - width)),
+    top: Math.round(Math.min(Math.max(0, centerTop), frameHeight - height)),
+    width,
+    height
+  };
+}
+
+/**
+ * Query words and nugget values as terms to look for: normalized, de-duplicated, and
+ * without fragments too short to mean anything
+ */
+function matchTerms(texts: string[]): string[] {
+  const terms = texts
+    .flatMap(text => text.split(/\s+/))
+    .map(normalize)
+    .filter(term => term.length >= MIN_TERM_LENGTH || (term.length > 1 && /\d/.test(term)));
+  return [...new Set(terms)];
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function centerX(box: OcrBox): number {
+  return box.x + box.w / 2;
+}
+
+function centerY(box: OcrBox): number {
+  return box.y + box.h / 2;
+}
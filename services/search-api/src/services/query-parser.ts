@@ -1,4 +1,5 @@
 import * as chrono from 'chrono-node';
+import { TopicTaxonomy, loadTaxonomy } from '@photographic-memory/mem-store';
 import { logger } from '../utils/logger';
 
 interface ParsedQuery {
@@ -6,10 +7,22 @@ interface ParsedQuery {
   time_window?: { from: Date; to: Date };
   app_hints: string[];
   topic_hints: string[];
+  topics: string[];        // Taxonomy topics the query points at (ranking boost)
+  topic_filter?: string;   // Explicit ?topic=: only memories classified with it
   answer_field?: string;
+  modality?: 'screen' | 'audio';
+  entity?: EntityFilter;
   strict: boolean;
 }
 
+interface EntityFilter {
+  type?: string;
+  value: string; // Lowercased, compared with memory_entities.norm
+}
+
+// Entity types written by the ingest bridge's extractor
+const ENTITY_TYPES = ['person', 'organization', 'product', 'email', 'url', 'file_path', 'order_number', 'amount'];
+
 interface SearchRequest {
   q: string;
   from?: string;
@@ -17,9 +30,14 @@ interface SearchRequest {
   app?: string;
   host?: string;
   k?: number;
+  modality?: 'all' | 'screen' | 'audio';
+  entity?: string;
+  topic?: string;
 }
 
 export class QueryParser {
+  constructor(private taxonomy: TopicTaxonomy = loadTaxonomy()) {}
+
   async parseQuery(queryText: string, request: SearchRequest): Promise<ParsedQuery> {
     // Parse time expressions
     let timeWindow: { from: Date; to: Date } | undefined;
@@ -119,7 +137,11 @@ export class QueryParser {
       time_window: timeWindow,
       app_hints: [...new Set(appHints)], // Remove duplicates
       topic_hints: [...new Set(topicHints)],
+      topics: this.matchTopics(lowerQuery, topicHints, appHints, request.host),
+      topic_filter: request.topic?.toLowerCase(),
       answer_field: answerField,
+      modality: request.modality && request.modality !== 'all' ? request.modality : undefined,
+      entity: this.parseEntity(request.entity),
       strict: false
     };
     
@@ -131,9 +153,51 @@ export class QueryParser {
       } : undefined,
       app_hints: parsed.app_hints,
       topic_hints: parsed.topic_hints.slice(0, 5), // Log first 5 only
+      topics: parsed.topics,
       answer_field: parsed.answer_field
     });
     
     return parsed;
   }
+
+  /**
+   * Taxonomy topics named by a topic hint ("shopping"), signalled by one of their
+   * keywords in the query ("gift"), or implied by a hinted app or host
+   */
+  private matchTopics(lowerQuery: string, topicHints: string[], appHints: string[], host?: string): string[] {
+    const apps = appHints.map(app => app.toLowerCase());
+    const lowerHost = host?.toLowerCase();
+
+    return Object.entries(this.taxonomy)
+      .filter(([topic, rule]) =>
+        topicHints.includes(topic) ||
+        (rule.keywords || []).some(keyword =>
+          new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.toLowerCase())}(?![\\p{L}\\p{N}])`, 'u').test(lowerQuery)
+        ) ||
+        (rule.apps || []).some(app => apps.includes(app.toLowerCase())) ||
+        (!!lowerHost && (rule.hosts || []).some(known => lowerHost === known || lowerHost.endsWith(`.${known}`)))
+      )
+      .map(([topic]) => topic);
+  }
+
+  /**
+   * "person:Jane Doe" filters on one entity type; a bare "Jane Doe" matches any type
+   */
+  private parseEntity(entity?: string): EntityFilter | undefined {
+    const trimmed = entity?.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+
+    const separator = trimmed.indexOf(':');
+    const type = separator > 0 ? trimmed.slice(0, separator).toLowerCase() : '';
+    if (ENTITY_TYPES.includes(type)) {
+      return { type, value: trimmed.slice(separator + 1).trim().toLowerCase() };
+    }
+    return { value: trimmed.toLowerCase() };
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
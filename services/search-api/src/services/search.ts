@@ -1,11 +1,23 @@
-import { Database } from 'sqlite3';
-import { ChromaClient, Collection, OpenAIEmbeddingFunction } from 'chromadb';
-import OpenAI from 'openai';
+import { Database } from '@journeyapps/sqlcipher';
 import { LRUCache } from 'lru-cache';
 import { logger } from '../utils/logger';
 import { QueryParser } from './query-parser';
 import { NuggetExtractor } from './nugget-extractor';
+import { MatchCropper, OcrBox } from './match-crops';
+import fs from 'fs';
 import path from 'path';
+import {
+  EmbeddingModelSpec,
+  EmbeddingProvider,
+  MemoryCipher,
+  SchemaMigrator,
+  VectorCollection,
+  VectorFilter,
+  VectorStore,
+  createEmbeddingProvider,
+  createProviderForSpec,
+  createVectorStore
+} from '@photographic-memory/mem-store';
 
 // Types
 interface SearchRequest {
@@ -15,6 +27,11 @@ interface SearchRequest {
   app?: string;
   host?: string;
   k?: number;
+  modality?: 'all' | 'screen' | 'audio';
+  collapse?: 'none' | 'session';
+  entity?: string;
+  topic?: string;
+  rendition?: string;
 }
 
 interface SearchCard {
@@ -23,11 +40,89 @@ interface SearchCard {
   app: string;
   url_host?: string | null;
   title_snippet: string;
-  thumb_url?: string;
+  thumb_url?: string;             // The requested rendition, else the card thumbnail
+  match_thumb_url?: string;       // Crop around where the query terms or nugget appear on screen
+  renditions: { [name: string]: RenditionUrl };
   score: number;
   nugget?: NuggetResult | null;
   window_title?: string | null;
   url?: string | null;
+  modalities: Modality[];
+  linked_memory_id?: string | null; // Audio cards: the screen memory on display at the time
+  session_id?: string | null;
+  session_hits?: number;        // collapse=session: matching memories in this card's session
+  topics: string[];
+  last_seen_ts: number;         // Content stayed on screen from `ts` until here
+  duplicate_count: number;      // Near-identical captures folded into this memory
+}
+
+interface RenditionUrl {
+  url: string;
+  width: number;
+  height: number;
+  format: string;
+}
+
+interface SessionSummary {
+  id: string;
+  start_ts: number;
+  end_ts: number;
+  app: string;
+  url_host: string | null;
+  title: string | null;
+  memory_count: number;
+}
+
+interface EntitySummary {
+  type: string;
+  value: string;
+  count: number;       // Memories mentioning it
+  first_seen: number;
+  last_seen: number;
+}
+
+interface EntityListFilter {
+  type?: string;
+  q?: string;
+  limit?: number;
+}
+
+interface SessionFilter {
+  from?: string;
+  to?: string;
+  app?: string;
+  limit?: number;
+}
+
+/**
+ * Storage used by category, as last measured by the ingest bridge's quota manager
+ */
+interface StorageUsage {
+  quota_bytes: number | null;  // null: no quota set
+  used_bytes: number;
+  categories: { [category: string]: { bytes: number; files: number } }; // sqlite, vectors, thumbnails, video
+  measured_at: number;
+  last_eviction: {
+    at: number;
+    media: number;       // Duplicate-frame media files deleted
+    thumbnails: number;  // Memories whose thumbnails were deleted
+    memories: number;    // Memories deleted
+    freed_bytes: number;
+  } | null;
+}
+
+/**
+ * The ingest bridge's latest comparison of SQLite with the active vector collection
+ */
+interface ConsistencyStatus {
+  collection: string;
+  checked_at: number;
+  memories: number;
+  vectors: number;
+  missing: number;     // Memories without a vector (semantic search can't find them)
+  orphaned: number;    // Vectors without a memory (dropped from results)
+  repaired: { embedded: number; deleted: number } | null; // null: checked without repairing
+  in_sync: boolean;    // Nothing found, or all of it repaired
 }
 
 interface SearchResponse {
@@ -48,10 +143,16 @@ interface ParsedQuery {
   time_window?: { from: Date; to: Date };
   app_hints: string[];
   topic_hints: string[];
+  topics: string[];
+  topic_filter?: string;
   answer_field?: string;
+  modality?: Modality;
+  entity?: { type?: string; value: string };
   strict: boolean;
 }
 
+type Modality = 'screen' | 'audio';
+
 interface NuggetResult {
   type: 'price' | 'score' | 'title' | 'generic';
   value: string;
@@ -61,12 +162,42 @@ interface NuggetResult {
 interface MemoryRow {
   id: string;
   ts: number;
+  session_id: string | null;
+  topics: string[];
   app: string;
   url_host: string | null;
   window_title: string | null;
   ocr_text: string;
+  asr_text: string | null;
+  ui_text: string | null;
+  text_source: TextSource;
+  linked_memory_id: string | null;
+  last_seen_ts: number | null;
+  duplicate_count: number;
   media_path: string | null;
   thumb_path: string | null;
+  renditions: RenditionManifest | null;
+  ocr_boxes: OcrBox[] | null;
+}
+
+// Image files made of a memory's frame, by rendition name (set by ingest-bridge)
+export type RenditionManifest = { [name: string]: RenditionInfo };
+
+export interface RenditionInfo {
+  path: string;
+  width: number;
+  height: number;
+  format: string;
+  bytes: number;
+}
+
+// Where a memory's primary text came from (set by ingest-bridge)
+type TextSource = 'ui' | 'ocr' | 'asr';
+
+interface ActiveEmbeddingCollection {
+  name: string;
+  collection: VectorCollection;
+  provider: EmbeddingProvider;
 }
 
 interface SearchResult {
@@ -76,7 +207,9 @@ interface SearchResult {
   timeDecay: number;
   appBonus: number;
   sourceReliability: number;
+  topicBonus?: number;
   finalScore: number;
+  sessionHits?: number;
 }
 
 // Configuration
@@ -87,18 +220,44 @@ const WEIGHT_KEYWORD = 0.3;
 const WEIGHT_TIME = 0.15;
 const WEIGHT_APP = 0.1;
 const WEIGHT_SOURCE = 0.05;
+const TOPIC_BOOST = parseFloat(process.env.SEARCH_TOPIC_BOOST || '0.05'); // Added when a memory's topic matches the query's
+const LEGACY_COLLECTION_NAME = 'mem_text';
+// Salt for MEMORY_PASSPHRASE, in data/ at the repo root like the databases
+const DEFAULT_SALT_PATH = path.join(process.cwd(), '../../data/encryption.salt');
+// FTS5 columns searched for each modality
+const MODALITY_FTS_COLUMNS: Record<Modality, string> = {
+  screen: '{ocr_text window_title ui_text}',
+  audio: '{asr_text}'
+};
+// bm25 column weights (id, ocr_text, window_title, asr_text, ui_text, app, url_host):
+// exact UI-tree text outranks the same words recovered by OCR. bm25() is more negative
+// for better matches, so keyword search negates it: higher fts_score is better.
+const FTS_COLUMN_WEIGHTS = '0, 1.0, 1.0, 1.0, 1.5, 0, 0';
+// Multiplier on source reliability by how the text was captured
+const TEXT_SOURCE_RELIABILITY: Record<TextSource, number> = {
+  ui: 1.2,
+  ocr: 1.0,
+  asr: 0.9
+};
+const ACTIVE_COLLECTION_REFRESH_MS = 5000;
+// Thumbnails are encrypted when a key is set, so cards point at this API instead of the files
+const PUBLIC_URL = process.env.SEARCH_API_PUBLIC_URL || `http://localhost:${process.env.SEARCH_API_PORT || '3032'}`;
+const COLLAPSE_CANDIDATE_FACTOR = 4;
+// Growth of a semantic query whose modality, entity or topic filter left too few results
+const SEMANTIC_WIDEN_FACTOR = 4;
 
 export class SearchService {
   private db!: Database;
-  private chroma!: ChromaClient;
-  private collection!: Collection;
-  private openai!: OpenAI;
+  private vectors!: VectorStore;
+  private embedding!: ActiveEmbeddingCollection;
+  private lastActiveCheck = 0;
   private cache: LRUCache<string, SearchResponse>;
   private embeddingCache: LRUCache<string, number[]>;
   private queryParser: QueryParser;
   private nuggetExtractor: NuggetExtractor;
+  private matchCropper: MatchCropper;
 
-  constructor() {
+  constructor(private cipher: MemoryCipher | null = MemoryCipher.load(process.env.ENCRYPTION_SALT_PATH || DEFAULT_SALT_PATH)) {
     // Initialize caches
     this.cache = new LRUCache<string, SearchResponse>({
       max: 1000,
@@ -113,6 +272,7 @@ export class SearchService {
     // Initialize helper services
     this.queryParser = new QueryParser();
     this.nuggetExtractor = new NuggetExtractor();
+    this.matchCropper = new MatchCropper(cipher);
   }
 
   async initialize(): Promise<void> {
@@ -120,44 +280,108 @@ export class SearchService {
       // Initialize SQLite database
       const dbPath = path.join(process.cwd(), '../../data/sqlite/memories.db');
       this.db = new Database(dbPath);
+      await this.unlock(dbPath);
+      await new SchemaMigrator(this.db, dbPath).migrate();
       
-      // Initialize ChromaDB
-      this.chroma = new ChromaClient({ path: 'http://localhost:8000' });
+      // The same vector store the ingest bridge writes (VECTOR_STORE)
+      this.vectors = createVectorStore(this.cipher, path.dirname(dbPath));
+      await this.vectors.open();
       
-      // Create embedding function
-      const embeddingFunction = new OpenAIEmbeddingFunction({
-        openai_api_key: process.env.OPENAI_API_KEY!,
-        openai_model: 'text-embedding-3-large'
-      });
+      // Open the active embedding collection with the provider that built it
+      await this.refreshActiveCollection(true);
       
-      try {
-        this.collection = await this.chroma.getCollection({ 
-          name: 'mem_text',
-          embeddingFunction
-        });
-      } catch (error) {
-        logger.warn('ChromaDB collection not found, creating new one');
-        this.collection = await this.chroma.createCollection({ 
-          name: 'mem_text',
-          metadata: { 'hnsw:space': 'cosine' },
-          embeddingFunction
-        });
-      }
-      
-      // Initialize OpenAI
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
+      logger.info('SearchService initialized successfully', {
+        collection: this.embedding.name,
+        vectorStore: this.vectors.backend,
+        embeddingProvider: this.embedding.provider.name,
+        embeddingModel: this.embedding.provider.model
       });
-      
-      logger.info('SearchService initialized successfully');
     } catch (error) {
       logger.error('Failed to initialize SearchService:', error);
       throw error;
     }
   }
 
+  /**
+   * Give SQLCipher the key before any other statement, and read the schema so a wrong
+   * or missing key fails at startup
+   */
+  private async unlock(dbPath: string): Promise<void> {
+    const run = (sql: string) => new Promise<void>((resolve, reject) => {
+      this.db.run(sql, (err) => (err ? reject(err) : resolve()));
+    });
+    if (this.cipher) {
+      await run(`PRAGMA key = ${this.cipher.sqliteKeyPragma()}`);
+    }
+
+    try {
+      await run('SELECT COUNT(*) FROM sqlite_master');
+    } catch (error: any) {
+      if (error.code !== 'SQLITE_NOTADB') throw error;
+      throw new Error(this.cipher
+        ? `${dbPath} can't be read with encryption key ${this.cipher.fingerprint}`
+        : `${dbPath} is encrypted; set MEMORY_KEY_FILE, MEMORY_KEY_KEYCHAIN or MEMORY_PASSPHRASE`);
+    }
+  }
+
+  /**
+   * Follow the active collection recorded by the ingest bridge. After a re-embed
+   * cutover, the collection and its query provider are swapped together, so a query
+   * is never embedded with a different model than the vectors it is compared with.
+   */
+  private async refreshActiveCollection(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.lastActiveCheck < ACTIVE_COLLECTION_REFRESH_MS) {
+      return;
+    }
+    this.lastActiveCheck = Date.now();
+
+    const active = await this.getActiveCollectionSpec();
+    if (this.embedding && (!active || active.name === this.embedding.name)) {
+      return;
+    }
+
+    // Databases from before collection versioning: the configured provider and the
+    // legacy collection (EMBEDDING_PROVIDER=openai|local)
+    const provider = active ? createProviderForSpec(active) : createEmbeddingProvider();
+    const name = active ? active.name : LEGACY_COLLECTION_NAME;
+
+    let collection = await this.vectors.getCollection(name);
+    if (!collection) {
+      logger.warn('Vector collection not found, creating new one', { name });
+      collection = await this.vectors.getOrCreateCollection(name, {
+        embedding_provider: provider.name,
+        embedding_model: provider.model,
+        embedding_dim: provider.dimensions
+      });
+    }
+
+    if (this.embedding) {
+      logger.info('Switched to new active embedding collection', {
+        from: this.embedding.name,
+        to: name,
+        model: provider.model
+      });
+      this.cache.clear();
+    }
+    this.embedding = { name, collection, provider };
+  }
+
+  private async getActiveCollectionSpec(): Promise<(EmbeddingModelSpec & { name: string }) | null> {
+    return new Promise((resolve) => {
+      this.db.get(
+        "SELECT name, provider, model, dimensions FROM embedding_collections WHERE status = 'active'",
+        [],
+        (err, row: any) => {
+          // No registry table yet means an older database
+          resolve(err || !row ? null : row);
+        }
+      );
+    });
+  }
+
   async search(request: SearchRequest): Promise<SearchResponse> {
     const startTime = Date.now();
+    await this.refreshActiveCollection();
     
     // Check cache first
     const cacheKey = JSON.stringify(request);
@@ -172,7 +396,15 @@ export class SearchService {
       const parsedQuery = await this.parseQuery(request.q, request);
       
       // Perform hybrid search
-      const searchResults = await this.hybridSearch(parsedQuery, request.k || SEARCH_K);
+      const k = request.k || SEARCH_K;
+      let searchResults: SearchResult[];
+      if (request.collapse === 'session') {
+        // Rank a wider pool so k distinct sessions survive collapsing
+        const candidates = await this.hybridSearch(parsedQuery, k * COLLAPSE_CANDIDATE_FACTOR);
+        searchResults = this.collapseSessions(candidates).slice(0, k);
+      } else {
+        searchResults = await this.hybridSearch(parsedQuery, k);
+      }
       
       // Calculate confidence and determine mode
       const topScore = searchResults.length > 0 ? searchResults[0].finalScore : 0;
@@ -181,7 +413,7 @@ export class SearchService {
       const cardCount = mode === 'exact' ? Math.min(3, searchResults.length) : Math.min(6, searchResults.length);
       
       // Convert to cards with nugget extraction
-      const cards = await this.convertToCards(searchResults.slice(0, cardCount));
+      const cards = await this.convertToCards(searchResults.slice(0, cardCount), request.rendition, parsedQuery.topic_hints);
       
       const totalTime = Date.now() - startTime;
       
@@ -223,7 +455,7 @@ export class SearchService {
     
     const semanticStart = Date.now();
     
-    // 2. Semantic search using ChromaDB
+    // 2. Semantic search in the vector store
     const semanticResults = await this.semanticSearch(query, k * 2);
     const semanticTime = Date.now() - semanticStart;
     
@@ -245,13 +477,17 @@ export class SearchService {
       // Build SQL query with filters
       let sql = `
         SELECT m.*, 
-               bm25(memories_fts) as fts_score
+               -bm25(memories_fts, ${FTS_COLUMN_WEIGHTS}) as fts_score
         FROM memories_fts 
         JOIN memories m ON memories_fts.id = m.id
         WHERE memories_fts MATCH ?
       `;
       
-      const params: any[] = [query.text];
+      // Restrict matching to the modality's columns, e.g. {asr_text} : (budget review)
+      const match = query.modality
+        ? `${MODALITY_FTS_COLUMNS[query.modality]} : (${query.text})`
+        : query.text;
+      const params: any[] = [match];
       
       // Add time filter
       if (query.time_window) {
@@ -266,6 +502,19 @@ export class SearchService {
         sql += ` AND m.app IN (${appPlaceholders})`;
         params.push(...query.app_hints);
       }
+
+      // Add entity filter
+      if (query.entity) {
+        const entityFilter = this.entityFilterSql(query.entity);
+        sql += ` AND m.id IN (SELECT memory_id FROM memory_entities WHERE ${entityFilter.sql})`;
+        params.push(...entityFilter.params);
+      }
+
+      // Add topic filter; topics are stored as a JSON array
+      if (query.topic_filter) {
+        sql += ' AND EXISTS (SELECT 1 FROM json_each(m.topics) WHERE value = ?)';
+        params.push(query.topic_filter);
+      }
       
       sql += ' ORDER BY fts_score DESC LIMIT ?';
       params.push(limit);
@@ -278,16 +527,7 @@ export class SearchService {
         
         for (const row of rows) {
           results.set(row.id, {
-            memory: {
-              id: row.id,
-              ts: row.ts,
-              app: row.app,
-              url_host: row.url_host,
-              window_title: row.window_title,
-              ocr_text: row.ocr_text,
-              media_path: row.media_path,
-              thumb_path: row.thumb_path
-            },
+            memory: this.rowToMemory(row),
             score: row.fts_score || 0
           });
         }
@@ -299,56 +539,66 @@ export class SearchService {
 
   private async semanticSearch(query: ParsedQuery, limit: number): Promise<Map<string, { memory: MemoryRow; score: number }>> {
     try {
+      // Capture the collection once so a concurrent cutover can't split this query
+      const { collection, provider } = this.embedding;
+      
       // Get or generate embedding for query
-      let queryEmbedding = this.embeddingCache.get(query.text);
+      const cacheKey = `${provider.model}:${query.text}`;
+      let queryEmbedding = this.embeddingCache.get(cacheKey);
       if (!queryEmbedding) {
-        const response = await this.openai.embeddings.create({
-          model: 'text-embedding-3-large',
-          input: query.text,
-          encoding_format: 'float'
-        });
-        queryEmbedding = response.data[0].embedding;
-        this.embeddingCache.set(query.text, queryEmbedding);
+        [queryEmbedding] = await provider.embed([query.text]);
+        this.embeddingCache.set(cacheKey, queryEmbedding);
       }
       
-      // Build where clause for ChromaDB
-      const where: any = {};
+      // Narrow by time and app in the vector store
+      const filter: VectorFilter = {};
       if (query.time_window) {
-        where.ts = {
-          $gte: query.time_window.from.getTime(),
-          $lte: query.time_window.to.getTime()
-        };
+        filter.from = query.time_window.from.getTime();
+        filter.to = query.time_window.to.getTime();
       }
       
       if (query.app_hints.length > 0) {
-        where.app = { $in: query.app_hints };
+        filter.apps = query.app_hints;
       }
       
-      // Query ChromaDB
-      const chromaResults = await this.collection.query({
-        queryEmbeddings: [queryEmbedding],
-        nResults: limit,
-        where: Object.keys(where).length > 0 ? where : undefined
-      });
-      
       const results = new Map<string, { memory: MemoryRow; score: number }>();
-      
-      if (chromaResults.ids && chromaResults.ids[0] && chromaResults.distances && chromaResults.metadatas) {
-        const ids = chromaResults.ids[0];
-        const distances = chromaResults.distances[0];
-        const metadatas = chromaResults.metadatas[0];
-        
-        // Get full memory objects from SQLite
-        for (let i = 0; i < ids.length; i++) {
-          const id = ids[i];
-          const similarity = 1 - (distances[i] || 1); // Convert distance to similarity
-          
-          // Get full memory object from SQLite
-          const memory = await this.getMemoryById(id);
-          if (memory) {
-            results.set(id, { memory, score: similarity });
+      const checked = new Set<string>();
+      let orphaned = 0;
+
+      // Modality, entity and topic are checked in SQLite, after the vector query. While they
+      // leave fewer than `limit` results, widen the query until the collection runs out.
+      for (let fetch = limit; ; fetch *= SEMANTIC_WIDEN_FACTOR) {
+        const matches = await collection.query(queryEmbedding, fetch, filter);
+        const fresh = matches.filter(match => !checked.has(match.id));
+        fresh.forEach(match => checked.add(match.id));
+        const withEntity = query.entity && fresh.length > 0
+          ? await this.getMemoriesWithEntity(fresh.map(match => match.id), query.entity)
+          : null;
+
+        // Get full memory objects from SQLite, most similar first
+        for (const match of fresh) {
+          if (results.size >= limit) break;
+          if (withEntity && !withEntity.has(match.id)) {
+            continue;
+          }
+          const memory = await this.getMemoryById(match.id);
+          if (!memory) {
+            orphaned++;
+          } else if (
+            (!query.modality || this.getModalities(memory).includes(query.modality)) &&
+            (!query.topic_filter || memory.topics.includes(query.topic_filter))
+          ) {
+            results.set(match.id, { memory, score: 1 - match.distance }); // Convert distance to similarity
           }
         }
+
+        const filtered = !!query.modality || !!query.entity || !!query.topic_filter;
+        if (!filtered || results.size >= limit || matches.length < fetch) break;
+      }
+
+      // Vectors of deleted memories; the ingest bridge's consistency job removes them
+      if (orphaned > 0) {
+        logger.warn('Semantic results without a memory in SQLite', { orphaned, collection: this.embedding.name });
       }
       
       return results;
@@ -358,6 +608,85 @@ export class SearchService {
     }
   }
 
+  private entityFilterSql(entity: { type?: string; value: string }): { sql: string; params: any[] } {
+    return entity.type
+      ? { sql: 'norm = ? AND type = ?', params: [entity.value, entity.type] }
+      : { sql: 'norm = ?', params: [entity.value] };
+  }
+
+  /**
+   * Which of the given memories mention an entity
+   */
+  private async getMemoriesWithEntity(ids: string[], entity: { type?: string; value: string }): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+
+    const entityFilter = this.entityFilterSql(entity);
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT memory_id FROM memory_entities WHERE memory_id IN (${ids.map(() => '?').join(',')}) AND ${entityFilter.sql}`,
+        [...ids, ...entityFilter.params],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve(new Set(rows.map(row => row.memory_id)));
+        }
+      );
+    });
+  }
+
+  /**
+   * One rendition of a memory's frame, or null if the memory or rendition doesn't exist
+   */
+  async getRendition(id: string, name: string): Promise<RenditionInfo | null> {
+    const memory = await this.getMemoryById(id);
+    return memory?.renditions?.[name] || null;
+  }
+
+  /**
+   * Path of a memory's card thumbnail, or of a match crop made from its frame (by
+   * file name); null if the memory or file doesn't exist
+   */
+  async getImagePath(id: string, matchThumb?: string): Promise<string | null> {
+    const memory = await this.getMemoryById(id);
+    if (!memory) {
+      return null;
+    }
+    const source = matchThumb ? this.largestRendition(memory) : null;
+    const filePath = matchThumb
+      ? (source ? path.join(path.dirname(source.path), matchThumb) : null)
+      : memory.thumb_path;
+    return filePath && fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * An image file's contents, decrypted when encryption is on
+   */
+  readImage(filePath: string): Buffer {
+    const data = fs.readFileSync(filePath);
+    return this.cipher ? this.cipher.decryptBuffer(data) : data;
+  }
+
+  /**
+   * Count an open of a memory from search (opened memories are evicted last when
+   * storage is over quota). False if the memory doesn't exist.
+   */
+  async recordOpen(id: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE memories SET open_count = COALESCE(open_count, 0) + 1, last_opened_ts = ? WHERE id = ?',
+        [Date.now(), id],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
   private async getMemoryById(id: string): Promise<MemoryRow | null> {
     return new Promise((resolve, reject) => {
       this.db.get(
@@ -374,21 +703,70 @@ export class SearchService {
             return;
           }
           
-          resolve({
-            id: row.id,
-            ts: row.ts,
-            app: row.app,
-            url_host: row.url_host,
-            window_title: row.window_title,
-            ocr_text: row.ocr_text,
-            media_path: row.media_path,
-            thumb_path: row.thumb_path
-          });
+          resolve(this.rowToMemory(row));
         }
       );
     });
   }
 
+  private rowToMemory(row: any): MemoryRow {
+    return {
+      id: row.id,
+      ts: row.ts,
+      session_id: row.session_id ?? null,
+      topics: row.topics ? JSON.parse(row.topics) : [],
+      app: row.app,
+      url_host: row.url_host,
+      window_title: row.window_title,
+      ocr_text: row.ocr_text,
+      asr_text: row.asr_text ?? null,
+      ui_text: row.ui_text ?? null,
+      text_source: row.text_source || 'ocr',
+      linked_memory_id: row.linked_memory_id ?? null,
+      last_seen_ts: row.last_seen_ts ?? null,
+      duplicate_count: row.duplicate_count || 0,
+      media_path: row.media_path,
+      thumb_path: row.thumb_path,
+      renditions: row.renditions ? JSON.parse(row.renditions) : null,
+      ocr_boxes: row.ocr_boxes ? JSON.parse(row.ocr_boxes) : null
+    };
+  }
+
+  /**
+   * What a memory captured: screen text or speech
+   */
+  private getModalities(memory: MemoryRow): Modality[] {
+    const modalities: Modality[] = [];
+    if ([memory.ocr_text, memory.ui_text].some(text => text && text.trim().length > 0)) modalities.push('screen');
+    if (memory.asr_text && memory.asr_text.trim().length > 0) modalities.push('audio');
+    return modalities;
+  }
+
+  /**
+   * Keep the best-scoring result of each session, so one long browse yields one card.
+   * Memories without a session (ingested before sessions existed) stay separate.
+   */
+  private collapseSessions(results: SearchResult[]): SearchResult[] {
+    const bySession = new Map<string, SearchResult>();
+    for (const result of results) {
+      const key = result.memory.session_id || result.memory.id;
+      const best = bySession.get(key);
+      if (best) {
+        best.sessionHits = (best.sessionHits || 1) + 1;
+      } else {
+        bySession.set(key, { ...result, sessionHits: 1 });
+      }
+    }
+    return Array.from(bySession.values()); // Insertion order keeps the score ranking
+  }
+
+  /**
+   * Best available text for a memory: exact UI text, then OCR, then transcript
+   */
+  private primaryText(memory: MemoryRow): string {
+    return memory.ui_text || memory.ocr_text || memory.asr_text || '';
+  }
+
   private mergeAndRankResults(
     keywordResults: Map<string, { memory: MemoryRow; score: number }>,
     semanticResults: Map<string, { memory: MemoryRow; score: number }>,
@@ -440,12 +818,14 @@ export class SearchService {
     
     // Calculate final scores
     for (const result of allResults.values()) {
+      result.topicBonus = this.calculateTopicBonus(result.memory.topics, query.topics);
       result.finalScore = (
         WEIGHT_SEMANTIC * result.semanticScore +
         WEIGHT_KEYWORD * result.ftsScore +
         WEIGHT_TIME * result.timeDecay +
         WEIGHT_APP * result.appBonus +
-        WEIGHT_SOURCE * result.sourceReliability
+        WEIGHT_SOURCE * result.sourceReliability +
+        TOPIC_BOOST * result.topicBonus
       );
     }
     
@@ -454,6 +834,11 @@ export class SearchService {
       .sort((a, b) => b.finalScore - a.finalScore);
   }
 
+  private calculateTopicBonus(memoryTopics: string[], queryTopics: string[]): number {
+    if (queryTopics.length === 0) return 0; // No topic in the query: no preference
+    return memoryTopics.some(topic => queryTopics.includes(topic)) ? 1.0 : 0.0;
+  }
+
   private calculateTimeDecay(timestamp: number, now: number): number {
     const ageHours = (now - timestamp) / (1000 * 60 * 60);
     // Exponential decay: more recent = higher score
@@ -469,6 +854,12 @@ export class SearchService {
   }
 
   private calculateSourceReliability(memory: MemoryRow): number {
+    // UI-tree text is exact; OCR and speech recognition can garble words
+    const textFactor = TEXT_SOURCE_RELIABILITY[memory.text_source] ?? 1.0;
+    return Math.min(1.0, this.calculateOriginReliability(memory) * textFactor);
+  }
+
+  private calculateOriginReliability(memory: MemoryRow): number {
     // Higher reliability for structured sources
     if (memory.url_host) {
       const knownSites = ['amazon.com', 'youtube.com', 'github.com', 'stackoverflow.com'];
@@ -487,20 +878,40 @@ export class SearchService {
     return 0.5; // Default
   }
 
-  private async convertToCards(results: SearchResult[]): Promise<SearchCard[]> {
+  /**
+   * `rendition` picks which image a card's thumb_url points at; memories without it
+   * (older ones, or a placeholder) keep their card thumbnail. `terms` (query keywords)
+   * and the nugget are what match_thumb_url is cropped around.
+   */
+  private async convertToCards(results: SearchResult[], rendition?: string, terms: string[] = []): Promise<SearchCard[]> {
     const cards: SearchCard[] = [];
     
     for (const result of results) {
       const memory = result.memory;
       
       // Extract nugget
-      const nugget = this.nuggetExtractor.extractNugget(memory.ocr_text, memory.app, memory.url_host);
+      const nugget = this.nuggetExtractor.extractNugget(this.primaryText(memory), memory.app, memory.url_host);
       
       // Generate title snippet
       const titleSnippet = this.generateTitleSnippet(memory, nugget);
       
-      // Generate thumbnail URL
-      const thumbUrl = memory.thumb_path ? `file://${memory.thumb_path}` : undefined;
+      // Generate thumbnail URLs
+      const renditions: { [name: string]: RenditionUrl } = {};
+      for (const [name, info] of Object.entries(memory.renditions || {})) {
+        renditions[name] = {
+          url: this.cipher ? `${PUBLIC_URL}/memories/${memory.id}/renditions/${name}` : `file://${info.path}`,
+          width: info.width,
+          height: info.height,
+          format: info.format
+        };
+      }
+      const thumbUrl = (rendition && renditions[rendition]?.url)
+        || (memory.thumb_path ? this.fileUrl(memory.id, memory.thumb_path, 'thumbnail') : undefined);
+      const matchThumb = await this.matchCropper.getMatchThumb(
+        memory.ocr_boxes,
+        this.largestRendition(memory),
+        nugget ? [...terms, nugget.value] : terms
+      );
       
       cards.push({
         id: memory.id,
@@ -509,16 +920,44 @@ export class SearchService {
         url_host: memory.url_host,
         title_snippet: titleSnippet,
         thumb_url: thumbUrl,
+        match_thumb_url: matchThumb ? this.fileUrl(memory.id, matchThumb, `match-thumbs/${path.basename(matchThumb)}`) : undefined,
+        renditions,
         score: result.finalScore,
         nugget,
         window_title: memory.window_title,
-        url: memory.url_host ? `https://${memory.url_host}` : undefined
+        url: memory.url_host ? `https://${memory.url_host}` : undefined,
+        modalities: this.getModalities(memory),
+        linked_memory_id: memory.linked_memory_id,
+        session_id: memory.session_id,
+        session_hits: result.sessionHits,
+        topics: memory.topics,
+        last_seen_ts: memory.last_seen_ts ?? memory.ts,
+        duplicate_count: memory.duplicate_count
       });
     }
     
     return cards;
   }
 
+  /**
+   * URL of one of a memory's image files: the file itself, or when files are encrypted
+   * the search API route (under /memories/:id/) that decrypts it
+   */
+  private fileUrl(id: string, filePath: string, route: string): string {
+    return this.cipher ? `${PUBLIC_URL}/memories/${id}/${route}` : `file://${filePath}`;
+  }
+
+  /**
+   * The biggest image of a memory's frame, to crop matches out of
+   */
+  private largestRendition(memory: MemoryRow): RenditionInfo | null {
+    const renditions = Object.values(memory.renditions || {});
+    if (renditions.length === 0) {
+      return null;
+    }
+    return renditions.reduce((largest, info) => info.width * info.height > largest.width * largest.height ? info : largest);
+  }
+
   private generateTitleSnippet(memory: MemoryRow, nugget: NuggetResult | null): string {
     if (nugget) {
       return nugget.value;
@@ -529,8 +968,8 @@ export class SearchService {
       return memory.window_title;
     }
     
-    // Extract first meaningful line from OCR
-    const lines = memory.ocr_text.split('\n')
+    // Extract first meaningful line from the screen text (or the transcript for audio-only memories)
+    const lines = this.primaryText(memory).split('\n')
       .map(line => line.trim())
       .filter(line => line.length > 5);
     
@@ -542,7 +981,7 @@ export class SearchService {
     return `${memory.app} - ${new Date(memory.ts).toLocaleString()}`;
   }
 
-  async getRecentMemories(limit: number = 20): Promise<SearchCard[]> {
+  async getRecentMemories(limit: number = 20, rendition?: string): Promise<SearchCard[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
         'SELECT * FROM memories ORDER BY ts DESC LIMIT ?',
@@ -553,16 +992,7 @@ export class SearchService {
             return;
           }
           
-          const memories: MemoryRow[] = rows.map(row => ({
-            id: row.id,
-            ts: row.ts,
-            app: row.app,
-            url_host: row.url_host,
-            window_title: row.window_title,
-            ocr_text: row.ocr_text,
-            media_path: row.media_path,
-            thumb_path: row.thumb_path
-          }));
+          const memories: MemoryRow[] = rows.map(row => this.rowToMemory(row));
           
           const cards = await this.convertToCards(
             memories.map(memory => ({
@@ -573,7 +1003,8 @@ export class SearchService {
               appBonus: 0.5,
               sourceReliability: 0.5,
               finalScore: 1
-            }))
+            })),
+            rendition
           );
           
           resolve(cards);
@@ -582,6 +1013,176 @@ export class SearchService {
     });
   }
 
+  /**
+   * Entities seen across all memories, most frequently mentioned first
+   */
+  async getEntities(filter: EntityListFilter = {}): Promise<EntitySummary[]> {
+    let sql = `
+      SELECT type, MAX(value) as value, COUNT(*) as count, MIN(ts) as first_seen, MAX(ts) as last_seen
+      FROM memory_entities
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+
+    if (filter.type) {
+      sql += ' AND type = ?';
+      params.push(filter.type);
+    }
+    if (filter.q) {
+      sql += ' AND norm LIKE ?';
+      params.push(`%${filter.q.toLowerCase()}%`);
+    }
+    sql += ' GROUP BY type, norm ORDER BY count DESC, last_seen DESC LIMIT ?';
+    params.push(filter.limit || 50);
+
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows as EntitySummary[]);
+      });
+    });
+  }
+
+  async getSessions(filter: SessionFilter = {}): Promise<SessionSummary[]> {
+    let sql = 'SELECT * FROM sessions WHERE 1=1';
+    const params: any[] = [];
+
+    // Sessions overlapping the time window
+    if (filter.from) {
+      sql += ' AND end_ts >= ?';
+      params.push(new Date(filter.from).getTime());
+    }
+    if (filter.to) {
+      sql += ' AND start_ts <= ?';
+      params.push(new Date(filter.to).getTime());
+    }
+    if (filter.app) {
+      sql += ' AND app LIKE ?';
+      params.push(`%${filter.app}%`);
+    }
+    sql += ' ORDER BY end_ts DESC LIMIT ?';
+    params.push(filter.limit || 20);
+
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows as SessionSummary[]);
+      });
+    });
+  }
+
+  /**
+   * A session and its memories in time order, or null if it doesn't exist
+   */
+  async getSession(id: string, rendition?: string): Promise<{ session: SessionSummary; memories: SearchCard[] } | null> {
+    const session = await new Promise<SessionSummary | undefined>((resolve, reject) => {
+      this.db.get('SELECT * FROM sessions WHERE id = ?', [id], (err, row: any) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+    if (!session) {
+      return null;
+    }
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db.all('SELECT * FROM memories WHERE session_id = ? ORDER BY ts', [id], (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    const memories = await this.convertToCards(
+      rows.map(row => ({
+        memory: this.rowToMemory(row),
+        semanticScore: 0,
+        ftsScore: 0,
+        timeDecay: 1,
+        appBonus: 0.5,
+        sourceReliability: 0.5,
+        finalScore: 1
+      })),
+      rendition
+    );
+
+    return { session, memories };
+  }
+
+  /**
+   * The ingest bridge's latest consistency check, or null before its first one
+   */
+  async getConsistencyStatus(): Promise<ConsistencyStatus | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT report_json FROM consistency_status WHERE id = 1', [], (err, row: any) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (!row) {
+          resolve(null);
+          return;
+        }
+
+        const report = JSON.parse(row.report_json);
+        const repaired = report.repaired;
+        resolve({
+          collection: report.collection,
+          checked_at: report.checkedAt,
+          memories: report.memories,
+          vectors: report.vectors,
+          missing: report.missing,
+          orphaned: report.orphaned,
+          repaired,
+          in_sync: repaired
+            ? repaired.embedded >= report.missing && repaired.deleted >= report.orphaned
+            : report.missing === 0 && report.orphaned === 0
+        });
+      });
+    });
+  }
+
+  /**
+   * The ingest bridge's latest storage measurement, or null before its first one
+   */
+  async getStorageUsage(): Promise<StorageUsage | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT status_json FROM storage_status WHERE id = 1', [], (err, row: any) => {
+        if (err) {
+          // An ingest bridge from before storage quotas never created the table
+          if (err.message.includes('no such table')) resolve(null);
+          else reject(err);
+          return;
+        }
+        if (!row) {
+          resolve(null);
+          return;
+        }
+
+        const status = JSON.parse(row.status_json);
+        const eviction = status.lastEviction;
+        resolve({
+          quota_bytes: status.quotaBytes,
+          used_bytes: status.usedBytes,
+          categories: status.categories,
+          measured_at: status.measuredAt,
+          last_eviction: eviction ? {
+            at: eviction.at,
+            media: eviction.media,
+            thumbnails: eviction.thumbnails,
+            memories: eviction.memories,
+            freed_bytes: eviction.freedBytes
+          } : null
+        });
+      });
+    });
+  }
+
   async getStats(): Promise<any> {
     return new Promise((resolve, reject) => {
       this.db.all(`
@@ -610,6 +1211,11 @@ export class SearchService {
           oldest_memory: totalRow?.oldest_memory,
           newest_memory: totalRow?.newest_memory,
           app_distribution: appCounts,
+          embedding: {
+            collection: this.embedding?.name,
+            provider: this.embedding?.provider.name,
+            model: this.embedding?.provider.model
+          },
           cache_stats: {
             search_cache_size: this.cache.size,
             embedding_cache_size: this.embeddingCache.size
@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+
+/**
+ * Keyword Ranking Test
+ * Stores the same words as UI-tree text in one memory and as OCR text in another, and
+ * checks keyword search ranks the UI-text match first
+ */
+
+import { Database } from '@journeyapps/sqlcipher';
+import { SchemaMigrator } from '@photographic-memory/mem-store';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SearchService } from '../services/search';
+import { logger } from '../utils/logger';
+
+const BASE_TS = Date.UTC(2024, 5, 1, 9);
+
+interface TestCase {
+  name: string;
+  text: string;
+  modality?: 'screen' | 'audio';
+}
+
+const TEST_CASES: TestCase[] = [
+  { name: 'UI-text match outranks the same words found by OCR', text: 'quarterly budget review' },
+  { name: 'Also within screen-only search', text: 'quarterly budget review', modality: 'screen' }
+];
+
+function run(db: Database, sql: string, params: any[] = []): Promise<void> {
+  return new Promise((resolve, reject) => db.run(sql, params, err => (err ? reject(err) : resolve())));
+}
+
+async function main(): Promise<boolean> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyword-ranking-'));
+  const dbPath = path.join(workDir, 'memories.db');
+  const db = new Database(dbPath);
+  const failures: string[] = [];
+
+  try {
+    await new SchemaMigrator(db, dbPath).migrate();
+    const insert = `INSERT INTO memories (id, ts, app, window_title, ocr_text, ui_text, text_source)
+      VALUES (?, ?, 'Numbers', 'Planning', ?, ?, 'ocr')`;
+    await run(db, insert, ['mem-ocr', BASE_TS, 'quarterly budget review', '']);
+    await run(db, insert, ['mem-ui', BASE_TS, '', 'quarterly budget review']);
+    // Memories without the words, so they are rare enough to score
+    for (let i = 0; i < 8; i++) {
+      await run(db, insert, [`mem-other-${i}`, BASE_TS + i, `team offsite agenda ${i}`, '']);
+    }
+
+    // Keyword search alone: no vector store or embedding provider is needed
+    const search = new SearchService(null) as any;
+    search.db = db;
+
+    for (const testCase of TEST_CASES) {
+      const results: Map<string, { score: number }> = await search.keywordSearch({
+        text: testCase.text,
+        app_hints: [],
+        topic_hints: [],
+        topics: [],
+        modality: testCase.modality,
+        strict: false
+      }, 10);
+      const ranked = [...results.keys()];
+      const scores = [...results.values()].map(result => result.score.toFixed(3));
+
+      if (ranked.join(',') === 'mem-ui,mem-ocr' && results.get('mem-ui')!.score > results.get('mem-ocr')!.score) {
+        logger.info(`✅ ${testCase.name}`);
+      } else {
+        logger.warn(`❌ ${testCase.name}: ranked ${ranked.join(', ')} with scores ${scores.join(', ')}`);
+        failures.push(testCase.name);
+      }
+    }
+  } finally {
+    await new Promise<void>(resolve => db.close(() => resolve()));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  logger.info('');
+  logger.info(`Overall: ${TEST_CASES.length - failures.length}/${TEST_CASES.length} tests passed`);
+  return failures.length === 0;
+}
+
+if (require.main === module) {
+  main().then(passed => {
+    console.log(passed ? '✅ Keyword ranking test PASSED' : '❌ Keyword ranking test FAILED');
+    process.exit(passed ? 0 : 1);
+  }).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
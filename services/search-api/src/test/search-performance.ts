@@ -2,9 +2,19 @@
 
 /**
  * Search API Performance Test
- * Tests P95 latency, confidence scoring, and demo queries
+ * Tests P95 latency, confidence scoring, and demo queries, and checks each vector
+ * storage setting keeps a minimum recall on a synthetic corpus
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  EmbeddedVectorStore,
+  VectorRecord,
+  VectorStorage,
+  bytesPerVector
+} from '@photographic-memory/mem-store';
 import { SearchService } from '../services/search';
 import { logger } from '../utils/logger';
 
@@ -48,9 +58,61 @@ const DEMO_QUERIES: TestQuery[] = [
   }
 ];
 
+// Synthetic corpus for the vector storage test: vectors mixing a few latent topics, as
+// text embeddings have far fewer degrees of freedom than dimensions, with variance
+// falling off along the dimensions like a Matryoshka model's
+const QUANTIZATION_SEED = 20240615;
+const QUANTIZATION_CORPUS_SIZE = 5000;
+const QUANTIZATION_TOPICS = 16;
+const QUANTIZATION_NOISE = 0.5;
+const QUANTIZATION_DIMENSIONS = 256;
+const QUANTIZATION_QUERY_COUNT = 50;
+const QUANTIZATION_K = 10;
+
+interface QuantizationResult {
+  label: string;
+  bytesPerVector: number;
+  savedPercent: number;
+  recall: number;     // Share of the full-precision top k still found
+  minRecall: number;
+  queryTime: number;  // Average ms per query
+}
+
+/**
+ * Seeded PRNG (mulberry32), so every run builds the same corpus
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function syntheticCorpus(): VectorRecord[] {
+  const random = seededRandom(QUANTIZATION_SEED);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const scale = Array.from({ length: QUANTIZATION_DIMENSIONS }, (_, i) => 1 / Math.sqrt(1 + i / 16));
+  const topics = Array.from({ length: QUANTIZATION_TOPICS }, () => scale.map(s => s * gaussian()));
+
+  return Array.from({ length: QUANTIZATION_CORPUS_SIZE }, (_, index) => {
+    const weights = topics.map(() => gaussian());
+    return {
+      id: `synthetic-${index}`,
+      embedding: scale.map((s, i) => weights.reduce((sum, weight, t) => sum + weight * topics[t][i], 0) + QUANTIZATION_NOISE * s * gaussian()),
+      document: '',
+      metadata: { ts: index, app: 'Synthetic' }
+    };
+  });
+}
+
 class SearchPerformanceTest {
   private searchService: SearchService;
   private results: any[] = [];
+  private quantizationResults: QuantizationResult[] = [];
 
   constructor() {
     this.searchService = new SearchService();
@@ -223,6 +285,88 @@ class SearchPerformanceTest {
     });
   }
 
+  /**
+   * Store a deterministic synthetic corpus under each storage setting, in a scratch
+   * vector store, and compare every setting's top k with full precision's for held-out
+   * vectors used as queries. Fails when a setting's recall drops below its minimum.
+   */
+  async testVectorQuantization(): Promise<boolean> {
+    logger.info('🗜️  Testing vector storage settings');
+
+    // Every nth vector becomes a query and is left out of the index
+    const records = syntheticCorpus();
+    const dimensions = QUANTIZATION_DIMENSIONS;
+    const step = Math.floor(records.length / QUANTIZATION_QUERY_COUNT);
+    const queries = records.filter((_, index) => index % step === 0).slice(0, QUANTIZATION_QUERY_COUNT);
+    const queryIds = new Set(queries.map(query => query.id));
+    const indexed = records.filter(record => !queryIds.has(record.id));
+
+    // Minimums a little under what each setting scores on this corpus
+    const settings: { label: string; storage: VectorStorage; minRecall: number }[] = [
+      { label: `float32, ${dimensions} dims`, storage: { quantization: 'none', dimensions: null }, minRecall: 1 },
+      { label: `int8, ${dimensions} dims`, storage: { quantization: 'int8', dimensions: null }, minRecall: 0.95 },
+      { label: `binary, ${dimensions} dims`, storage: { quantization: 'binary', dimensions: null }, minRecall: 0.65 },
+      { label: `float32, ${dimensions / 2} dims`, storage: { quantization: 'none', dimensions: dimensions / 2 }, minRecall: 0.8 },
+      { label: `int8, ${dimensions / 2} dims`, storage: { quantization: 'int8', dimensions: dimensions / 2 }, minRecall: 0.8 },
+      { label: `float32, ${dimensions / 4} dims`, storage: { quantization: 'none', dimensions: dimensions / 4 }, minRecall: 0.65 }
+    ];
+
+    const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-storage-'));
+    const store = new EmbeddedVectorStore(scratchDir, null);
+    let passed = true;
+    try {
+      let baseline: string[][] = [];
+      for (const [index, setting] of settings.entries()) {
+        const collection = await store.getOrCreateCollection(`bench_${index}`, { embedding_dim: dimensions }, setting.storage);
+        await collection.upsert(indexed);
+
+        const startTime = Date.now();
+        const found: string[][] = [];
+        for (const query of queries) {
+          found.push((await collection.query(query.embedding, QUANTIZATION_K)).map(match => match.id));
+        }
+        const queryTime = (Date.now() - startTime) / queries.length;
+
+        // The first setting is full precision: the results the others are scored against
+        if (index === 0) baseline = found;
+        const hits = found.reduce((sum, ids, i) => sum + ids.filter(id => baseline[i].includes(id)).length, 0);
+        const expected = baseline.reduce((sum, ids) => sum + ids.length, 0);
+
+        const bytes = bytesPerVector(setting.storage, dimensions);
+        const result: QuantizationResult = {
+          label: setting.label,
+          bytesPerVector: bytes,
+          savedPercent: (1 - bytes / bytesPerVector(settings[0].storage, dimensions)) * 100,
+          recall: expected > 0 ? hits / expected : 0,
+          minRecall: setting.minRecall,
+          queryTime
+        };
+        this.quantizationResults.push(result);
+
+        const met = result.recall >= result.minRecall;
+        passed = passed && met;
+        this.results.push({
+          name: `Vector storage: ${result.label}`,
+          error: met ? undefined : `recall@${QUANTIZATION_K} ${result.recall.toFixed(3)} below ${result.minRecall}`,
+          passed: met
+        });
+        logger.info(`${met ? '✅' : '❌'} ${result.label}: ${result.bytesPerVector} bytes/vector (-${result.savedPercent.toFixed(1)}%), recall@${QUANTIZATION_K}=${result.recall.toFixed(3)} (min ${result.minRecall}), ${queryTime.toFixed(1)}ms/query`);
+      }
+    } catch (error) {
+      logger.error('❌ Vector storage test failed:', error);
+      this.results.push({
+        name: 'Vector Storage',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        passed: false
+      });
+      passed = false;
+    } finally {
+      await store.close();
+      fs.rmSync(scratchDir, { recursive: true, force: true });
+    }
+    return passed;
+  }
+
   private generateReport(): void {
     logger.info('📊 Performance Test Report');
     logger.info('=' .repeat(50));
@@ -263,6 +407,16 @@ class SearchPerformanceTest {
       }
     }
     
+    // Storage saved and recall lost per vector storage setting
+    if (this.quantizationResults.length > 0) {
+      logger.info('');
+      logger.info(`Vector Storage (recall@${QUANTIZATION_K} vs full precision):`);
+      for (const result of this.quantizationResults) {
+        const perMillion = (result.bytesPerVector * 1000000 / (1024 ** 3)).toFixed(2);
+        logger.info(`  ${result.label}: ${result.bytesPerVector} B/vector (${perMillion}GB per million frames, -${result.savedPercent.toFixed(1)}%), recall=${result.recall.toFixed(3)} (min ${result.minRecall}), ${result.queryTime.toFixed(1)}ms/query`);
+      }
+    }
+
     // Success criteria
     logger.info('');
     logger.info('Success Criteria:');
@@ -276,11 +430,13 @@ async function main() {
   const test = new SearchPerformanceTest();
   
   try {
+    // Needs no database or embedding provider, so it runs first
+    const storagePassed = await test.testVectorQuantization();
     await test.initialize();
     await test.runPerformanceTest();
     
     logger.info('🎉 Performance test completed');
-    process.exit(0);
+    process.exit(storagePassed ? 0 : 1);
   } catch (error) {
     logger.error('Performance test failed:', error);
     process.exit(1);
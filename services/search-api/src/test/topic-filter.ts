@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+
+/**
+ * Topic Filter Test
+ * Stores many close matches under one topic and a few weaker ones under another, and
+ * checks a topic-filtered search still finds the weaker ones
+ */
+
+import { Database } from '@journeyapps/sqlcipher';
+import { EmbeddedVectorStore, LocalHashEmbeddingProvider, SchemaMigrator } from '@photographic-memory/mem-store';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SearchService } from '../services/search';
+import { logger } from '../utils/logger';
+
+const BASE_TS = Date.UTC(2024, 5, 1, 9);
+const CODING_MEMORIES = 24;
+const FINANCE_IDS = ['mem-finance-0', 'mem-finance-1', 'mem-finance-2'];
+const K = 5;
+
+function run(db: Database, sql: string, params: any[] = []): Promise<void> {
+  return new Promise((resolve, reject) => db.run(sql, params, err => (err ? reject(err) : resolve())));
+}
+
+async function main(): Promise<boolean> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'topic-filter-'));
+  const dbPath = path.join(workDir, 'memories.db');
+  const db = new Database(dbPath);
+  const vectors = new EmbeddedVectorStore(workDir);
+  const provider = new LocalHashEmbeddingProvider(256);
+  const failures: string[] = [];
+
+  try {
+    await new SchemaMigrator(db, dbPath).migrate();
+    const collection = await vectors.getOrCreateCollection('memories_test', {});
+    const insert = `INSERT INTO memories (id, ts, app, window_title, ocr_text, text_source, topics)
+      VALUES (?, ?, 'Code', 'Editor', ?, 'ocr', ?)`;
+
+    // Close matches under "coding" fill every candidate slot of an unfiltered query
+    const memories: { id: string; text: string; topic: string }[] = [];
+    for (let i = 0; i < CODING_MEMORIES; i++) {
+      memories.push({ id: `mem-coding-${i}`, text: 'budget report budget report', topic: 'coding' });
+    }
+    // Weaker matches under "finance", buried in unrelated text
+    for (const id of FINANCE_IDS) {
+      memories.push({
+        id,
+        text: `budget report attached to the quarterly planning thread with notes on hiring travel vendors ${id}`,
+        topic: 'finance'
+      });
+    }
+    // Memories without the words, so they are rare enough to score
+    for (let i = 0; i < 20; i++) {
+      memories.push({ id: `mem-other-${i}`, text: `team offsite agenda ${i}`, topic: 'travel' });
+    }
+
+    const embeddings = await provider.embed(memories.map(memory => memory.text));
+    for (const [i, memory] of memories.entries()) {
+      await run(db, insert, [memory.id, BASE_TS + i, memory.text, JSON.stringify([memory.topic])]);
+    }
+    await collection.upsert(memories.map((memory, i) => ({
+      id: memory.id,
+      embedding: embeddings[i],
+      document: memory.text,
+      metadata: { ts: BASE_TS + i, app: 'Code' }
+    })));
+
+    // Hybrid search against the temporary stores
+    const search = new SearchService(null) as any;
+    search.db = db;
+    search.embedding = { name: 'memories_test', collection, provider };
+
+    const results: { memory: { id: string } }[] = await search.hybridSearch({
+      text: 'budget report',
+      app_hints: [],
+      topic_hints: [],
+      topics: [],
+      topic_filter: 'finance',
+      strict: false
+    }, K);
+    const found = results.map(result => result.memory.id).sort();
+
+    const name = 'Topic filter finds matches ranked below the unfiltered candidates';
+    if (found.join(',') === FINANCE_IDS.join(',')) {
+      logger.info(`✅ ${name}`);
+    } else {
+      logger.warn(`❌ ${name}: found ${found.join(', ') || 'nothing'}`);
+      failures.push(name);
+    }
+  } finally {
+    await vectors.close();
+    await new Promise<void>(resolve => db.close(() => resolve()));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  logger.info('');
+  logger.info(`Overall: ${1 - failures.length}/1 tests passed`);
+  return failures.length === 0;
+}
+
+if (require.main === module) {
+  main().then(passed => {
+    console.log(passed ? '✅ Topic filter test PASSED' : '❌ Topic filter test FAILED');
+    process.exit(passed ? 0 : 1);
+  }).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
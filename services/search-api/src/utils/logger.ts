@@ -1,3 +1,4 @@
+import { useLogger } from '@photographic-memory/mem-store';
 import winston from 'winston';
 
 export const logger = winston.createLogger({
@@ -20,3 +21,5 @@ if (process.env.NODE_ENV !== 'production') {
   }));
 }
 
+// The shared storage modules (migrations, vector store) log as modules of this service
+useLogger(module => logger.child({ module }));